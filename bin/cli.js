@@ -13,9 +13,10 @@ Usage: claude-agentapi [options]
 Options:
   -h, --help                         Show this help message
   -w, --working-directory <path>     Set the working directory for the agent
-  -p, --permission-mode <mode>       Set permission mode (default|acceptEdits|bypassPermissions)
+  -p, --permission-mode <mode>       Set permission mode (default|acceptEdits|plan|bypassPermissions)
   --mcp-config <json|path>           MCP servers configuration (JSON string or file path)
   --output-file <path>               Write stream JSON output to specified file
+  --resume-session                   Resume the previous Claude conversation on startup
   --dangerously-skip-permissions     Bypass all permission checks (use with caution!)
 
 Environment Variables:
@@ -30,6 +31,7 @@ Environment Variables:
   ANTHROPIC_OAUTH_TOKEN             Anthropic OAuth token
   CLAUDE_WORKING_DIRECTORY          Working directory for the agent
   CLAUDE_PERMISSION_MODE            Permission mode
+  CLAUDE_RESUME_SESSION             Resume the previous Claude conversation on startup (true/false)
   CLAUDE_SETTING_SOURCES            Setting sources for CLAUDE.md (comma-separated: user,project,local)
                                     (default: user,project - enables CLAUDE.md loading)
   DEBUG                             Enable debug logging
@@ -81,5 +83,10 @@ if (outputFileIndex !== -1 && args[outputFileIndex + 1]) {
   process.env.STREAM_JSON_OUTPUT_FILE = args[outputFileIndex + 1];
 }
 
+// Check for --resume-session flag
+if (args.includes('--resume-session')) {
+  process.env.CLAUDE_RESUME_SESSION = 'true';
+}
+
 // Import and run the main application
 import('../dist/index.js');
@@ -9,7 +9,13 @@ vi.mock('../../services/agent.js', () => ({
     getStatus: vi.fn(),
     sendAction: vi.fn(),
     approvePlan: vi.fn(),
+    approveTool: vi.fn(),
+    hasPendingToolApproval: vi.fn(),
     stopAgent: vi.fn(),
+    setModel: vi.fn(),
+    setPermissionMode: vi.fn(),
+    isPermissionBypassAllowed: vi.fn(),
+    isModelAllowed: vi.fn(),
     getPendingActions: vi.fn(),
     sendMessage: vi.fn(),
     getMessages: vi.fn(),
@@ -300,6 +306,142 @@ describe('POST /action', () => {
     });
   });
 
+  describe('approve_tool action', () => {
+    it('should allow a pending tool call', async () => {
+      (agentService.hasPendingToolApproval as ReturnType<typeof vi.fn>).mockReturnValue(true);
+      (agentService.approveTool as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
+
+      const response = await request(app)
+        .post('/action')
+        .send({ type: 'approve_tool', tool_use_id: 'tool-1', decision: 'allow' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ ok: true });
+      expect(agentService.hasPendingToolApproval).toHaveBeenCalledWith('tool-1');
+      expect(agentService.approveTool).toHaveBeenCalledWith({
+        type: 'approve_tool',
+        tool_use_id: 'tool-1',
+        decision: 'allow',
+      });
+    });
+
+    it('should pass deny message, edited input and always_allow through', async () => {
+      (agentService.hasPendingToolApproval as ReturnType<typeof vi.fn>).mockReturnValue(true);
+      (agentService.approveTool as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
+
+      const response = await request(app)
+        .post('/action')
+        .send({
+          type: 'approve_tool',
+          decision: 'allow',
+          updated_input: { command: 'ls -la' },
+          always_allow: true,
+          pattern: 'Bash',
+        });
+
+      expect(response.status).toBe(200);
+      expect(agentService.approveTool).toHaveBeenCalledWith(
+        expect.objectContaining({
+          updated_input: { command: 'ls -la' },
+          always_allow: true,
+          pattern: 'Bash',
+        })
+      );
+    });
+
+    it('should reject invalid decision', async () => {
+      const response = await request(app)
+        .post('/action')
+        .send({ type: 'approve_tool', decision: 'maybe' });
+
+      expect(response.status).toBe(400);
+      expect(agentService.approveTool).not.toHaveBeenCalled();
+    });
+
+    it('should return 409 when no tool approval is pending', async () => {
+      (agentService.hasPendingToolApproval as ReturnType<typeof vi.fn>).mockReturnValue(false);
+
+      const response = await request(app)
+        .post('/action')
+        .send({ type: 'approve_tool', decision: 'deny', message: 'no' });
+
+      expect(response.status).toBe(409);
+      expect(response.body).toHaveProperty('title', 'No pending tool approval');
+      expect(agentService.approveTool).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('set_model action', () => {
+    it('should switch the model', async () => {
+      (agentService.isModelAllowed as ReturnType<typeof vi.fn>).mockReturnValue(true);
+      (agentService.setModel as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
+
+      const response = await request(app)
+        .post('/action')
+        .send({ type: 'set_model', model: 'opus' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ ok: true });
+      expect(agentService.setModel).toHaveBeenCalledWith('opus');
+    });
+
+    it('should reject models outside of the allowed list', async () => {
+      (agentService.isModelAllowed as ReturnType<typeof vi.fn>).mockReturnValue(false);
+
+      const response = await request(app)
+        .post('/action')
+        .send({ type: 'set_model', model: 'claude-3-haiku' });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toHaveProperty('title', 'Model not allowed');
+      expect(agentService.setModel).not.toHaveBeenCalled();
+    });
+
+    it('should reject set_model without model', async () => {
+      const response = await request(app)
+        .post('/action')
+        .send({ type: 'set_model' });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toHaveProperty('title', 'Invalid request');
+    });
+  });
+
+  describe('set_permission_mode action', () => {
+    it('should switch to plan mode', async () => {
+      (agentService.setPermissionMode as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
+
+      const response = await request(app)
+        .post('/action')
+        .send({ type: 'set_permission_mode', mode: 'plan' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ ok: true });
+      expect(agentService.setPermissionMode).toHaveBeenCalledWith('plan');
+    });
+
+    it('should reject bypassPermissions unless allowed by the server', async () => {
+      (agentService.isPermissionBypassAllowed as ReturnType<typeof vi.fn>).mockReturnValue(false);
+
+      const response = await request(app)
+        .post('/action')
+        .send({ type: 'set_permission_mode', mode: 'bypassPermissions' });
+
+      expect(response.status).toBe(403);
+      expect(response.body).toHaveProperty('title', 'Forbidden');
+      expect(agentService.setPermissionMode).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown modes', async () => {
+      const response = await request(app)
+        .post('/action')
+        .send({ type: 'set_permission_mode', mode: 'yolo' });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toHaveProperty('title', 'Invalid request');
+    });
+  });
+
   describe('stop_agent action', () => {
     it('should stop agent successfully', async () => {
       (agentService.stopAgent as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
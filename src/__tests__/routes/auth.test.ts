@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import request from 'supertest';
+import { createServer } from '../../server.js';
+import { agentService } from '../../services/agent.js';
+
+// Mock services
+vi.mock('../../services/agent.js', () => ({
+  agentService: {
+    getStatus: vi.fn(),
+    isResumed: vi.fn().mockReturnValue(false),
+    getSdkSessionId: vi.fn().mockReturnValue(null),
+    getSessionUsage: vi.fn(),
+    getModel: vi.fn(),
+    getPermissionMode: vi.fn(),
+    sendMessage: vi.fn(),
+    setPermissionMode: vi.fn(),
+    isPermissionBypassAllowed: vi.fn().mockReturnValue(true),
+    isQueueEnabled: vi.fn().mockReturnValue(false),
+    initialize: vi.fn(),
+    cleanup: vi.fn(),
+  },
+}));
+vi.mock('../../services/session.js', () => ({
+  sessionService: {
+    subscribe: vi.fn(),
+    unsubscribe: vi.fn(),
+    broadcastMessageUpdate: vi.fn(),
+    broadcastStatusChange: vi.fn(),
+    sendInitialState: vi.fn(),
+    getSubscriberCount: vi.fn(),
+  },
+}));
+
+describe('API authentication', () => {
+  const auth = {
+    tokens: [
+      { name: 'reader', token: 'read-token', scopes: ['read' as const] },
+      { name: 'writer', token: 'write-token', scopes: ['write' as const] },
+      { name: 'admin', token: 'admin-token', scopes: ['admin' as const] },
+    ],
+    publicHealth: true,
+  };
+  const app = createServer({ auth });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (agentService.getStatus as ReturnType<typeof vi.fn>).mockReturnValue('stable');
+  });
+
+  it('should reject requests without a token using Problem+JSON', async () => {
+    const response = await request(app).get('/status');
+
+    expect(response.status).toBe(401);
+    expect(response.headers['www-authenticate']).toBe('Bearer');
+    expect(response.body).toMatchObject({ type: 'about:blank', title: 'Unauthorized', status: 401 });
+  });
+
+  it('should accept bearer tokens and API keys', async () => {
+    const bearer = await request(app).get('/status').set('Authorization', 'Bearer read-token');
+    const apiKey = await request(app).get('/status').set('X-API-Key', 'read-token');
+
+    expect(bearer.status).toBe(200);
+    expect(apiKey.status).toBe(200);
+  });
+
+  it('should require the write scope to send messages', async () => {
+    const readOnly = await request(app)
+      .post('/message')
+      .set('Authorization', 'Bearer read-token')
+      .send({ content: 'Hello', type: 'user' });
+
+    expect(readOnly.status).toBe(403);
+    expect(readOnly.body).toHaveProperty('title', 'Forbidden');
+    expect(agentService.sendMessage).not.toHaveBeenCalled();
+
+    const writer = await request(app)
+      .post('/message')
+      .set('Authorization', 'Bearer write-token')
+      .send({ content: 'Hello', type: 'user' });
+
+    expect(writer.status).toBe(200);
+  });
+
+  it('should require the admin scope to manage sessions', async () => {
+    const writer = await request(app).delete('/sessions/some-id').set('Authorization', 'Bearer write-token');
+    const admin = await request(app).delete('/sessions/some-id').set('Authorization', 'Bearer admin-token');
+
+    expect(writer.status).toBe(403);
+    expect(admin.status).toBe(404);
+  });
+
+  it('should require the admin scope to switch to bypassPermissions', async () => {
+    const writer = await request(app)
+      .post('/action')
+      .set('Authorization', 'Bearer write-token')
+      .send({ type: 'set_permission_mode', mode: 'bypassPermissions' });
+
+    expect(writer.status).toBe(403);
+    expect(writer.body).toHaveProperty('detail', "This request requires the 'admin' scope.");
+    expect(agentService.setPermissionMode).not.toHaveBeenCalled();
+
+    const writerPlan = await request(app)
+      .post('/action')
+      .set('Authorization', 'Bearer write-token')
+      .send({ type: 'set_permission_mode', mode: 'plan' });
+    expect(writerPlan.status).toBe(200);
+
+    const admin = await request(app)
+      .post('/action')
+      .set('Authorization', 'Bearer admin-token')
+      .send({ type: 'set_permission_mode', mode: 'bypassPermissions' });
+    expect(admin.status).toBe(200);
+    expect(agentService.setPermissionMode).toHaveBeenLastCalledWith('bypassPermissions');
+  });
+
+  it('should leave /health public unless configured otherwise', async () => {
+    expect((await request(app).get('/health')).status).toBe(200);
+
+    const privateHealth = createServer({ auth: { ...auth, publicHealth: false } });
+    expect((await request(privateHealth).get('/health')).status).toBe(401);
+  });
+});
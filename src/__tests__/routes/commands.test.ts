@@ -0,0 +1,178 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import request from 'supertest';
+import { createServer } from '../../server.js';
+import { agentService } from '../../services/agent.js';
+
+// Mock services
+vi.mock('../../services/agent.js', () => ({
+  agentService: {
+    getStatus: vi.fn(),
+    sendMessage: vi.fn(),
+    isQueueEnabled: vi.fn().mockReturnValue(false),
+    enqueueMessage: vi.fn(),
+    expandSlashCommand: vi.fn(),
+    addSystemMessage: vi.fn(),
+    getSessionUsage: vi.fn(),
+    compactConversation: vi.fn(),
+    isModelAllowed: vi.fn(),
+    initialize: vi.fn(),
+    cleanup: vi.fn(),
+  },
+}));
+vi.mock('../../services/session.js', () => ({
+  sessionService: {
+    subscribe: vi.fn(),
+    unsubscribe: vi.fn(),
+    broadcastMessageUpdate: vi.fn(),
+    broadcastStatusChange: vi.fn(),
+    sendInitialState: vi.fn(),
+    getSubscriberCount: vi.fn(),
+  },
+}));
+
+describe('POST /commands/:name', () => {
+  const app = createServer();
+  const expanded = {
+    name: 'fix-issue',
+    arguments: '123 high',
+    prompt: 'Fix issue #123 with priority high',
+    model: 'haiku',
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should expand the command and send it to the agent', async () => {
+    (agentService.getStatus as ReturnType<typeof vi.fn>).mockReturnValue('stable');
+    (agentService.expandSlashCommand as ReturnType<typeof vi.fn>).mockResolvedValue(expanded);
+    (agentService.sendMessage as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
+
+    const response = await request(app)
+      .post('/commands/fix-issue')
+      .send({ arguments: ' 123 high ' });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ ok: true });
+    expect(agentService.expandSlashCommand).toHaveBeenCalledWith('fix-issue', '123 high');
+    expect(agentService.sendMessage).toHaveBeenCalledWith('/fix-issue 123 high', [], expanded);
+  });
+
+  it('should default arguments to an empty string', async () => {
+    (agentService.getStatus as ReturnType<typeof vi.fn>).mockReturnValue('stable');
+    (agentService.expandSlashCommand as ReturnType<typeof vi.fn>).mockResolvedValue({ ...expanded, arguments: '' });
+    (agentService.sendMessage as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
+
+    const response = await request(app).post('/commands/fix-issue');
+
+    expect(response.status).toBe(200);
+    expect(agentService.expandSlashCommand).toHaveBeenCalledWith('fix-issue', '');
+    expect(agentService.sendMessage).toHaveBeenCalledWith('/fix-issue', [], expect.objectContaining({ name: 'fix-issue' }));
+  });
+
+  it('should accept plugin-qualified names', async () => {
+    (agentService.getStatus as ReturnType<typeof vi.fn>).mockReturnValue('stable');
+    (agentService.expandSlashCommand as ReturnType<typeof vi.fn>).mockResolvedValue(expanded);
+    (agentService.sendMessage as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
+
+    const response = await request(app)
+      .post('/commands/my-plugin:fix-issue')
+      .send({ arguments: '123' });
+
+    expect(response.status).toBe(200);
+    expect(agentService.expandSlashCommand).toHaveBeenCalledWith('my-plugin:fix-issue', '123');
+  });
+
+  it('should return 404 for unknown commands', async () => {
+    (agentService.expandSlashCommand as ReturnType<typeof vi.fn>).mockResolvedValue(null);
+
+    const response = await request(app)
+      .post('/commands/missing')
+      .send({ arguments: '' });
+
+    expect(response.status).toBe(404);
+    expect(response.body).toHaveProperty('title', 'Command not found');
+    expect(agentService.sendMessage).not.toHaveBeenCalled();
+  });
+
+  it('should reject non-string arguments', async () => {
+    const response = await request(app)
+      .post('/commands/fix-issue')
+      .send({ arguments: ['123'] });
+
+    expect(response.status).toBe(400);
+    expect(response.body).toHaveProperty('title', 'Invalid request');
+    expect(agentService.expandSlashCommand).not.toHaveBeenCalled();
+  });
+
+  it('should return 409 when the agent is busy', async () => {
+    (agentService.getStatus as ReturnType<typeof vi.fn>).mockReturnValue('running');
+    (agentService.expandSlashCommand as ReturnType<typeof vi.fn>).mockResolvedValue(expanded);
+
+    const response = await request(app)
+      .post('/commands/fix-issue')
+      .send({ arguments: '123' });
+
+    expect(response.status).toBe(409);
+    expect(agentService.sendMessage).not.toHaveBeenCalled();
+  });
+
+  it('should queue the command when queue mode is enabled', async () => {
+    (agentService.getStatus as ReturnType<typeof vi.fn>).mockReturnValue('running');
+    (agentService.isQueueEnabled as ReturnType<typeof vi.fn>).mockReturnValueOnce(true);
+    (agentService.expandSlashCommand as ReturnType<typeof vi.fn>).mockResolvedValue(expanded);
+    (agentService.enqueueMessage as ReturnType<typeof vi.fn>).mockReturnValue({
+      id: 'queue-1',
+      content: '/fix-issue 123 high',
+      position: 1,
+      queued_at: '2024-01-01T00:00:00.000Z',
+    });
+
+    const response = await request(app)
+      .post('/commands/fix-issue')
+      .send({ arguments: '123 high' });
+
+    expect(response.status).toBe(202);
+    expect(response.body).toMatchObject({ queued: true, queue_id: 'queue-1' });
+    expect(agentService.enqueueMessage).toHaveBeenCalledWith('/fix-issue 123 high', [], expanded);
+  });
+
+  describe('built-in commands', () => {
+    it('should start a compaction without a system message', async () => {
+      (agentService.getStatus as ReturnType<typeof vi.fn>).mockReturnValue('stable');
+      (agentService.compactConversation as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
+
+      const response = await request(app)
+        .post('/commands/compact')
+        .send({ arguments: 'focus on the API' });
+
+      expect(response.status).toBe(200);
+      expect(agentService.compactConversation).toHaveBeenCalledWith('focus on the API');
+      expect(agentService.addSystemMessage).not.toHaveBeenCalled();
+      expect(agentService.expandSlashCommand).not.toHaveBeenCalled();
+    });
+
+    it('should return 409 for turn-starting commands while the agent is busy', async () => {
+      (agentService.getStatus as ReturnType<typeof vi.fn>).mockReturnValue('running');
+      (agentService.isQueueEnabled as ReturnType<typeof vi.fn>).mockReturnValueOnce(true);
+
+      const response = await request(app).post('/commands/compact');
+
+      expect(response.status).toBe(409);
+      expect(agentService.compactConversation).not.toHaveBeenCalled();
+      expect(agentService.enqueueMessage).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for invalid arguments', async () => {
+      (agentService.isModelAllowed as ReturnType<typeof vi.fn>).mockReturnValue(false);
+
+      const response = await request(app)
+        .post('/commands/model')
+        .send({ arguments: 'gpt' });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toMatchObject({ title: 'Invalid command arguments', detail: 'Model "gpt" is not allowed' });
+      expect(agentService.addSystemMessage).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import request from 'supertest';
+import { createServer } from '../../server.js';
+import { sessionService } from '../../services/session.js';
+import type { SSEClient } from '../../types/agent.js';
+
+// Mock services
+vi.mock('../../services/agent.js', () => ({
+  agentService: {
+    getStatus: vi.fn().mockReturnValue('stable'),
+    getMessages: vi.fn().mockReturnValue([]),
+    initialize: vi.fn(),
+    cleanup: vi.fn(),
+  },
+}));
+vi.mock('../../services/session.js', () => ({
+  sessionService: {
+    subscribe: vi.fn(),
+    unsubscribe: vi.fn(),
+    // Close the stream right away so that the request completes
+    sendInitialState: vi.fn((client: SSEClient) => client.close()),
+    replayEvents: vi.fn((client: SSEClient) => client.close()),
+    getEventsSince: vi.fn(),
+    getSubscriberCount: vi.fn(),
+  },
+}));
+
+describe('GET /events', () => {
+  const app = createServer();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should send the full initial state without a resume point', async () => {
+    await request(app).get('/events');
+
+    expect(sessionService.sendInitialState).toHaveBeenCalledWith(expect.anything(), [], 'stable');
+    expect(sessionService.getEventsSince).not.toHaveBeenCalled();
+  });
+
+  it('should replay missed events after Last-Event-ID', async () => {
+    const missed = [{ id: 'run-6', event: 'status_change', data: { status: 'stable' } }];
+    (sessionService.getEventsSince as ReturnType<typeof vi.fn>).mockReturnValue(missed);
+
+    await request(app).get('/events').set('Last-Event-ID', 'run-5');
+
+    expect(sessionService.getEventsSince).toHaveBeenCalledWith('run-5');
+    expect(sessionService.replayEvents).toHaveBeenCalledWith(expect.anything(), missed);
+    expect(sessionService.sendInitialState).not.toHaveBeenCalled();
+  });
+
+  it('should accept the since query parameter', async () => {
+    (sessionService.getEventsSince as ReturnType<typeof vi.fn>).mockReturnValue([]);
+
+    await request(app).get('/events?since=run-12');
+
+    expect(sessionService.getEventsSince).toHaveBeenCalledWith('run-12');
+    expect(sessionService.replayEvents).toHaveBeenCalled();
+  });
+
+  it('should fall back to init when the event id aged out', async () => {
+    (sessionService.getEventsSince as ReturnType<typeof vi.fn>).mockReturnValue(null);
+
+    await request(app).get('/events').set('Last-Event-ID', 'run-1');
+
+    expect(sessionService.replayEvents).not.toHaveBeenCalled();
+    expect(sessionService.sendInitialState).toHaveBeenCalled();
+  });
+
+  it('should fall back to init for ids from another server run', async () => {
+    (sessionService.getEventsSince as ReturnType<typeof vi.fn>).mockReturnValue(null);
+
+    await request(app).get('/events?since=42');
+
+    expect(sessionService.getEventsSince).toHaveBeenCalledWith('42');
+    expect(sessionService.replayEvents).not.toHaveBeenCalled();
+    expect(sessionService.sendInitialState).toHaveBeenCalled();
+  });
+});
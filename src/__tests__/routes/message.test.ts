@@ -8,6 +8,15 @@ vi.mock('../../services/agent.js', () => ({
   agentService: {
     getStatus: vi.fn(),
     sendMessage: vi.fn(),
+    sendRawMessage: vi.fn(),
+    isQueueEnabled: vi.fn().mockReturnValue(false),
+    enqueueMessage: vi.fn(),
+    prepareAttachments: vi.fn(),
+    expandSlashCommand: vi.fn(),
+    getSkill: vi.fn(),
+    addSystemMessage: vi.fn(),
+    getSessionUsage: vi.fn(),
+    compactConversation: vi.fn(),
     getMessages: vi.fn(),
     initialize: vi.fn(),
     cleanup: vi.fn(),
@@ -71,7 +80,7 @@ describe('POST /message', () => {
 
       expect(response.status).toBe(200);
       expect(response.body).toEqual({ ok: true });
-      expect(agentService.sendMessage).toHaveBeenCalledWith('Hello');
+      expect(agentService.sendMessage).toHaveBeenCalledWith('Hello', [], undefined);
     });
 
     it('should reject message when agent is busy', async () => {
@@ -102,14 +111,246 @@ describe('POST /message', () => {
     });
   });
 
+  describe('attachments', () => {
+    it('should prepare attachments and send them with the message', async () => {
+      const prepared = [{
+        block: { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'iVBORw0KGgo=' } },
+        metadata: { type: 'image', media_type: 'image/png', name: 'shot.png', size: 8 },
+      }];
+      (agentService.getStatus as ReturnType<typeof vi.fn>).mockReturnValue('stable');
+      (agentService.prepareAttachments as ReturnType<typeof vi.fn>).mockResolvedValue(prepared);
+      (agentService.sendMessage as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
+
+      const attachments = [{ type: 'base64', media_type: 'image/png', data: 'iVBORw0KGgo=', name: 'shot.png' }];
+      const response = await request(app)
+        .post('/message')
+        .send({ content: 'What is this?', type: 'user', attachments });
+
+      expect(response.status).toBe(200);
+      expect(agentService.prepareAttachments).toHaveBeenCalledWith(attachments);
+      expect(agentService.sendMessage).toHaveBeenCalledWith('What is this?', prepared, undefined);
+    });
+
+    it('should return 400 for invalid attachments', async () => {
+      const { AttachmentError } = await import('../../utils/attachments.js');
+      (agentService.getStatus as ReturnType<typeof vi.fn>).mockReturnValue('stable');
+      (agentService.prepareAttachments as ReturnType<typeof vi.fn>).mockRejectedValue(
+        new AttachmentError('Attachment /etc/passwd is outside of the uploads folder')
+      );
+
+      const response = await request(app)
+        .post('/message')
+        .send({ content: 'Read this', type: 'user', attachments: [{ type: 'file', file_path: '/etc/passwd' }] });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toMatchObject({
+        title: 'Invalid attachment',
+        detail: 'Attachment /etc/passwd is outside of the uploads folder',
+      });
+      expect(agentService.sendMessage).not.toHaveBeenCalled();
+    });
+
+    it('should reject malformed attachments', async () => {
+      const response = await request(app)
+        .post('/message')
+        .send({ content: 'Hello', type: 'user', attachments: [{ type: 'url', url: 'https://example.com/a.png' }] });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toHaveProperty('title', 'Invalid request');
+    });
+  });
+
+  describe('queue mode', () => {
+    it('should queue message when agent is busy and queue mode is enabled', async () => {
+      (agentService.getStatus as ReturnType<typeof vi.fn>).mockReturnValue('running');
+      (agentService.isQueueEnabled as ReturnType<typeof vi.fn>).mockReturnValueOnce(true);
+      (agentService.enqueueMessage as ReturnType<typeof vi.fn>).mockReturnValue({
+        id: 'queue-1',
+        content: 'Hello',
+        position: 2,
+        queued_at: '2024-01-01T00:00:00.000Z',
+      });
+
+      const response = await request(app)
+        .post('/message')
+        .send({ content: 'Hello', type: 'user' });
+
+      expect(response.status).toBe(202);
+      expect(response.body).toEqual({
+        ok: true,
+        queued: true,
+        queue_id: 'queue-1',
+        position: 2,
+      });
+      expect(agentService.enqueueMessage).toHaveBeenCalledWith('Hello', [], undefined);
+      expect(agentService.sendMessage).not.toHaveBeenCalled();
+    });
+
+    it('should send directly when agent is stable even if queue mode is enabled', async () => {
+      (agentService.getStatus as ReturnType<typeof vi.fn>).mockReturnValue('stable');
+      (agentService.isQueueEnabled as ReturnType<typeof vi.fn>).mockReturnValueOnce(true);
+      (agentService.sendMessage as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
+
+      const response = await request(app)
+        .post('/message')
+        .send({ content: 'Hello', type: 'user' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ ok: true });
+      expect(agentService.enqueueMessage).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('slash commands', () => {
+    const expanded = {
+      name: 'review',
+      arguments: 'src/app.ts',
+      prompt: 'Review src/app.ts carefully',
+      allowedTools: ['Read'],
+    };
+
+    it('should expand a custom command and send its prompt', async () => {
+      (agentService.getStatus as ReturnType<typeof vi.fn>).mockReturnValue('stable');
+      (agentService.expandSlashCommand as ReturnType<typeof vi.fn>).mockResolvedValue(expanded);
+      (agentService.sendMessage as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
+
+      const response = await request(app)
+        .post('/message')
+        .send({ content: '/review src/app.ts', type: 'user' });
+
+      expect(response.status).toBe(200);
+      expect(agentService.expandSlashCommand).toHaveBeenCalledWith('review', 'src/app.ts');
+      expect(agentService.sendMessage).toHaveBeenCalledWith('/review src/app.ts', [], expanded);
+    });
+
+    it('should send unknown commands as plain text', async () => {
+      (agentService.getStatus as ReturnType<typeof vi.fn>).mockReturnValue('stable');
+      (agentService.expandSlashCommand as ReturnType<typeof vi.fn>).mockResolvedValue(null);
+      (agentService.sendMessage as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
+
+      const response = await request(app)
+        .post('/message')
+        .send({ content: '/unknown', type: 'user' });
+
+      expect(response.status).toBe(200);
+      expect(agentService.sendMessage).toHaveBeenCalledWith('/unknown', [], undefined);
+    });
+
+    it('should refuse skills disabled for this session', async () => {
+      (agentService.getStatus as ReturnType<typeof vi.fn>).mockReturnValue('stable');
+      (agentService.expandSlashCommand as ReturnType<typeof vi.fn>).mockResolvedValue(null);
+      (agentService.getSkill as ReturnType<typeof vi.fn>).mockResolvedValueOnce({ name: 'pdf', enabled: false });
+
+      const response = await request(app)
+        .post('/message')
+        .send({ content: '/pdf report.pdf', type: 'user' });
+
+      expect(response.status).toBe(403);
+      expect(response.body).toHaveProperty('title', 'Skill disabled');
+      expect(agentService.getSkill).toHaveBeenCalledWith('pdf');
+      expect(agentService.sendMessage).not.toHaveBeenCalled();
+    });
+
+    it('should send enabled skills as plain text', async () => {
+      (agentService.getStatus as ReturnType<typeof vi.fn>).mockReturnValue('stable');
+      (agentService.expandSlashCommand as ReturnType<typeof vi.fn>).mockResolvedValue(null);
+      (agentService.getSkill as ReturnType<typeof vi.fn>).mockResolvedValueOnce({ name: 'pdf', enabled: true });
+      (agentService.sendMessage as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
+
+      const response = await request(app)
+        .post('/message')
+        .send({ content: '/pdf report.pdf', type: 'user' });
+
+      expect(response.status).toBe(200);
+      expect(agentService.sendMessage).toHaveBeenCalledWith('/pdf report.pdf', [], undefined);
+    });
+
+    it('should run built-in commands on the server', async () => {
+      (agentService.getSessionUsage as ReturnType<typeof vi.fn>).mockReturnValue({
+        turns: 0,
+        cost_usd: 0,
+        duration_ms: 0,
+        duration_api_ms: 0,
+        num_turns: 0,
+        tokens: { input_tokens: 0, output_tokens: 0, cache_read_input_tokens: 0, cache_creation_input_tokens: 0 },
+        models: {},
+      });
+
+      const response = await request(app)
+        .post('/message')
+        .send({ content: '/cost', type: 'user' });
+
+      expect(response.status).toBe(200);
+      expect(agentService.addSystemMessage).toHaveBeenCalledWith(
+        expect.stringContaining('Total cost: $0.0000'),
+        { name: 'cost', arguments: '' }
+      );
+      expect(agentService.expandSlashCommand).not.toHaveBeenCalled();
+      expect(agentService.sendMessage).not.toHaveBeenCalled();
+    });
+
+    it('should not look up commands for regular messages', async () => {
+      (agentService.getStatus as ReturnType<typeof vi.fn>).mockReturnValue('stable');
+      (agentService.sendMessage as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
+
+      await request(app)
+        .post('/message')
+        .send({ content: 'Use /tmp for scratch files', type: 'user' });
+
+      expect(agentService.expandSlashCommand).not.toHaveBeenCalled();
+    });
+  });
+
   describe('raw message', () => {
-    it('should return not implemented for raw messages', async () => {
+    it('should forward string content as-is', async () => {
+      (agentService.getStatus as ReturnType<typeof vi.fn>).mockReturnValue('stable');
+      (agentService.sendRawMessage as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
+
+      const response = await request(app)
+        .post('/message')
+        .send({ content: 'raw input', type: 'raw' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ ok: true });
+      expect(agentService.sendRawMessage).toHaveBeenCalledWith('raw input', undefined);
+    });
+
+    it('should forward content blocks and parent_tool_use_id', async () => {
+      (agentService.getStatus as ReturnType<typeof vi.fn>).mockReturnValue('stable');
+      (agentService.sendRawMessage as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
+
+      const content = [
+        { type: 'text', text: 'What is in this image?' },
+        { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'iVBORw0KGgo=' } },
+        { type: 'document', source: { type: 'text', media_type: 'text/plain', data: 'spec' }, title: 'Spec' },
+      ];
+
+      const response = await request(app)
+        .post('/message')
+        .send({ content, type: 'raw', parent_tool_use_id: 'toolu_123' });
+
+      expect(response.status).toBe(200);
+      expect(agentService.sendRawMessage).toHaveBeenCalledWith(content, 'toolu_123');
+    });
+
+    it('should reject unsupported content blocks', async () => {
+      const response = await request(app)
+        .post('/message')
+        .send({ content: [{ type: 'audio', data: 'x' }], type: 'raw' });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toHaveProperty('title', 'Invalid request');
+    });
+
+    it('should reject raw message when agent is busy', async () => {
+      (agentService.getStatus as ReturnType<typeof vi.fn>).mockReturnValue('running');
+
       const response = await request(app)
         .post('/message')
         .send({ content: 'raw input', type: 'raw' });
 
-      expect(response.status).toBe(501);
-      expect(response.body).toHaveProperty('title', 'Not implemented');
+      expect(response.status).toBe(409);
+      expect(agentService.sendRawMessage).not.toHaveBeenCalled();
     });
   });
 });
@@ -1,5 +1,8 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import request from 'supertest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
 import { createServer } from '../../server.js';
 import { agentService } from '../../services/agent.js';
 import type { Message } from '../../types/api.js';
@@ -11,6 +14,7 @@ vi.mock('../../services/agent.js', () => ({
     sendMessage: vi.fn(),
     getMessages: vi.fn(),
     getMessagesWithPagination: vi.fn(),
+    getAttachment: vi.fn(),
     initialize: vi.fn(),
     cleanup: vi.fn(),
   },
@@ -361,3 +365,205 @@ describe('GET /messages', () => {
     });
   });
 });
+
+describe('GET /messages filters', () => {
+  const app = createServer();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (agentService.getMessagesWithPagination as ReturnType<typeof vi.fn>).mockReturnValue({
+      messages: [],
+      total: 0,
+      hasMore: false,
+    });
+  });
+
+  it('should parse comma-separated and repeated filter values', async () => {
+    const response = await request(app).get('/messages?role=agent,tool_result&tool=Bash&tool=Edit&status=error');
+
+    expect(response.status).toBe(200);
+    expect(agentService.getMessagesWithPagination).toHaveBeenCalledWith(expect.objectContaining({
+      filter: expect.objectContaining({
+        role: ['agent', 'tool_result'],
+        tool: ['Bash', 'Edit'],
+        status: ['error'],
+      }),
+    }));
+  });
+
+  it('should combine filters with cursor parameters', async () => {
+    const response = await request(app).get('/messages?q=migration&type=question&after=5&limit=10');
+
+    expect(response.status).toBe(200);
+    expect(agentService.getMessagesWithPagination).toHaveBeenCalledWith(expect.objectContaining({
+      after: 5,
+      limit: 10,
+      filter: expect.objectContaining({ q: 'migration', type: ['question'] }),
+    }));
+  });
+
+  it('should pass the subagent thread', async () => {
+    const response = await request(app).get('/messages?thread=toolu_task&limit=5');
+
+    expect(response.status).toBe(200);
+    expect(agentService.getMessagesWithPagination).toHaveBeenCalledWith(expect.objectContaining({
+      limit: 5,
+      filter: expect.objectContaining({ thread: 'toolu_task' }),
+    }));
+  });
+
+  it('should parse the time range', async () => {
+    await request(app).get('/messages?since=2024-01-01T00:00:00Z&until=2024-01-02T00:00:00Z');
+
+    expect(agentService.getMessagesWithPagination).toHaveBeenCalledWith(expect.objectContaining({
+      filter: expect.objectContaining({
+        since: new Date('2024-01-01T00:00:00Z'),
+        until: new Date('2024-01-02T00:00:00Z'),
+      }),
+    }));
+  });
+
+  it('should reject invalid filter values', async () => {
+    const role = await request(app).get('/messages?role=robot');
+    expect(role.status).toBe(400);
+    expect(role.body.detail).toContain('role');
+
+    const since = await request(app).get('/messages?since=yesterday');
+    expect(since.status).toBe(400);
+    expect(since.body.detail).toContain('since');
+
+    const q = await request(app).get('/messages?q=');
+    expect(q.status).toBe(400);
+  });
+
+  it('should reject an inverted time range', async () => {
+    const response = await request(app).get('/messages?since=2024-01-02T00:00:00Z&until=2024-01-01T00:00:00Z');
+
+    expect(response.status).toBe(400);
+    expect(response.body.detail).toBe('Parameter "since" must not be later than "until"');
+  });
+});
+
+describe('GET /messages/export', () => {
+  const app = createServer();
+
+  const mockMessages: Message[] = [
+    { id: 0, role: 'user', content: 'Hello', time: '2024-01-01T00:00:00.000Z' },
+    { id: 1, role: 'assistant', content: 'Hi there!', time: '2024-01-01T00:00:01.000Z' },
+  ];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (agentService.getMessagesWithPagination as ReturnType<typeof vi.fn>).mockReturnValue({
+      messages: mockMessages,
+      total: 2,
+      hasMore: false,
+    });
+  });
+
+  it('should export Markdown by default', async () => {
+    const response = await request(app).get('/messages/export');
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toBe('text/markdown; charset=utf-8');
+    expect(response.headers['content-disposition']).toMatch(/^attachment; filename="conversation-default-\d{4}-\d{2}-\d{2}\.md"$/);
+    expect(response.text).toContain('### 👤 User');
+    expect(response.text).toContain('Hi there!');
+  });
+
+  it('should export JSONL and HTML', async () => {
+    const jsonl = await request(app).get('/messages/export?format=jsonl');
+    expect(jsonl.headers['content-type']).toBe('application/x-ndjson; charset=utf-8');
+    expect(jsonl.text.trimEnd().split('\n')).toHaveLength(2);
+
+    const html = await request(app).get('/messages/export?format=html');
+    expect(html.headers['content-type']).toBe('text/html; charset=utf-8');
+    expect(html.text).toContain('<!DOCTYPE html>');
+  });
+
+  it('should pass range filters to pagination', async () => {
+    await request(app).get('/messages/export?format=markdown&after=5&limit=10');
+
+    expect(agentService.getMessagesWithPagination).toHaveBeenCalledWith({
+      limit: 10,
+      direction: undefined,
+      around: undefined,
+      context: undefined,
+      after: 5,
+      before: undefined,
+      filter: {},
+    });
+  });
+
+  it('should pass message filters to pagination', async () => {
+    await request(app).get('/messages/export?role=tool_result&status=error');
+
+    expect(agentService.getMessagesWithPagination).toHaveBeenCalledWith(expect.objectContaining({
+      filter: expect.objectContaining({ role: ['tool_result'], status: ['error'] }),
+    }));
+  });
+
+  it('should reject unknown formats and invalid ranges', async () => {
+    const format = await request(app).get('/messages/export?format=pdf');
+    expect(format.status).toBe(400);
+    expect(format.body).toHaveProperty('title', 'Invalid query parameters');
+
+    const range = await request(app).get('/messages/export?after=1&before=5');
+    expect(range.status).toBe(400);
+    expect(range.body.detail).toBe('Parameters "after" and "before" cannot be used together');
+  });
+});
+
+describe('GET /messages/:id/attachments/:index', () => {
+  const app = createServer();
+  let dir: string;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    dir = await mkdtemp(join(tmpdir(), 'messages-attachments-test-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should serve the attachment file with its media type', async () => {
+    const filePath = join(dir, 'shot.png');
+    await writeFile(filePath, 'png-bytes');
+    (agentService.getAttachment as ReturnType<typeof vi.fn>).mockReturnValue({
+      type: 'image',
+      media_type: 'image/png',
+      name: 'shot.png',
+      size: 9,
+      file_path: filePath,
+    });
+
+    const response = await request(app).get('/messages/3/attachments/0').buffer(true);
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toBe('image/png');
+    expect(response.headers['content-disposition']).toBe('inline; filename="shot.png"');
+    expect(Buffer.from(response.body).toString()).toBe('png-bytes');
+    expect(agentService.getAttachment).toHaveBeenCalledWith(3, 0);
+  });
+
+  it('should return 404 for unknown attachments and missing files', async () => {
+    (agentService.getAttachment as ReturnType<typeof vi.fn>).mockReturnValue(null);
+    const unknown = await request(app).get('/messages/3/attachments/1');
+    expect(unknown.status).toBe(404);
+    expect(unknown.body).toHaveProperty('title', 'Attachment not found');
+
+    const invalid = await request(app).get('/messages/abc/attachments/0');
+    expect(invalid.status).toBe(404);
+
+    (agentService.getAttachment as ReturnType<typeof vi.fn>).mockReturnValue({
+      type: 'document',
+      media_type: 'application/pdf',
+      size: 1,
+      file_path: join(dir, 'deleted.pdf'),
+    });
+    const missing = await request(app).get('/messages/3/attachments/0');
+    expect(missing.status).toBe(404);
+    expect(missing.body).toHaveProperty('title', 'Attachment not found');
+  });
+});
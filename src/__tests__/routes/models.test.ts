@@ -0,0 +1,57 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import request from 'supertest';
+import { createServer } from '../../server.js';
+import { agentService } from '../../services/agent.js';
+
+// Mock services
+vi.mock('../../services/agent.js', () => ({
+  agentService: {
+    getStatus: vi.fn(),
+    getModel: vi.fn(),
+    listModels: vi.fn(),
+    initialize: vi.fn(),
+    cleanup: vi.fn(),
+  },
+}));
+vi.mock('../../services/session.js', () => ({
+  sessionService: {
+    subscribe: vi.fn(),
+    unsubscribe: vi.fn(),
+    broadcastMessageUpdate: vi.fn(),
+    broadcastStatusChange: vi.fn(),
+    sendInitialState: vi.fn(),
+    getSubscriberCount: vi.fn(),
+  },
+}));
+
+describe('GET /models', () => {
+  const app = createServer();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should return the current model and the available models', async () => {
+    const models = [
+      { value: 'sonnet', display_name: 'Sonnet', description: 'Balanced' },
+      { value: 'opus', display_name: 'Opus', description: 'Most capable' },
+    ];
+    (agentService.getModel as ReturnType<typeof vi.fn>).mockReturnValue('sonnet');
+    (agentService.listModels as ReturnType<typeof vi.fn>).mockResolvedValue(models);
+
+    const response = await request(app).get('/models');
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ current: 'sonnet', models });
+  });
+
+  it('should handle errors', async () => {
+    (agentService.getModel as ReturnType<typeof vi.fn>).mockReturnValue('default');
+    (agentService.listModels as ReturnType<typeof vi.fn>).mockRejectedValue(new Error('SDK error'));
+
+    const response = await request(app).get('/models');
+
+    expect(response.status).toBe(500);
+    expect(response.body).toHaveProperty('detail', 'SDK error');
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import request from 'supertest';
+import { createServer } from '../../server.js';
+import { agentService } from '../../services/agent.js';
+
+// Mock services
+vi.mock('../../services/agent.js', () => ({
+  agentService: {
+    getStatus: vi.fn(),
+    getQueue: vi.fn(),
+    cancelQueuedMessage: vi.fn(),
+    initialize: vi.fn(),
+    cleanup: vi.fn(),
+  },
+}));
+vi.mock('../../services/session.js', () => ({
+  sessionService: {
+    subscribe: vi.fn(),
+    unsubscribe: vi.fn(),
+    broadcastMessageUpdate: vi.fn(),
+    broadcastStatusChange: vi.fn(),
+    broadcastQueueUpdate: vi.fn(),
+    sendInitialState: vi.fn(),
+    getSubscriberCount: vi.fn(),
+  },
+}));
+
+describe('/queue', () => {
+  const app = createServer();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('GET /queue', () => {
+    it('should return queued messages', async () => {
+      const queue = [
+        { id: 'queue-1', content: 'First', position: 1, queued_at: '2024-01-01T00:00:00.000Z' },
+        { id: 'queue-2', content: 'Second', position: 2, queued_at: '2024-01-01T00:00:01.000Z' },
+      ];
+      (agentService.getQueue as ReturnType<typeof vi.fn>).mockReturnValue(queue);
+
+      const response = await request(app).get('/queue');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ queue });
+    });
+  });
+
+  describe('DELETE /queue/:id', () => {
+    it('should cancel a queued message', async () => {
+      (agentService.cancelQueuedMessage as ReturnType<typeof vi.fn>).mockReturnValue(true);
+
+      const response = await request(app).delete('/queue/queue-1');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ ok: true });
+      expect(agentService.cancelQueuedMessage).toHaveBeenCalledWith('queue-1');
+    });
+
+    it('should return 404 for unknown queued message', async () => {
+      (agentService.cancelQueuedMessage as ReturnType<typeof vi.fn>).mockReturnValue(false);
+
+      const response = await request(app).delete('/queue/unknown');
+
+      expect(response.status).toBe(404);
+      expect(response.body).toHaveProperty('title', 'Queued message not found');
+    });
+  });
+});
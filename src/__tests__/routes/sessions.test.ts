@@ -0,0 +1,189 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import request from 'supertest';
+import { existsSync } from 'fs';
+import { mkdtemp, mkdir, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createServer } from '../../server.js';
+import { agentService } from '../../services/agent.js';
+import { sessionManager } from '../../services/session-manager.js';
+
+// Mock services
+vi.mock('../../services/agent.js', () => {
+  class AgentService {
+    getStatus = vi.fn().mockReturnValue('stable');
+    isResumed = vi.fn().mockReturnValue(false);
+    getSdkSessionId = vi.fn().mockReturnValue(null);
+    getSessionUsage = vi.fn();
+    getModel = vi.fn();
+    getPermissionMode = vi.fn();
+    getMessages = vi.fn().mockReturnValue([]);
+    getActiveToolExecutions = vi.fn().mockReturnValue([]);
+    initialize = vi.fn().mockResolvedValue(undefined);
+    cleanup = vi.fn().mockResolvedValue(undefined);
+  }
+
+  return {
+    AgentService,
+    agentService: {
+      getStatus: vi.fn(),
+      isResumed: vi.fn().mockReturnValue(false),
+      getSdkSessionId: vi.fn().mockReturnValue(null),
+      getSessionUsage: vi.fn(),
+      getModel: vi.fn(),
+      getPermissionMode: vi.fn(),
+      getMessages: vi.fn(),
+      getActiveToolExecutions: vi.fn(),
+      initialize: vi.fn(),
+      cleanup: vi.fn(),
+    },
+  };
+});
+vi.mock('../../services/session.js', () => {
+  class SessionService {
+    subscribe = vi.fn();
+    unsubscribe = vi.fn();
+    sendInitialState = vi.fn();
+    closeAll = vi.fn();
+  }
+
+  return {
+    SessionService,
+    sessionService: {
+      subscribe: vi.fn(),
+      unsubscribe: vi.fn(),
+      broadcastMessageUpdate: vi.fn(),
+      broadcastStatusChange: vi.fn(),
+      sendInitialState: vi.fn(),
+      getSubscriberCount: vi.fn(),
+      closeAll: vi.fn(),
+    },
+  };
+});
+
+describe('/sessions', () => {
+  const app = createServer();
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    await sessionManager.cleanup();
+    (agentService.getStatus as ReturnType<typeof vi.fn>).mockReturnValue('stable');
+  });
+
+  describe('GET /sessions', () => {
+    it('should list the default session', async () => {
+      const response = await request(app).get('/sessions');
+
+      expect(response.status).toBe(200);
+      expect(response.body.sessions).toHaveLength(1);
+      expect(response.body.sessions[0]).toMatchObject({
+        id: 'default',
+        status: 'stable',
+      });
+    });
+  });
+
+  describe('POST /sessions', () => {
+    it('should create a new session', async () => {
+      const response = await request(app).post('/sessions').send({});
+
+      expect(response.status).toBe(201);
+      expect(response.body.id).toEqual(expect.any(String));
+      expect(response.body.id).not.toBe('default');
+      expect(response.body.status).toBe('stable');
+
+      const list = await request(app).get('/sessions');
+      expect(list.body.sessions).toHaveLength(2);
+    });
+
+    it('should reject a working directory that does not exist', async () => {
+      const response = await request(app)
+        .post('/sessions')
+        .send({ working_directory: '/non/existent/directory' });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toHaveProperty('title', 'Invalid working directory');
+    });
+
+    it('should reject a relative working directory', async () => {
+      const response = await request(app)
+        .post('/sessions')
+        .send({ working_directory: 'relative/path' });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('DELETE /sessions/:id', () => {
+    it('should delete an existing session', async () => {
+      const created = await request(app).post('/sessions').send({});
+
+      const response = await request(app).delete(`/sessions/${created.body.id}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ ok: true });
+
+      const list = await request(app).get('/sessions');
+      expect(list.body.sessions).toHaveLength(1);
+    });
+
+    it('should remove the session data directory', async () => {
+      const workingDirectory = await mkdtemp(join(tmpdir(), 'sessions-test-'));
+      try {
+        const created = await request(app).post('/sessions').send({ working_directory: workingDirectory });
+        const dataDir = join(workingDirectory, '.claude-agentapi', created.body.id);
+        await mkdir(dataDir, { recursive: true });
+        await writeFile(join(dataDir, 'messages.jsonl'), '{}\n');
+
+        const response = await request(app).delete(`/sessions/${created.body.id}`);
+
+        expect(response.status).toBe(200);
+        expect(existsSync(dataDir)).toBe(false);
+        expect(existsSync(join(workingDirectory, '.claude-agentapi'))).toBe(true);
+      } finally {
+        await rm(workingDirectory, { recursive: true, force: true });
+      }
+    });
+
+    it('should return 404 for unknown session', async () => {
+      const response = await request(app).delete('/sessions/unknown');
+
+      expect(response.status).toBe(404);
+      expect(response.body).toHaveProperty('title', 'Session not found');
+    });
+
+    it('should refuse to delete the default session', async () => {
+      const response = await request(app).delete('/sessions/default');
+
+      expect(response.status).toBe(409);
+    });
+  });
+
+  describe('session-scoped routes', () => {
+    it('should route requests to the session agent', async () => {
+      const created = await request(app).post('/sessions').send({});
+      const session = sessionManager.getSession(created.body.id)!;
+      (session.agent.getStatus as ReturnType<typeof vi.fn>).mockReturnValue('running');
+
+      const response = await request(app).get(`/sessions/${created.body.id}/status`);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ agent_type: 'claude', status: 'running', resumed: false });
+      expect(agentService.getStatus).not.toHaveBeenCalled();
+    });
+
+    it('should map /sessions/default to the default agent', async () => {
+      const response = await request(app).get('/sessions/default/status');
+
+      expect(response.status).toBe(200);
+      expect(agentService.getStatus).toHaveBeenCalledOnce();
+    });
+
+    it('should return 404 for routes on an unknown session', async () => {
+      const response = await request(app).get('/sessions/unknown/status');
+
+      expect(response.status).toBe(404);
+      expect(response.body).toHaveProperty('title', 'Session not found');
+    });
+  });
+});
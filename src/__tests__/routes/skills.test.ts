@@ -0,0 +1,171 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import request from 'supertest';
+import { createServer } from '../../server.js';
+import { agentService } from '../../services/agent.js';
+
+// Mock services
+vi.mock('../../services/agent.js', () => ({
+  agentService: {
+    getStatus: vi.fn(),
+    listSkills: vi.fn(),
+    getSkill: vi.fn(),
+    isSkillApproved: vi.fn(),
+    setSkillEnabled: vi.fn(),
+    initialize: vi.fn(),
+    cleanup: vi.fn(),
+  },
+}));
+vi.mock('../../services/session.js', () => ({
+  sessionService: {
+    subscribe: vi.fn(),
+    unsubscribe: vi.fn(),
+    broadcastMessageUpdate: vi.fn(),
+    broadcastStatusChange: vi.fn(),
+    sendInitialState: vi.fn(),
+    getSubscriberCount: vi.fn(),
+  },
+}));
+
+const pdfSkill = {
+  name: 'pdf',
+  description: 'Extract text and tables from PDF files',
+  source: 'project',
+  path: '/repo/.claude/skills/pdf',
+  files: ['scripts/extract.py'],
+  enabled: true,
+};
+
+describe('GET /skills', () => {
+  const app = createServer();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should list the skills with their enabled state', async () => {
+    (agentService.listSkills as ReturnType<typeof vi.fn>).mockResolvedValue([pdfSkill]);
+
+    const response = await request(app).get('/skills');
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ skills: [pdfSkill] });
+  });
+
+  it('should handle errors', async () => {
+    (agentService.listSkills as ReturnType<typeof vi.fn>).mockRejectedValue(new Error('Agent not initialized'));
+
+    const response = await request(app).get('/skills');
+
+    expect(response.status).toBe(500);
+    expect(response.body).toHaveProperty('detail', 'Agent not initialized');
+  });
+});
+
+describe('PUT /skills/:name', () => {
+  const app = createServer();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (agentService.getSkill as ReturnType<typeof vi.fn>).mockResolvedValue(pdfSkill);
+    (agentService.isSkillApproved as ReturnType<typeof vi.fn>).mockReturnValue(true);
+  });
+
+  it('should disable a skill for the session', async () => {
+    (agentService.setSkillEnabled as ReturnType<typeof vi.fn>).mockResolvedValue({ ...pdfSkill, enabled: false });
+
+    const response = await request(app)
+      .put('/skills/pdf')
+      .send({ enabled: false });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({ name: 'pdf', enabled: false });
+    expect(agentService.setSkillEnabled).toHaveBeenCalledWith('pdf', false);
+  });
+
+  it('should accept plugin-qualified names', async () => {
+    (agentService.setSkillEnabled as ReturnType<typeof vi.fn>).mockResolvedValue({ ...pdfSkill, name: 'docs:pdf' });
+
+    const response = await request(app)
+      .put('/skills/docs:pdf')
+      .send({ enabled: true });
+
+    expect(response.status).toBe(200);
+    expect(agentService.getSkill).toHaveBeenCalledWith('docs:pdf');
+    expect(agentService.setSkillEnabled).toHaveBeenCalledWith('docs:pdf', true);
+  });
+
+  it('should return 404 for unknown skills', async () => {
+    (agentService.getSkill as ReturnType<typeof vi.fn>).mockResolvedValue(null);
+
+    const response = await request(app)
+      .put('/skills/unknown')
+      .send({ enabled: true });
+
+    expect(response.status).toBe(404);
+    expect(response.body).toHaveProperty('title', 'Skill not found');
+    expect(agentService.setSkillEnabled).not.toHaveBeenCalled();
+  });
+
+  it('should reject a request without enabled', async () => {
+    const response = await request(app)
+      .put('/skills/pdf')
+      .send({ enabled: 'yes' });
+
+    expect(response.status).toBe(400);
+    expect(response.body).toHaveProperty('title', 'Invalid request');
+    expect(agentService.setSkillEnabled).not.toHaveBeenCalled();
+  });
+
+  describe('with authentication', () => {
+    const authApp = createServer({
+      auth: {
+        tokens: [
+          { name: 'writer', token: 'write-token', scopes: ['write'] },
+          { name: 'admin', token: 'admin-token', scopes: ['admin'] },
+        ],
+        publicHealth: true,
+      },
+    });
+
+    it('should require the admin scope to enable a skill outside enabledSkills', async () => {
+      (agentService.isSkillApproved as ReturnType<typeof vi.fn>).mockReturnValue(false);
+      (agentService.setSkillEnabled as ReturnType<typeof vi.fn>).mockResolvedValue(pdfSkill);
+
+      const writer = await request(authApp)
+        .put('/skills/pdf')
+        .set('Authorization', 'Bearer write-token')
+        .send({ enabled: true });
+
+      expect(writer.status).toBe(403);
+      expect(writer.body).toHaveProperty('detail', "This request requires the 'admin' scope.");
+      expect(agentService.isSkillApproved).toHaveBeenCalledWith('pdf');
+      expect(agentService.setSkillEnabled).not.toHaveBeenCalled();
+
+      const admin = await request(authApp)
+        .put('/skills/pdf')
+        .set('Authorization', 'Bearer admin-token')
+        .send({ enabled: true });
+
+      expect(admin.status).toBe(200);
+      expect(agentService.setSkillEnabled).toHaveBeenCalledWith('pdf', true);
+    });
+
+    it('should let writers enable approved skills and disable any skill', async () => {
+      (agentService.setSkillEnabled as ReturnType<typeof vi.fn>).mockResolvedValue(pdfSkill);
+
+      const approved = await request(authApp)
+        .put('/skills/pdf')
+        .set('Authorization', 'Bearer write-token')
+        .send({ enabled: true });
+      expect(approved.status).toBe(200);
+
+      (agentService.isSkillApproved as ReturnType<typeof vi.fn>).mockReturnValue(false);
+      const disable = await request(authApp)
+        .put('/skills/pdf')
+        .set('Authorization', 'Bearer write-token')
+        .send({ enabled: false });
+      expect(disable.status).toBe(200);
+      expect(agentService.setSkillEnabled).toHaveBeenLastCalledWith('pdf', false);
+    });
+  });
+});
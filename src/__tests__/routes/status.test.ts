@@ -7,6 +7,11 @@ import { agentService } from '../../services/agent.js';
 vi.mock('../../services/agent.js', () => ({
   agentService: {
     getStatus: vi.fn(),
+    isResumed: vi.fn().mockReturnValue(false),
+    getSdkSessionId: vi.fn().mockReturnValue(null),
+    getSessionUsage: vi.fn(),
+    getModel: vi.fn(),
+    getPermissionMode: vi.fn(),
     getMessages: vi.fn(),
     sendMessage: vi.fn(),
     initialize: vi.fn(),
@@ -43,6 +48,7 @@ describe('GET /status', () => {
     expect(response.body).toEqual({
       agent_type: 'claude',
       status: 'stable',
+      resumed: false,
     });
   });
 
@@ -55,9 +61,65 @@ describe('GET /status', () => {
     expect(response.body).toEqual({
       agent_type: 'claude',
       status: 'running',
+      resumed: false,
     });
   });
 
+  it('should report resumed SDK session', async () => {
+    (agentService.getStatus as ReturnType<typeof vi.fn>).mockReturnValue('stable');
+    (agentService.isResumed as ReturnType<typeof vi.fn>).mockReturnValueOnce(true);
+    (agentService.getSdkSessionId as ReturnType<typeof vi.fn>).mockReturnValueOnce('sdk-session-123');
+
+    const response = await request(app).get('/status');
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({
+      agent_type: 'claude',
+      status: 'stable',
+      resumed: true,
+      session_id: 'sdk-session-123',
+    });
+  });
+
+  it('should include session usage', async () => {
+    const usage = {
+      turns: 1,
+      cost_usd: 0.01,
+      duration_ms: 1200,
+      duration_api_ms: 900,
+      num_turns: 2,
+      tokens: { input_tokens: 100, output_tokens: 50, cache_read_input_tokens: 0, cache_creation_input_tokens: 0 },
+      models: {},
+    };
+    (agentService.getStatus as ReturnType<typeof vi.fn>).mockReturnValue('stable');
+    (agentService.getSessionUsage as ReturnType<typeof vi.fn>).mockReturnValueOnce(usage);
+
+    const response = await request(app).get('/status');
+
+    expect(response.status).toBe(200);
+    expect(response.body.usage).toEqual(usage);
+  });
+
+  it('should include the active model', async () => {
+    (agentService.getStatus as ReturnType<typeof vi.fn>).mockReturnValue('stable');
+    (agentService.getModel as ReturnType<typeof vi.fn>).mockReturnValueOnce('opus');
+
+    const response = await request(app).get('/status');
+
+    expect(response.status).toBe(200);
+    expect(response.body.model).toBe('opus');
+  });
+
+  it('should include the permission mode', async () => {
+    (agentService.getStatus as ReturnType<typeof vi.fn>).mockReturnValue('stable');
+    (agentService.getPermissionMode as ReturnType<typeof vi.fn>).mockReturnValueOnce('plan');
+
+    const response = await request(app).get('/status');
+
+    expect(response.status).toBe(200);
+    expect(response.body.permission_mode).toBe('plan');
+  });
+
   it('should call agentService.getStatus', async () => {
     (agentService.getStatus as ReturnType<typeof vi.fn>).mockReturnValue('stable');
 
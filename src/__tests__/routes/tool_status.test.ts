@@ -100,6 +100,25 @@ describe('GET /tool_status', () => {
     expect(hasToolResult).toBe(false);
   });
 
+  it('should nest subagent tool calls under the Task call that spawned them', async () => {
+    (agentService.getActiveToolExecutions as ReturnType<typeof vi.fn>).mockReturnValue([
+      { id: 2, role: 'agent', content: '{}', time: '2024-01-01T00:00:02.000Z', toolUseId: 'task1', toolName: 'Task' },
+      { id: 3, role: 'agent', content: '{}', time: '2024-01-01T00:00:03.000Z', toolUseId: 'bash1', toolName: 'Bash' },
+      { id: 5, role: 'agent', content: '{}', time: '2024-01-01T00:00:05.000Z', toolUseId: 'grep1', toolName: 'Grep', threadId: 'task1', subagent: 'Explore' },
+      // Subagent call whose Task is no longer active stays at the top level
+      { id: 6, role: 'agent', content: '{}', time: '2024-01-01T00:00:06.000Z', toolUseId: 'read1', toolName: 'Read', threadId: 'gone' },
+    ] satisfies Message[]);
+
+    const response = await request(app).get('/tool_status');
+
+    expect(response.status).toBe(200);
+    expect(response.body.messages.map((m: Message) => m.toolUseId)).toEqual(['task1', 'bash1', 'read1']);
+    expect(response.body.messages[0].children).toEqual([
+      expect.objectContaining({ toolUseId: 'grep1', subagent: 'Explore' }),
+    ]);
+    expect(response.body.messages[1]).not.toHaveProperty('children');
+  });
+
   it('should call agentService.getActiveToolExecutions', async () => {
     (agentService.getActiveToolExecutions as ReturnType<typeof vi.fn>).mockReturnValue([]);
 
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach, afterAll } from 'vitest';
+import request from 'supertest';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { agentService } from '../../services/agent.js';
+
+const workingDirectory = mkdtempSync(join(tmpdir(), 'upload-route-test-'));
+process.env.CLAUDE_WORKING_DIRECTORY = workingDirectory;
+
+// Mock services
+vi.mock('../../services/agent.js', () => ({
+  agentService: {
+    getStatus: vi.fn(),
+    getUploadSettings: vi.fn(),
+    initialize: vi.fn(),
+    cleanup: vi.fn(),
+  },
+}));
+vi.mock('../../services/session.js', () => ({
+  sessionService: {
+    subscribe: vi.fn(),
+    unsubscribe: vi.fn(),
+    broadcastMessageUpdate: vi.fn(),
+    broadcastStatusChange: vi.fn(),
+    sendInitialState: vi.fn(),
+    getSubscriberCount: vi.fn(),
+  },
+}));
+
+const { createServer } = await import('../../server.js');
+
+describe('POST /upload', () => {
+  const app = createServer();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (agentService.getUploadSettings as ReturnType<typeof vi.fn>).mockReturnValue({
+      root: join(workingDirectory, 'uploads'),
+      maxFileSize: 16,
+    });
+  });
+
+  afterAll(() => {
+    rmSync(workingDirectory, { recursive: true, force: true });
+  });
+
+  it('should store the file in the uploads folder and return its path', async () => {
+    const response = await request(app)
+      .post('/upload')
+      .attach('file', Buffer.from('hello'), 'notes.txt');
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ ok: true, filePath: join(workingDirectory, 'uploads', 'notes.txt') });
+    expect(readFileSync(response.body.filePath, 'utf-8')).toBe('hello');
+  });
+
+  it('should sanitise the filename and honour uploadPath', async () => {
+    const response = await request(app)
+      .post('/upload')
+      .field('uploadPath', 'images')
+      .attach('file', Buffer.from('png'), '../../evil name.png');
+
+    expect(response.status).toBe(200);
+    expect(response.body.filePath).toBe(join(workingDirectory, 'uploads', 'images', 'evil_name.png'));
+  });
+
+  it('should reject uploadPath outside of the uploads folder', async () => {
+    const response = await request(app)
+      .post('/upload')
+      .field('uploadPath', '../..')
+      .attach('file', Buffer.from('x'), 'x.txt');
+
+    expect(response.status).toBe(400);
+    expect(response.body.title).toBe('Invalid request');
+  });
+
+  it('should return 413 when the file exceeds the size limit', async () => {
+    const response = await request(app)
+      .post('/upload')
+      .attach('file', Buffer.alloc(32), 'big.bin');
+
+    expect(response.status).toBe(413);
+    expect(response.body).toMatchObject({
+      title: 'Payload too large',
+      status: 413,
+      detail: 'File exceeds the maximum upload size of 16 bytes',
+    });
+  });
+
+  it('should use the uploads folder and size limit of the session agent', async () => {
+    (agentService.getUploadSettings as ReturnType<typeof vi.fn>).mockReturnValue({
+      root: join(workingDirectory, 'shared'),
+      maxFileSize: 4,
+    });
+
+    const stored = await request(app)
+      .post('/upload')
+      .attach('file', Buffer.from('tiny'), 'tiny.txt');
+    expect(stored.body.filePath).toBe(join(workingDirectory, 'shared', 'tiny.txt'));
+
+    const tooLarge = await request(app)
+      .post('/upload')
+      .attach('file', Buffer.from('large'), 'large.txt');
+    expect(tooLarge.status).toBe(413);
+  });
+
+  it('should return 400 when no file is sent', async () => {
+    const response = await request(app)
+      .post('/upload')
+      .field('uploadPath', 'images');
+
+    expect(response.status).toBe(400);
+    expect(response.body.detail).toBe('Missing multipart file field: file');
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import request from 'supertest';
+import { createServer } from '../../server.js';
+import { agentService } from '../../services/agent.js';
+
+// Mock services
+vi.mock('../../services/agent.js', () => ({
+  agentService: {
+    getStatus: vi.fn(),
+    getSessionUsage: vi.fn(),
+    getTurnUsage: vi.fn(),
+    initialize: vi.fn(),
+    cleanup: vi.fn(),
+  },
+}));
+vi.mock('../../services/session.js', () => ({
+  sessionService: {
+    subscribe: vi.fn(),
+    unsubscribe: vi.fn(),
+    broadcastMessageUpdate: vi.fn(),
+    broadcastStatusChange: vi.fn(),
+    sendInitialState: vi.fn(),
+    getSubscriberCount: vi.fn(),
+  },
+}));
+
+describe('GET /usage', () => {
+  const app = createServer();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should return session totals and per-turn usage', async () => {
+    const tokens = { input_tokens: 120, output_tokens: 40, cache_read_input_tokens: 1000, cache_creation_input_tokens: 200 };
+    const models = {
+      'claude-sonnet-4-5': { ...tokens, web_search_requests: 0, cost_usd: 0.02 },
+    };
+    const session = {
+      turns: 1,
+      cost_usd: 0.02,
+      duration_ms: 3000,
+      duration_api_ms: 2500,
+      num_turns: 3,
+      tokens,
+      models,
+    };
+    const turns = [
+      {
+        turn: 1,
+        time: '2024-01-01T00:00:00.000Z',
+        subtype: 'success',
+        cost_usd: 0.02,
+        duration_ms: 3000,
+        duration_api_ms: 2500,
+        num_turns: 3,
+        tokens,
+        models,
+      },
+    ];
+    (agentService.getSessionUsage as ReturnType<typeof vi.fn>).mockReturnValue(session);
+    (agentService.getTurnUsage as ReturnType<typeof vi.fn>).mockReturnValue(turns);
+
+    const response = await request(app).get('/usage');
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ session, turns });
+  });
+});
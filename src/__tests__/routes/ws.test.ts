@@ -0,0 +1,219 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import { WebSocket } from 'ws';
+import { createServer } from '../../server.js';
+import { attachWebSocketServer } from '../../routes/ws.js';
+import { agentService } from '../../services/agent.js';
+import { sessionService } from '../../services/session.js';
+
+// Mock the agent service (the real SessionService delivers events)
+vi.mock('../../services/agent.js', () => ({
+  agentService: {
+    getStatus: vi.fn(),
+    getMessages: vi.fn().mockReturnValue([]),
+    sendMessage: vi.fn(),
+    sendRawMessage: vi.fn(),
+    isQueueEnabled: vi.fn().mockReturnValue(false),
+    approvePlan: vi.fn(),
+    stopAgent: vi.fn(),
+    initialize: vi.fn(),
+    cleanup: vi.fn(),
+  },
+}));
+
+vi.mock('../../utils/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+/**
+ * Collect JSON frames received on a socket
+ */
+function frames(ws: WebSocket) {
+  const received: Array<Record<string, unknown>> = [];
+  const waiters: Array<() => void> = [];
+  ws.on('message', (data) => {
+    received.push(JSON.parse(data.toString()));
+    waiters.splice(0).forEach(resolve => resolve());
+  });
+
+  return {
+    received,
+    async next(predicate: (frame: Record<string, unknown>) => boolean) {
+      for (;;) {
+        const found = received.find(predicate);
+        if (found) return found;
+        await new Promise<void>(resolve => waiters.push(resolve));
+      }
+    },
+  };
+}
+
+describe('WebSocket /ws', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    server = createServer().listen(0);
+    attachWebSocketServer(server);
+    await new Promise<void>(resolve => server.once('listening', () => resolve()));
+    baseUrl = `ws://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    sessionService.closeAll();
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (agentService.getStatus as ReturnType<typeof vi.fn>).mockReturnValue('stable');
+  });
+
+  async function connect(path = '/ws') {
+    const ws = new WebSocket(`${baseUrl}${path}`);
+    const inbox = frames(ws);
+    await new Promise<void>((resolve, reject) => {
+      ws.once('open', () => resolve());
+      ws.once('error', reject);
+    });
+    return { ws, inbox };
+  }
+
+  it('should send init on connect and push broadcast events', async () => {
+    const { ws, inbox } = await connect();
+
+    const init = await inbox.next(frame => frame.event === 'init');
+    expect(init).toMatchObject({ type: 'event', data: { messages: [], status: 'stable' } });
+
+    sessionService.broadcastStatusChange('running');
+    const statusChange = await inbox.next(frame => frame.event === 'status_change');
+    expect(statusChange).toMatchObject({ type: 'event', data: { status: 'running' }, event_id: expect.stringMatching(/^.+-\d+$/) });
+
+    ws.close();
+  });
+
+  it('should correlate message responses by id', async () => {
+    const { ws, inbox } = await connect();
+
+    ws.send(JSON.stringify({ id: 1, type: 'message', content: 'Hello' }));
+
+    const response = await inbox.next(frame => frame.type === 'response' && frame.id === 1);
+    expect(response).toEqual({ type: 'response', id: 1, status: 200, body: { ok: true } });
+    expect(agentService.sendMessage).toHaveBeenCalledWith('Hello', [], undefined);
+
+    ws.close();
+  });
+
+  it('should handle action frames with the same rules as POST /action', async () => {
+    const { ws, inbox } = await connect();
+
+    ws.send(JSON.stringify({ id: 'plan-1', type: 'approve_plan', approved: true }));
+    ws.send(JSON.stringify({ id: 'stop-1', type: 'stop_agent' }));
+
+    const plan = await inbox.next(frame => frame.id === 'plan-1');
+    expect(plan).toMatchObject({ status: 409, body: { title: 'No active plan' } });
+
+    const stop = await inbox.next(frame => frame.id === 'stop-1');
+    expect(stop).toMatchObject({ status: 200, body: { ok: true } });
+    expect(agentService.stopAgent).toHaveBeenCalled();
+
+    ws.close();
+  });
+
+  it('should reject invalid frames', async () => {
+    const { ws, inbox } = await connect();
+
+    ws.send('not json');
+    ws.send(JSON.stringify({ id: 2, type: 'unknown_action' }));
+
+    const invalidJson = await inbox.next(frame => frame.type === 'response' && frame.id === undefined);
+    expect(invalidJson).toMatchObject({ status: 400, body: { title: 'Invalid request' } });
+
+    const unknown = await inbox.next(frame => frame.id === 2);
+    expect(unknown).toMatchObject({ status: 400, body: { title: 'Invalid request' } });
+
+    ws.close();
+  });
+
+  it('should refuse upgrades for unknown sessions', async () => {
+    const ws = new WebSocket(`${baseUrl}/sessions/missing/ws`);
+
+    const status = await new Promise<number | undefined>((resolve) => {
+      ws.once('unexpected-response', (_req, res) => resolve(res.statusCode));
+      ws.once('error', () => resolve(undefined));
+    });
+
+    expect(status).toBe(404);
+  });
+
+  it('should refuse upgrades with a malformed session id', async () => {
+    const ws = new WebSocket(`${baseUrl}/sessions/%E0%A4%A/ws`);
+
+    const status = await new Promise<number | undefined>((resolve) => {
+      ws.once('unexpected-response', (_req, res) => resolve(res.statusCode));
+      ws.once('error', () => resolve(undefined));
+    });
+
+    expect(status).toBe(400);
+    expect(server.listening).toBe(true);
+  });
+});
+
+describe('WebSocket /ws authentication', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    const auth = {
+      tokens: [{ name: 'reader', token: 'read-token', scopes: ['read' as const] }],
+      publicHealth: true,
+    };
+    server = createServer({ auth }).listen(0);
+    attachWebSocketServer(server, { auth });
+    await new Promise<void>(resolve => server.once('listening', () => resolve()));
+    baseUrl = `ws://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    sessionService.closeAll();
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should refuse upgrades without a token', async () => {
+    const ws = new WebSocket(`${baseUrl}/ws`);
+
+    const status = await new Promise<number | undefined>((resolve) => {
+      ws.once('unexpected-response', (_req, res) => resolve(res.statusCode));
+      ws.once('error', () => resolve(undefined));
+    });
+
+    expect(status).toBe(401);
+  });
+
+  it('should reject frames that need the write scope', async () => {
+    const ws = new WebSocket(`${baseUrl}/ws?access_token=read-token`);
+    const inbox = frames(ws);
+    await new Promise<void>((resolve, reject) => {
+      ws.once('open', () => resolve());
+      ws.once('error', reject);
+    });
+
+    ws.send(JSON.stringify({ id: 1, type: 'stop_agent' }));
+
+    const response = await inbox.next(frame => frame.id === 1);
+    expect(response).toMatchObject({ status: 403, body: { title: 'Forbidden' } });
+    expect(agentService.stopAgent).not.toHaveBeenCalled();
+
+    ws.close();
+  });
+});
@@ -1,4 +1,7 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { access, mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
 import type { Message } from '../../types/api.js';
 
 // Mock the Claude Agent SDK
@@ -11,6 +14,13 @@ vi.mock('../../services/session.js', () => ({
   sessionService: {
     broadcastMessageUpdate: vi.fn(),
     broadcastStatusChange: vi.fn(),
+    broadcastQueueUpdate: vi.fn(),
+    broadcastActionUpdate: vi.fn(),
+    broadcastUsageUpdate: vi.fn(),
+    broadcastMessageDelta: vi.fn(),
+    broadcastModelChange: vi.fn(),
+    broadcastPermissionModeChange: vi.fn(),
+    broadcastInit: vi.fn(),
   },
 }));
 
@@ -32,6 +42,8 @@ vi.mock('../../utils/config.js', () => ({
 
 // Import AgentService after mocking
 const { AgentService } = await import('../../services/agent.js');
+const { resolveConfig } = await import('../../utils/config.js');
+const { query } = await import('@anthropic-ai/claude-agent-sdk');
 
 describe('AgentService', () => {
   describe('getMessagesWithPagination', () => {
@@ -370,5 +382,935 @@ describe('AgentService', () => {
         expect(result.hasMore).toBe(false);
       });
     });
+    describe('Filters', () => {
+      beforeEach(() => {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        (service as any).messageIndex.rebuild((service as any).messages);
+      });
+
+      it('should paginate over matching messages only', () => {
+        const result = service.getMessagesWithPagination({ filter: { role: ['assistant'] }, limit: 3 });
+
+        expect(result.messages.map(m => m.id)).toEqual([15, 17, 19]);
+        expect(result.total).toBe(10);
+        expect(result.hasMore).toBe(true);
+      });
+
+      it('should combine filters with a time range', () => {
+        const result = service.getMessagesWithPagination({
+          filter: {
+            role: ['user'],
+            since: new Date(Date.UTC(2024, 0, 1, 0, 0, 4)),
+            until: new Date(Date.UTC(2024, 0, 1, 0, 0, 8)),
+          },
+        });
+
+        expect(result.messages.map(m => m.id)).toEqual([4, 6, 8]);
+        expect(result.total).toBe(3);
+      });
+
+      it('should accept cursors that do not match the filter', () => {
+        const after = service.getMessagesWithPagination({ filter: { role: ['user'] }, after: 9, limit: 2 });
+        expect(after.messages.map(m => m.id)).toEqual([10, 12]);
+        expect(after.hasMore).toBe(true);
+
+        const before = service.getMessagesWithPagination({ filter: { role: ['user'] }, before: 5 });
+        expect(before.messages.map(m => m.id)).toEqual([0, 2, 4]);
+        expect(before.hasMore).toBe(false);
+      });
+
+      it('should search content case-insensitively', () => {
+        const result = service.getMessagesWithPagination({ filter: { q: 'message 1' } });
+
+        expect(result.messages.map(m => m.id)).toEqual([1, 10, 11, 12, 13, 14, 15, 16, 17, 18, 19]);
+      });
+
+      it('should keep the index in sync with new messages', () => {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        (service as any).messageIdCounter = 20;
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        (service as any).addMessage('agent', JSON.stringify({ name: 'Bash', input: {} }), 'normal', { toolUseId: 'tu-1' });
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        (service as any).addMessage('tool_result', 'boom', 'normal', { parentToolUseId: 'tu-1', status: 'error' });
+
+        const result = service.getMessagesWithPagination({ filter: { tool: ['Bash'] } });
+
+        expect(result.messages.map(m => m.role)).toEqual(['agent', 'tool_result']);
+        expect(service.getMessagesWithPagination({ filter: { status: ['error'] } }).total).toBe(1);
+      });
+    });
+  });
+
+  describe('message history persistence', () => {
+    let tempDir: string;
+
+    beforeEach(async () => {
+      tempDir = await mkdtemp(join(tmpdir(), 'agent-store-test-'));
+      (resolveConfig as ReturnType<typeof vi.fn>).mockResolvedValue({
+        workingDirectory: tempDir,
+        permissionMode: 'default',
+        messageStore: 'jsonl',
+      });
+    });
+
+    afterEach(async () => {
+      (resolveConfig as ReturnType<typeof vi.fn>).mockResolvedValue({
+        workingDirectory: '/test',
+        permissionMode: 'default',
+      });
+      await rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should reload history and keep message IDs monotonic after restart', async () => {
+      const first = new AgentService();
+      await first.initialize();
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (first as any).addMessage('user', 'Hello');
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (first as any).addMessage('assistant', 'Hi there');
+      await first.cleanup();
+
+      const second = new AgentService();
+      await second.initialize();
+
+      expect(second.getMessages().map(m => m.content)).toEqual(['Hello', 'Hi there']);
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const next = (second as any).addMessage('user', 'Again') as Message;
+      expect(next.id).toBe(2);
+
+      await second.cleanup();
+    });
+
+    it('should not restore cleared messages after restart', async () => {
+      const first = new AgentService();
+      await first.initialize();
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (first as any).addMessage('user', 'Hello');
+      await first.clearConversation();
+      first.addSystemMessage('Conversation cleared', { name: 'clear', arguments: '' });
+      await first.cleanup();
+
+      const second = new AgentService();
+      await second.initialize();
+
+      expect(second.getMessages().map(m => m.content)).toEqual(['Conversation cleared']);
+      await second.cleanup();
+    });
+  });
+
+  describe('SDK session resume', () => {
+    let tempDir: string;
+
+    // Query that yields nothing until interrupted
+    function idleQuery() {
+      let finish: () => void = () => {};
+      const done = new Promise<IteratorResult<never>>(resolve => {
+        finish = () => resolve({ done: true, value: undefined });
+      });
+      return {
+        interrupt: vi.fn(async () => finish()),
+        [Symbol.asyncIterator]: () => ({ next: () => done }),
+      };
+    }
+
+    beforeEach(async () => {
+      tempDir = await mkdtemp(join(tmpdir(), 'agent-resume-test-'));
+      (query as ReturnType<typeof vi.fn>).mockClear();
+      (resolveConfig as ReturnType<typeof vi.fn>).mockResolvedValue({
+        workingDirectory: tempDir,
+        permissionMode: 'default',
+        resumeSession: true,
+      });
+    });
+
+    afterEach(async () => {
+      (resolveConfig as ReturnType<typeof vi.fn>).mockResolvedValue({
+        workingDirectory: '/test',
+        permissionMode: 'default',
+      });
+      await rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should start a new session when no session ID was persisted', async () => {
+      const service = new AgentService();
+      await service.initialize();
+
+      const options = (query as ReturnType<typeof vi.fn>).mock.calls[0][0].options;
+      expect(options.resume).toBeUndefined();
+      expect(service.isResumed()).toBe(false);
+
+      await service.cleanup();
+    });
+
+    it('should capture the SDK session ID and resume it after restart', async () => {
+      (query as ReturnType<typeof vi.fn>).mockImplementation(() => idleQuery());
+      const first = new AgentService();
+      await first.initialize();
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      await (first as any).processSDKMessage({ type: 'system', subtype: 'init', session_id: 'sdk-session-abc' });
+      expect(first.getSdkSessionId()).toBe('sdk-session-abc');
+      await first.cleanup();
+
+      const second = new AgentService();
+      await second.initialize();
+
+      const options = (query as ReturnType<typeof vi.fn>).mock.calls[1][0].options;
+      expect(options.resume).toBe('sdk-session-abc');
+      expect(second.isResumed()).toBe(true);
+
+      await second.cleanup();
+      (query as ReturnType<typeof vi.fn>).mockReset();
+    });
+
+    it('should start a new session when the persisted one cannot be resumed', async () => {
+      const stateFile = join(tempDir, '.claude-agentapi', 'default', 'session.json');
+      await mkdir(join(tempDir, '.claude-agentapi', 'default'), { recursive: true });
+      await writeFile(stateFile, JSON.stringify({ sdkSessionId: 'sdk-session-gone' }));
+      (query as ReturnType<typeof vi.fn>)
+        .mockImplementationOnce(() => ({
+          interrupt: vi.fn(),
+          [Symbol.asyncIterator]: () => ({
+            next: () => Promise.reject(new Error('No conversation found with session ID: sdk-session-gone')),
+          }),
+        }))
+        .mockImplementationOnce(() => idleQuery());
+
+      const service = new AgentService();
+      await service.initialize();
+      expect((query as ReturnType<typeof vi.fn>).mock.calls[0][0].options.resume).toBe('sdk-session-gone');
+
+      await vi.waitFor(() => expect(query).toHaveBeenCalledTimes(2));
+      const fresh = (query as ReturnType<typeof vi.fn>).mock.calls[1][0];
+      expect(fresh.options.resume).toBeUndefined();
+      expect(service.isResumed()).toBe(false);
+      expect(service.getSdkSessionId()).toBeNull();
+      await expect(access(stateFile)).rejects.toThrow();
+
+      // Messages reach the new query
+      await service.sendMessage('Hello');
+      const next = await fresh.prompt.next();
+      expect(next.value.message.content).toBe('Hello');
+
+      await service.cleanup();
+      (query as ReturnType<typeof vi.fn>).mockReset();
+    });
+  });
+
+  describe('message queue', () => {
+    let service: InstanceType<typeof AgentService>;
+    let sent: Array<{ message: { content: unknown } }>;
+
+    beforeEach(() => {
+      service = new AgentService();
+      sent = [];
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (service as any).inputStreamManager = { send: (msg: { message: { content: unknown } }) => sent.push(msg) };
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (service as any).status = 'running';
+    });
+
+    it('should report queue positions', () => {
+      const first = service.enqueueMessage('First');
+      const second = service.enqueueMessage('Second');
+
+      expect(first.position).toBe(1);
+      expect(second.position).toBe(2);
+      expect(service.getQueue().map(q => q.content)).toEqual(['First', 'Second']);
+    });
+
+    it('should deliver the next queued message when the turn finishes', async () => {
+      service.enqueueMessage('Queued');
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      await (service as any).processSDKMessage({ type: 'result', subtype: 'success' });
+
+      expect(sent).toHaveLength(1);
+      expect(sent[0].message.content).toBe('Queued');
+      expect(service.getQueue()).toHaveLength(0);
+      expect(service.getStatus()).toBe('running');
+    });
+
+    it('should cancel queued messages', () => {
+      const queued = service.enqueueMessage('Cancel me');
+
+      expect(service.cancelQueuedMessage(queued.id)).toBe(true);
+      expect(service.cancelQueuedMessage(queued.id)).toBe(false);
+      expect(service.getQueue()).toHaveLength(0);
+    });
+  });
+
+  describe('tool approval', () => {
+    let service: InstanceType<typeof AgentService>;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    let canUseTool: (toolName: string, input: unknown, options: any) => Promise<any>;
+
+    const toolOptions = (toolUseID: string) => ({ signal: new AbortController().signal, toolUseID });
+
+    beforeEach(async () => {
+      (query as ReturnType<typeof vi.fn>).mockClear();
+      service = new AgentService();
+      await service.initialize();
+      canUseTool = (query as ReturnType<typeof vi.fn>).mock.calls[0][0].options.canUseTool;
+    });
+
+    afterEach(async () => {
+      await service.cleanup();
+    });
+
+    it('should expose a pending approve_tool action until the user decides', async () => {
+      const decision = canUseTool('Bash', { command: 'rm -rf build' }, toolOptions('tool-1'));
+
+      expect(service.hasPendingToolApproval('tool-1')).toBe(true);
+      expect(service.getPendingActions()).toEqual([
+        {
+          type: 'approve_tool',
+          tool_use_id: 'tool-1',
+          content: { tool_name: 'Bash', input: { command: 'rm -rf build' } },
+        },
+      ]);
+
+      await service.approveTool({ tool_use_id: 'tool-1', decision: 'deny', message: 'Not in this repo' });
+
+      await expect(decision).resolves.toEqual({ behavior: 'deny', message: 'Not in this repo' });
+      expect(service.hasPendingToolApproval()).toBe(false);
+    });
+
+    it('should allow with edited input', async () => {
+      const decision = canUseTool('Bash', { command: 'rm -rf build' }, toolOptions('tool-2'));
+
+      await service.approveTool({ decision: 'allow', updated_input: { command: 'rm -rf build/tmp' } });
+
+      await expect(decision).resolves.toEqual({
+        behavior: 'allow',
+        updatedInput: { command: 'rm -rf build/tmp' },
+      });
+    });
+
+    it('should skip approval for tools always allowed by pattern', async () => {
+      const first = canUseTool('mcp__github__create_issue', { title: 'x' }, toolOptions('tool-3'));
+      await service.approveTool({ decision: 'allow', always_allow: true, pattern: 'mcp__github__*' });
+      await first;
+
+      await expect(
+        canUseTool('mcp__github__list_issues', {}, toolOptions('tool-4'))
+      ).resolves.toEqual({ behavior: 'allow', updatedInput: {} });
+      expect(service.hasPendingToolApproval()).toBe(false);
+
+      // Tools outside the pattern still require approval
+      void canUseTool('Write', { file_path: 'a.txt' }, toolOptions('tool-5'));
+      expect(service.hasPendingToolApproval('tool-5')).toBe(true);
+    });
+
+    it('should skip approval for commands matching an always allowed specifier', async () => {
+      const suggestions = [{ type: 'addRules', rules: [{ toolName: 'Bash' }], behavior: 'allow', destination: 'localSettings' }];
+      const first = canUseTool('Bash', { command: 'npm test' }, { ...toolOptions('tool-6'), suggestions });
+      await service.approveTool({ decision: 'allow', always_allow: true, pattern: 'Bash(npm test:*)' });
+
+      // Only the user's pattern is handed to the SDK, not its broader suggestion
+      await expect(first).resolves.toEqual({
+        behavior: 'allow',
+        updatedInput: { command: 'npm test' },
+        updatedPermissions: [{
+          type: 'addRules',
+          rules: [{ toolName: 'Bash', ruleContent: 'npm test:*' }],
+          behavior: 'allow',
+          destination: 'session',
+        }],
+      });
+
+      await expect(
+        canUseTool('Bash', { command: 'npm test -- --run' }, toolOptions('tool-7'))
+      ).resolves.toEqual({ behavior: 'allow', updatedInput: { command: 'npm test -- --run' } });
+      expect(service.hasPendingToolApproval()).toBe(false);
+
+      void canUseTool('Bash', { command: 'npm publish' }, toolOptions('tool-8'));
+      expect(service.hasPendingToolApproval('tool-8')).toBe(true);
+    });
+
+    it('should throw when no tool approval is pending', async () => {
+      await expect(service.approveTool({ decision: 'allow' })).rejects.toThrow('No pending tool approval');
+    });
+  });
+
+  describe('metrics', () => {
+    it('should record tool calls, lines of code and tokens from SDK messages', async () => {
+      const { metricsService } = await import('../../services/metrics.js');
+      metricsService.enable({ appVersion: 'test', terminalType: 'test' });
+
+      const service = new AgentService({ sessionId: 'metrics-session' });
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const feed = (msg: unknown) => (service as any).processSDKMessage(msg);
+
+      await feed({
+        type: 'assistant',
+        message: {
+          content: [{ type: 'tool_use', id: 'tool-edit', name: 'Edit', input: { file_path: 'a.ts', old_string: 'a', new_string: 'b\nc' } }],
+        },
+      });
+      await feed({
+        type: 'user',
+        message: { content: [{ type: 'tool_result', tool_use_id: 'tool-edit', content: 'ok' }] },
+      });
+      await feed({
+        type: 'result',
+        subtype: 'success',
+        duration_ms: 1500,
+        duration_api_ms: 1000,
+        num_turns: 1,
+        total_cost_usd: 0.01,
+        usage: { input_tokens: 10, output_tokens: 5, cache_read_input_tokens: 0, cache_creation_input_tokens: 0 },
+        modelUsage: {},
+      });
+
+      const output = metricsService.render();
+      expect(output).toMatch(/claude_code_tool_calls\{session_id="metrics-session",[^}]*tool_name="Edit",status="success"\} 1/);
+      expect(output).toMatch(/claude_code_lines_of_code_count\{session_id="metrics-session",[^}]*type="added"\} 2/);
+      expect(output).toMatch(/claude_code_token_usage\{session_id="metrics-session",[^}]*model="unknown",type="input"\} 10/);
+    });
+
+    it('should count code edits auto-approved by slash command allowed-tools', async () => {
+      const { metricsService } = await import('../../services/metrics.js');
+      metricsService.enable({ appVersion: 'test', terminalType: 'test' });
+      (query as ReturnType<typeof vi.fn>).mockClear();
+
+      const service = new AgentService({ sessionId: 'auto-edit-session' });
+      await service.initialize();
+      const canUseTool = (query as ReturnType<typeof vi.fn>).mock.calls[0][0].options.canUseTool;
+      await service.sendMessage('/fix', [], { name: 'fix', arguments: '', prompt: 'Fix it', allowedTools: ['Edit(src/*)'] });
+
+      await expect(
+        canUseTool('Edit', { file_path: 'src/app.ts', old_string: 'a', new_string: 'b' }, { signal: new AbortController().signal, toolUseID: 'tool-1' })
+      ).resolves.toMatchObject({ behavior: 'allow' });
+
+      expect(metricsService.render()).toMatch(
+        /claude_code_code_edit_tool_decision\{session_id="auto-edit-session",[^}]*tool="Edit",decision="accept",language="TypeScript"\} 1/
+      );
+      await service.cleanup();
+    });
+  });
+
+  describe('structured tool call fields', () => {
+    it('should record tool name, input and result metadata next to the legacy content', async () => {
+      const service = new AgentService();
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const feed = (msg: unknown) => (service as any).processSDKMessage(msg);
+
+      await feed({
+        type: 'assistant',
+        message: {
+          content: [
+            { type: 'tool_use', id: 'tool-bash', name: 'Bash', input: { command: 'ls' } },
+            { type: 'tool_use', id: 'tool-read', name: 'Read', input: { file_path: 'a.ts' } },
+          ],
+        },
+      });
+      await feed({
+        type: 'user',
+        message: {
+          content: [
+            { type: 'tool_result', tool_use_id: 'tool-bash', content: 'not found', is_error: true },
+            { type: 'tool_result', tool_use_id: 'tool-read', content: [{ type: 'text', text: 'line 1' }, { type: 'text', text: 'line 2' }] },
+          ],
+        },
+      });
+
+      const [bash, read, bashResult, readResult] = service.getMessages();
+
+      expect(bash).toMatchObject({ role: 'agent', toolUseId: 'tool-bash', toolName: 'Bash', toolInput: { command: 'ls' } });
+      expect(JSON.parse(bash.content)).toEqual({ type: 'tool_use', name: 'Bash', id: 'tool-bash', input: { command: 'ls' } });
+      expect(read.toolName).toBe('Read');
+
+      expect(bashResult).toMatchObject({
+        role: 'tool_result',
+        parentToolUseId: 'tool-bash',
+        toolName: 'Bash',
+        status: 'error',
+        isError: true,
+        contentType: 'text',
+        content: 'not found',
+      });
+      expect(readResult).toMatchObject({ toolName: 'Read', isError: false, contentType: 'blocks', content: 'line 1\nline 2' });
+    });
+  });
+
+  describe('subagent threads', () => {
+    it('should tag subagent messages with the Task call that spawned them', async () => {
+      const service = new AgentService();
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const feed = (msg: unknown) => (service as any).processSDKMessage(msg);
+
+      await feed({
+        type: 'assistant',
+        parent_tool_use_id: null,
+        message: { content: [{ type: 'tool_use', id: 'tool-task', name: 'Task', input: { description: 'Find usages', prompt: '...', subagent_type: 'Explore' } }] },
+      });
+      await feed({
+        type: 'assistant',
+        parent_tool_use_id: 'tool-task',
+        message: { content: [{ type: 'text', text: 'Searching' }, { type: 'tool_use', id: 'tool-grep', name: 'Grep', input: { pattern: 'foo' } }] },
+      });
+
+      expect(service.getActiveToolExecutions().map(m => m.toolUseId)).toEqual(['tool-task', 'tool-grep']);
+
+      await feed({
+        type: 'user',
+        parent_tool_use_id: 'tool-task',
+        message: { content: [{ type: 'tool_result', tool_use_id: 'tool-grep', content: 'a.ts' }] },
+      });
+      await feed({
+        type: 'user',
+        parent_tool_use_id: null,
+        message: { content: [{ type: 'tool_result', tool_use_id: 'tool-task', content: 'Found in a.ts' }] },
+      });
+
+      const [task, text, grep, grepResult, taskResult] = service.getMessages();
+      expect(task.threadId).toBeUndefined();
+      expect(text).toMatchObject({ role: 'assistant', threadId: 'tool-task', subagent: 'Explore' });
+      expect(grep).toMatchObject({ toolName: 'Grep', threadId: 'tool-task', subagent: 'Explore' });
+      expect(grepResult).toMatchObject({ role: 'tool_result', threadId: 'tool-task', subagent: 'Explore' });
+      expect(taskResult.threadId).toBeUndefined();
+      expect(service.getActiveToolExecutions()).toEqual([]);
+
+      const thread = service.getMessagesWithPagination({ filter: { thread: 'tool-task' } });
+      expect(thread.messages.map(m => m.id)).toEqual([text.id, grep.id, grepResult.id]);
+      expect(service.getMessagesWithPagination({ filter: { thread: 'main' } }).total).toBe(2);
+    });
+  });
+
+  describe('partial message streaming', () => {
+    it('should enable partial messages in the SDK options', async () => {
+      (query as ReturnType<typeof vi.fn>).mockClear();
+      const service = new AgentService();
+      await service.initialize();
+
+      const options = (query as ReturnType<typeof vi.fn>).mock.calls[0][0].options;
+      expect(options.includePartialMessages).toBe(true);
+
+      await service.cleanup();
+    });
+
+    it('should broadcast text and tool input deltas keyed by message id', async () => {
+      const { sessionService } = await import('../../services/session.js');
+      const broadcastMessageDelta = sessionService.broadcastMessageDelta as ReturnType<typeof vi.fn>;
+      broadcastMessageDelta.mockClear();
+
+      const service = new AgentService();
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const feed = (event: unknown) => (service as any).processSDKMessage({
+        type: 'stream_event',
+        event,
+        parent_tool_use_id: null,
+        uuid: 'uuid',
+        session_id: 'session',
+      });
+
+      await feed({ type: 'message_start', message: { id: 'msg_01' } });
+      await feed({ type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } });
+      await feed({ type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Hel' } });
+      await feed({ type: 'content_block_start', index: 1, content_block: { type: 'tool_use', id: 'toolu_1', name: 'Bash', input: {} } });
+      await feed({ type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '{"comm' } });
+      await feed({ type: 'message_stop' });
+
+      expect(broadcastMessageDelta.mock.calls.map(call => call[0])).toEqual([
+        { message_id: 'msg_01', index: 0, type: 'text', delta: 'Hel', parent_tool_use_id: undefined },
+        {
+          message_id: 'msg_01',
+          index: 1,
+          type: 'tool_input',
+          delta: '{"comm',
+          tool_use_id: 'toolu_1',
+          tool_name: 'Bash',
+          parent_tool_use_id: undefined,
+        },
+      ]);
+      // Partial output is not recorded in the transcript
+      expect(service.getMessages()).toHaveLength(0);
+    });
+
+    it('should record the SDK message id so final messages can replace their deltas', async () => {
+      const service = new AgentService();
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      await (service as any).processSDKMessage({
+        type: 'assistant',
+        parent_tool_use_id: null,
+        message: {
+          id: 'msg_01',
+          content: [
+            { type: 'text', text: 'Hello' },
+            { type: 'tool_use', id: 'toolu_1', name: 'Bash', input: { command: 'ls' } },
+          ],
+        },
+      });
+
+      const [text, toolUse] = service.getMessages();
+      expect(text).toMatchObject({ role: 'assistant', content: 'Hello', sdkMessageId: 'msg_01' });
+      expect(toolUse).toMatchObject({ role: 'agent', toolUseId: 'toolu_1', sdkMessageId: 'msg_01' });
+    });
+  });
+
+  describe('sendRawMessage', () => {
+    it('should forward content blocks and parent_tool_use_id to the SDK', async () => {
+      const service = new AgentService();
+      const sent: unknown[] = [];
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (service as any).inputStreamManager = { send: (msg: unknown) => sent.push(msg) };
+
+      const content = [
+        { type: 'text' as const, text: 'Describe this' },
+        { type: 'image' as const, source: { type: 'base64' as const, media_type: 'image/png', data: 'abc' } },
+      ];
+      await service.sendRawMessage(content, 'toolu_parent');
+
+      expect(sent).toEqual([
+        expect.objectContaining({
+          type: 'user',
+          message: { role: 'user', content },
+          parent_tool_use_id: 'toolu_parent',
+        }),
+      ]);
+      expect(service.getMessages()[0].content).toBe('Describe this\n[image: image/png]');
+    });
+  });
+
+  describe('model switching', () => {
+    it('should change the model of the live query and broadcast model_change', async () => {
+      const { sessionService } = await import('../../services/session.js');
+      const service = new AgentService();
+      const setModel = vi.fn().mockResolvedValue(undefined);
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (service as any).query = { setModel };
+
+      await service.setModel('opus');
+      expect(setModel).toHaveBeenCalledWith('opus');
+      expect(service.getModel()).toBe('opus');
+      expect(sessionService.broadcastModelChange).toHaveBeenCalledWith('opus', 'default');
+
+      // 'default' clears the override
+      await service.setModel('default');
+      expect(setModel).toHaveBeenLastCalledWith(undefined);
+    });
+
+    it('should list allowed models with SDK details', async () => {
+      const service = new AgentService();
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (service as any).allowedModels = ['sonnet', 'claude-custom'];
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (service as any).query = {
+        supportedModels: vi.fn().mockResolvedValue([
+          { value: 'sonnet', displayName: 'Sonnet', description: 'Balanced' },
+          { value: 'opus', displayName: 'Opus', description: 'Most capable' },
+        ]),
+      };
+
+      expect(await service.listModels()).toEqual([
+        { value: 'sonnet', display_name: 'Sonnet', description: 'Balanced' },
+        { value: 'claude-custom' },
+      ]);
+      expect(service.isModelAllowed('sonnet')).toBe(true);
+      expect(service.isModelAllowed('opus')).toBe(false);
+      expect(service.isModelAllowed('default')).toBe(true);
+    });
+  });
+
+  describe('permission mode', () => {
+    it('should switch the permission mode of the live query', async () => {
+      const { sessionService } = await import('../../services/session.js');
+      const service = new AgentService();
+      const setPermissionMode = vi.fn().mockResolvedValue(undefined);
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (service as any).query = { setPermissionMode };
+
+      await service.setPermissionMode('plan');
+
+      expect(setPermissionMode).toHaveBeenCalledWith('plan');
+      expect(service.getPermissionMode()).toBe('plan');
+      expect(sessionService.broadcastPermissionModeChange).toHaveBeenCalledWith('plan', 'default');
+    });
+
+    it('should refuse bypassPermissions unless allowed', async () => {
+      const service = new AgentService();
+      const setPermissionMode = vi.fn();
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (service as any).query = { setPermissionMode };
+
+      await expect(service.setPermissionMode('bypassPermissions')).rejects.toThrow('not allowed');
+      expect(setPermissionMode).not.toHaveBeenCalled();
+    });
+
+    it('should track mode changes reported by the SDK', async () => {
+      const service = new AgentService();
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (service as any).permissionMode = 'plan';
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      await (service as any).processSDKMessage({ type: 'system', subtype: 'status', status: null, permissionMode: 'default' });
+
+      expect(service.getPermissionMode()).toBe('default');
+    });
+  });
+
+  describe('sendMessage with attachments', () => {
+    it('should send attachments before the text and record their metadata', async () => {
+      const service = new AgentService();
+      const sent: unknown[] = [];
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (service as any).inputStreamManager = { send: (msg: unknown) => sent.push(msg) };
+
+      const image = { type: 'image' as const, source: { type: 'base64' as const, media_type: 'image/png', data: 'abc' } };
+      const metadata = { type: 'image' as const, media_type: 'image/png', name: 'shot.png', size: 2 };
+      await service.sendMessage('What is this?', [{ block: image, metadata }]);
+
+      expect(sent).toEqual([
+        expect.objectContaining({
+          message: { role: 'user', content: [image, { type: 'text', text: 'What is this?' }] },
+        }),
+      ]);
+      expect(service.getMessages()[0]).toMatchObject({
+        role: 'user',
+        content: 'What is this?',
+        attachments: [metadata],
+      });
+    });
+
+    it('should only return attachment files inside the uploads folder', async () => {
+      const service = new AgentService();
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (service as any).inputStreamManager = { send: () => {} };
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (service as any).uploadsRoot = '/test/uploads';
+
+      const image = { type: 'image' as const, source: { type: 'base64' as const, media_type: 'image/png', data: 'abc' } };
+      const uploaded = { type: 'image' as const, media_type: 'image/png', size: 2, file_path: '/test/uploads/attachments/shot.png' };
+      const outside = { type: 'image' as const, media_type: 'image/png', size: 2, file_path: '/etc/passwd' };
+      await service.sendMessage('Compare', [{ block: image, metadata: uploaded }, { block: image, metadata: outside }]);
+      const { id } = service.getMessages()[0];
+
+      expect(service.getAttachment(id, 0)).toEqual(uploaded);
+      expect(service.getAttachment(id, 1)).toBeNull();
+      expect(service.getAttachment(id, 2)).toBeNull();
+      expect(service.getAttachment(id + 1, 0)).toBeNull();
+    });
+  });
+
+  describe('slash commands', () => {
+    const command = {
+      name: 'commit',
+      arguments: 'fix typo',
+      prompt: 'Create a commit: fix typo',
+      allowedTools: ['Bash(git commit:*)'],
+      model: 'haiku',
+    };
+
+    it('should send the expanded prompt and record the command in the transcript', async () => {
+      const service = new AgentService();
+      const sent: Array<{ message: { content: unknown } }> = [];
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (service as any).inputStreamManager = { send: (msg: { message: { content: unknown } }) => sent.push(msg) };
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (service as any).query = { setModel: vi.fn().mockResolvedValue(undefined) };
+
+      await service.sendMessage('/commit fix typo', [], { ...command, model: undefined });
+
+      expect(sent[0].message.content).toBe('Create a commit: fix typo');
+      expect(service.getMessages()[0]).toMatchObject({
+        role: 'user',
+        content: '/commit fix typo',
+        command: { name: 'commit', arguments: 'fix typo' },
+      });
+    });
+
+    it('should apply allowed-tools and model for the turn only', async () => {
+      (query as ReturnType<typeof vi.fn>).mockClear();
+      const setModel = vi.fn().mockResolvedValue(undefined);
+      (query as ReturnType<typeof vi.fn>).mockReturnValueOnce({ setModel });
+      const service = new AgentService();
+      await service.initialize();
+      const canUseTool = (query as ReturnType<typeof vi.fn>).mock.calls[0][0].options.canUseTool;
+      const toolOptions = (toolUseID: string) => ({ signal: new AbortController().signal, toolUseID });
+
+      await service.sendMessage('/commit fix typo', [], command);
+
+      expect(setModel).toHaveBeenCalledWith('haiku');
+      await expect(
+        canUseTool('Bash', { command: 'git commit -m "fix typo"' }, toolOptions('tool-1'))
+      ).resolves.toMatchObject({ behavior: 'allow' });
+      void canUseTool('Bash', { command: 'git push' }, toolOptions('tool-2'));
+      expect(service.hasPendingToolApproval('tool-2')).toBe(true);
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (service as any).pendingToolApprovals.clear();
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      await (service as any).processSDKMessage({ type: 'result', subtype: 'success' });
+
+      expect(setModel).toHaveBeenLastCalledWith(undefined);
+      expect(service.getModel()).toBe('default');
+      void canUseTool('Bash', { command: 'git commit -m "again"' }, toolOptions('tool-3'));
+      expect(service.hasPendingToolApproval('tool-3')).toBe(true);
+
+      await service.cleanup();
+    });
+  });
+
+  describe('built-in commands', () => {
+    let service: InstanceType<typeof AgentService>;
+    let sent: Array<{ message: { content: unknown } }>;
+
+    beforeEach(() => {
+      service = new AgentService();
+      sent = [];
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (service as any).inputStreamManager = { send: (msg: { message: { content: unknown } }) => sent.push(msg) };
+    });
+
+    it('should clear the transcript and the SDK context', async () => {
+      await service.sendMessage('Hello');
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (service as any).status = 'stable';
+
+      await service.clearConversation();
+      const message = service.addSystemMessage('Conversation cleared', { name: 'clear', arguments: '' });
+
+      expect(sent[1].message.content).toBe('/clear');
+      const { sessionService } = await import('../../services/session.js');
+      expect(sessionService.broadcastInit).toHaveBeenCalledWith([], 'stable');
+      expect(service.getMessages()).toEqual([message]);
+      // IDs stay monotonic
+      expect(message.id).toBe(1);
+      expect(message).toMatchObject({ role: 'system', command: { name: 'clear', arguments: '' } });
+    });
+
+    it('should refuse to clear while running', async () => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (service as any).status = 'running';
+      await expect(service.clearConversation()).rejects.toThrow('Agent is busy');
+    });
+
+    it('should record a system message when the compaction is reported', async () => {
+      await service.compactConversation('keep decisions');
+
+      expect(sent[0].message.content).toBe('/compact keep decisions');
+      expect(service.getStatus()).toBe('running');
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      await (service as any).processSDKMessage({
+        type: 'system',
+        subtype: 'compact_boundary',
+        compact_metadata: { trigger: 'manual', pre_tokens: 48000 },
+      });
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      await (service as any).processSDKMessage({
+        type: 'system',
+        subtype: 'compact_boundary',
+        compact_metadata: { trigger: 'auto', pre_tokens: 150000 },
+      });
+
+      expect(service.getMessages()).toEqual([
+        expect.objectContaining({
+          role: 'system',
+          content: 'Conversation compacted (48000 tokens before compaction)',
+          command: { name: 'compact', arguments: 'keep decisions' },
+        }),
+        expect.objectContaining({
+          role: 'system',
+          content: 'Conversation compacted automatically (150000 tokens before compaction)',
+        }),
+      ]);
+      expect(service.getMessages()[1]).not.toHaveProperty('command');
+    });
+  });
+
+  describe('skills', () => {
+    let tempDir: string;
+
+    beforeEach(async () => {
+      tempDir = await mkdtemp(join(tmpdir(), 'agent-skills-test-'));
+      for (const name of ['pdf', 'xlsx']) {
+        await mkdir(join(tempDir, '.claude', 'skills', name), { recursive: true });
+        await writeFile(join(tempDir, '.claude', 'skills', name, 'SKILL.md'), `---\ndescription: ${name} files\n---\n`);
+      }
+      (resolveConfig as ReturnType<typeof vi.fn>).mockResolvedValue({
+        workingDirectory: tempDir,
+        permissionMode: 'bypassPermissions',
+        enabledSkills: ['pdf'],
+      });
+      (query as ReturnType<typeof vi.fn>).mockClear();
+    });
+
+    afterEach(async () => {
+      (resolveConfig as ReturnType<typeof vi.fn>).mockResolvedValue({
+        workingDirectory: '/test',
+        permissionMode: 'default',
+      });
+      await rm(tempDir, { recursive: true, force: true });
+    });
+
+    function skillHookInput(skill: string) {
+      return {
+        hook_event_name: 'PreToolUse',
+        session_id: 'session-1',
+        transcript_path: '/tmp/transcript.jsonl',
+        cwd: tempDir,
+        tool_name: 'Skill',
+        tool_input: { skill },
+        tool_use_id: 'tool-1',
+      };
+    }
+
+    it('should only enable the skills listed in enabledSkills', async () => {
+      const service = new AgentService();
+      await service.initialize();
+
+      const skills = await service.listSkills();
+
+      expect(skills.filter(s => s.source === 'project').map(s => [s.name, s.enabled])).toEqual([
+        ['pdf', true],
+        ['xlsx', false],
+      ]);
+      await service.cleanup();
+    });
+
+    it('should deny disabled skills in a PreToolUse hook even when permissions are bypassed', async () => {
+      const service = new AgentService();
+      await service.initialize();
+      const matchers = (query as ReturnType<typeof vi.fn>).mock.calls[0][0].options.hooks.PreToolUse;
+      expect(matchers).toEqual([expect.objectContaining({ matcher: 'Skill' })]);
+      const hook = matchers[0].hooks[0];
+      const hookOptions = { signal: new AbortController().signal };
+
+      await expect(hook(skillHookInput('pdf'), 'tool-1', hookOptions)).resolves.toEqual({});
+      await expect(hook(skillHookInput('xlsx'), 'tool-1', hookOptions)).resolves.toEqual({
+        hookSpecificOutput: {
+          hookEventName: 'PreToolUse',
+          permissionDecision: 'deny',
+          permissionDecisionReason: 'Skill "xlsx" is disabled for this session',
+        },
+      });
+
+      await expect(service.setSkillEnabled('xlsx', true)).resolves.toMatchObject({ name: 'xlsx', enabled: true });
+      await expect(service.setSkillEnabled('pdf', false)).resolves.toMatchObject({ name: 'pdf', enabled: false });
+      await expect(service.setSkillEnabled('unknown', true)).resolves.toBeNull();
+
+      await expect(hook(skillHookInput('xlsx'), 'tool-1', hookOptions)).resolves.toEqual({});
+      await expect(hook(skillHookInput('pdf'), 'tool-1', hookOptions)).resolves.toMatchObject({
+        hookSpecificOutput: { permissionDecision: 'deny' },
+      });
+      await service.cleanup();
+    });
+
+    it('should start when config hooks define PreToolUse as a command', async () => {
+      (resolveConfig as ReturnType<typeof vi.fn>).mockResolvedValue({
+        workingDirectory: tempDir,
+        permissionMode: 'default',
+        hooks: { PreToolUse: { command: 'echo', args: ['pre-tool-use'] } },
+      });
+      const service = new AgentService();
+
+      await expect(service.initialize()).resolves.toBeUndefined();
+
+      const matchers = (query as ReturnType<typeof vi.fn>).mock.calls[0][0].options.hooks.PreToolUse;
+      expect(matchers).toEqual([expect.objectContaining({ matcher: 'Skill' })]);
+      await service.cleanup();
+    });
   });
 });
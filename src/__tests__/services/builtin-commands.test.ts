@@ -0,0 +1,100 @@
+import { describe, it, expect, vi } from 'vitest';
+import { BUILTIN_COMMANDS, BuiltinCommandError, findBuiltinCommand } from '../../services/builtin-commands.js';
+import type { AgentService } from '../../services/agent.js';
+
+function makeAgent(overrides: Record<string, unknown> = {}): AgentService {
+  return {
+    clearConversation: vi.fn().mockResolvedValue(undefined),
+    compactConversation: vi.fn().mockResolvedValue(undefined),
+    getSessionUsage: vi.fn().mockReturnValue({
+      turns: 2,
+      cost_usd: 0.0123,
+      duration_ms: 65_000,
+      duration_api_ms: 4_200,
+      num_turns: 5,
+      tokens: { input_tokens: 100, output_tokens: 50, cache_read_input_tokens: 10, cache_creation_input_tokens: 0 },
+      models: {
+        'claude-sonnet': {
+          input_tokens: 100,
+          output_tokens: 50,
+          cache_read_input_tokens: 10,
+          cache_creation_input_tokens: 0,
+          web_search_requests: 0,
+          cost_usd: 0.0123,
+        },
+      },
+    }),
+    getModel: vi.fn().mockReturnValue('default'),
+    listModels: vi.fn().mockResolvedValue([{ value: 'sonnet' }, { value: 'opus' }]),
+    isModelAllowed: vi.fn().mockReturnValue(true),
+    setModel: vi.fn().mockResolvedValue(undefined),
+    getStatus: vi.fn().mockReturnValue('stable'),
+    getSdkSessionId: vi.fn().mockReturnValue('sdk-123'),
+    isResumed: vi.fn().mockReturnValue(false),
+    getWorkingDirectory: vi.fn().mockReturnValue('/project'),
+    getPermissionMode: vi.fn().mockReturnValue('acceptEdits'),
+    isQueueEnabled: vi.fn().mockReturnValue(true),
+    getQueue: vi.fn().mockReturnValue([{ id: 'q1' }]),
+    getMessages: vi.fn().mockReturnValue([{ id: 0 }, { id: 1 }]),
+    ...overrides,
+  } as unknown as AgentService;
+}
+
+function run(name: string, agent: AgentService, args = '') {
+  return findBuiltinCommand(name)!.run(agent, args);
+}
+
+describe('built-in commands', () => {
+  it('registers clear, compact, cost, model and status', () => {
+    expect(BUILTIN_COMMANDS.map(c => c.name)).toEqual(['clear', 'compact', 'cost', 'model', 'status']);
+    expect(findBuiltinCommand('review')).toBeUndefined();
+  });
+
+  it('/clear clears the conversation', async () => {
+    const agent = makeAgent();
+    await expect(run('clear', agent)).resolves.toBe('Conversation cleared');
+    expect(agent.clearConversation).toHaveBeenCalled();
+  });
+
+  it('/compact leaves the result to the compaction event', async () => {
+    const agent = makeAgent();
+    await expect(run('compact', agent, 'keep the API decisions')).resolves.toBeNull();
+    expect(agent.compactConversation).toHaveBeenCalledWith('keep the API decisions');
+  });
+
+  it('/cost reports usage and cost per model', async () => {
+    const output = await run('cost', makeAgent());
+
+    expect(output).toContain('Total cost: $0.0123');
+    expect(output).toContain('Total duration (API): 4.2s');
+    expect(output).toContain('Total duration (wall): 1m 5s');
+    expect(output).toContain('Usage: 100 input, 50 output, 10 cache read, 0 cache write');
+    expect(output).toContain('claude-sonnet: 100 input, 50 output ($0.0123)');
+  });
+
+  it('/model lists models without arguments', async () => {
+    await expect(run('model', makeAgent())).resolves.toBe('Current model: default\nAvailable models: sonnet, opus');
+  });
+
+  it('/model switches the model', async () => {
+    const agent = makeAgent();
+    await expect(run('model', agent, 'opus')).resolves.toBe('Model changed: default -> opus');
+    expect(agent.setModel).toHaveBeenCalledWith('opus');
+  });
+
+  it('/model rejects models outside ALLOWED_MODELS', async () => {
+    const agent = makeAgent({ isModelAllowed: vi.fn().mockReturnValue(false) });
+    await expect(run('model', agent, 'opus')).rejects.toBeInstanceOf(BuiltinCommandError);
+    expect(agent.setModel).not.toHaveBeenCalled();
+  });
+
+  it('/status reports the session configuration', async () => {
+    const output = await run('status', makeAgent());
+
+    expect(output).toContain('SDK session: sdk-123');
+    expect(output).toContain('Working directory: /project');
+    expect(output).toContain('Permission mode: acceptEdits');
+    expect(output).toContain('Queue: enabled (1 queued)');
+    expect(output).toContain('Messages: 2');
+  });
+});
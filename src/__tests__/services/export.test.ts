@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest';
+import { buildTranscript, renderMarkdown, renderJsonl, renderHtml, exportConversation } from '../../services/export.js';
+import type { Message } from '../../types/api.js';
+
+const messages: Message[] = [
+  { id: 0, role: 'user', content: 'List the files', time: '2024-01-01T00:00:00.000Z', type: 'normal' },
+  {
+    id: 1,
+    role: 'agent',
+    content: JSON.stringify({ type: 'tool_use', name: 'Bash', id: 'toolu_1', input: { command: 'ls' } }, null, 2),
+    time: '2024-01-01T00:00:01.000Z',
+    type: 'normal',
+    toolUseId: 'toolu_1',
+  },
+  {
+    id: 2,
+    role: 'tool_result',
+    content: 'README.md\nsrc',
+    time: '2024-01-01T00:00:02.000Z',
+    type: 'normal',
+    parentToolUseId: 'toolu_1',
+    status: 'success',
+  },
+  {
+    id: 3,
+    role: 'agent',
+    content: JSON.stringify({ type: 'tool_use', name: 'Read', id: 'toolu_2', input: { file_path: '/missing' } }),
+    time: '2024-01-01T00:00:03.000Z',
+    type: 'normal',
+    toolUseId: 'toolu_2',
+  },
+  {
+    id: 4,
+    role: 'tool_result',
+    content: 'File not found',
+    time: '2024-01-01T00:00:04.000Z',
+    type: 'normal',
+    parentToolUseId: 'toolu_2',
+    status: 'error',
+    error: 'File not found',
+  },
+  { id: 5, role: 'assistant', content: 'Which file?', time: '2024-01-01T00:00:05.000Z', type: 'question' },
+  { id: 6, role: 'assistant', content: '1. Edit <index.ts>', time: '2024-01-01T00:00:06.000Z', type: 'plan' },
+];
+
+const options = { sessionId: 'default', exportedAt: new Date('2024-01-02T00:00:00.000Z') };
+
+describe('buildTranscript', () => {
+  it('should collapse tool_use messages with their results', () => {
+    const entries = buildTranscript(messages);
+
+    expect(entries.map(e => e.kind)).toEqual(['user', 'tool', 'tool', 'question', 'plan']);
+    expect(entries[1]).toEqual({
+      kind: 'tool',
+      id: 1,
+      time: '2024-01-01T00:00:01.000Z',
+      tool_use_id: 'toolu_1',
+      name: 'Bash',
+      input: { command: 'ls' },
+      status: 'success',
+      result: 'README.md\nsrc',
+      error: undefined,
+    });
+    expect(entries[2]).toMatchObject({ name: 'Read', status: 'error', error: 'File not found' });
+  });
+
+  it('should keep results whose tool call is outside of the range', () => {
+    const entries = buildTranscript(messages.slice(2, 3));
+
+    expect(entries).toEqual([
+      expect.objectContaining({ kind: 'tool', tool_use_id: 'toolu_1', result: 'README.md\nsrc', input: undefined }),
+    ]);
+  });
+
+  it('should keep system messages of built-in commands', () => {
+    const entries = buildTranscript([
+      { id: 7, role: 'system', content: 'Total cost: $0.0100', time: '2024-01-01T00:00:07.000Z', command: { name: 'cost', arguments: '' } },
+    ]);
+
+    expect(entries).toEqual([{ kind: 'system', id: 7, time: '2024-01-01T00:00:07.000Z', content: 'Total cost: $0.0100' }]);
+    expect(renderMarkdown(entries, options)).toContain('### ⚙️ System · 2024-01-01 00:00:07Z');
+  });
+
+  it('should prefer the structured tool fields', () => {
+    const entries = buildTranscript([
+      { ...messages[1], content: 'legacy', toolName: 'Glob', toolInput: { pattern: '*.ts' } },
+      { ...messages[4], parentToolUseId: 'toolu_9', toolName: 'Grep' },
+    ]);
+
+    expect(entries[0]).toMatchObject({ name: 'Glob', input: { pattern: '*.ts' } });
+    expect(entries[1]).toMatchObject({ name: 'Grep', input: undefined });
+  });
+});
+
+describe('renderMarkdown', () => {
+  it('should render turns, collapsed tool calls, questions and plans', () => {
+    const markdown = renderMarkdown(buildTranscript(messages), options);
+
+    expect(markdown).toContain('# Conversation');
+    expect(markdown).toContain('### 👤 User · 2024-01-01 00:00:00Z\n\nList the files');
+    expect(markdown).toContain('<summary>🔧 Bash — ✅ success · 2024-01-01 00:00:01Z</summary>');
+    expect(markdown).toContain('```json\n{\n  "command": "ls"\n}\n```');
+    expect(markdown).toContain('<summary>🔧 Read — ❌ error');
+    expect(markdown).toContain('**Error**\n\n```\nFile not found\n```');
+    expect(markdown).toContain('### ❓ Question');
+    expect(markdown).toContain('### 📋 Plan');
+  });
+
+  it('should use a longer fence when the content contains backticks', () => {
+    const markdown = renderMarkdown(buildTranscript([
+      { ...messages[6], content: 'Run:\n```sh\nnpm test\n```' },
+    ]), options);
+
+    expect(markdown).toContain('````\nRun:\n```sh\nnpm test\n```\n````');
+  });
+});
+
+describe('renderJsonl', () => {
+  it('should write one entry per line', () => {
+    const lines = renderJsonl(buildTranscript(messages)).trimEnd().split('\n');
+
+    expect(lines).toHaveLength(5);
+    expect(JSON.parse(lines[1])).toMatchObject({ kind: 'tool', name: 'Bash', result: 'README.md\nsrc' });
+  });
+});
+
+describe('renderHtml', () => {
+  it('should render a standalone, escaped document', () => {
+    const html = renderHtml(buildTranscript(messages), options);
+
+    expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+    expect(html).toContain('<style>');
+    expect(html).toContain('<section class="entry tool error" id="m3">');
+    expect(html).toContain('1. Edit &lt;index.ts&gt;');
+    expect(html).not.toContain('<index.ts>');
+  });
+});
+
+describe('exportConversation', () => {
+  it('should pick the content type for each format', () => {
+    expect(exportConversation(messages, 'markdown', options).contentType).toBe('text/markdown');
+    expect(exportConversation(messages, 'jsonl', options).contentType).toBe('application/x-ndjson');
+    expect(exportConversation(messages, 'html', options).contentType).toBe('text/html');
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { MessageIndex, parseToolUseMessage } from '../../services/message-index.js';
+import type { Message } from '../../types/api.js';
+
+function message(id: number, overrides: Partial<Message> = {}): Message {
+  return {
+    id,
+    role: 'user',
+    content: `Message ${id}`,
+    time: new Date(Date.UTC(2024, 0, 1, 0, 0, id)).toISOString(),
+    type: 'normal',
+    ...overrides,
+  };
+}
+
+describe('MessageIndex', () => {
+  let index: MessageIndex;
+
+  beforeEach(() => {
+    index = new MessageIndex();
+    index.rebuild([
+      message(0, { content: 'Please run the migration' }),
+      message(1, { role: 'assistant', content: 'Running it now' }),
+      message(2, { role: 'agent', content: JSON.stringify({ name: 'Bash', input: { command: 'npm run migrate' } }), toolUseId: 'tu-1' }),
+      message(3, { role: 'tool_result', content: 'Migration failed', parentToolUseId: 'tu-1', status: 'error', error: 'exit 1' }),
+      message(4, { role: 'agent', content: JSON.stringify({ name: 'Read', input: { file_path: 'a.ts' } }), toolUseId: 'tu-2' }),
+      message(5, { role: 'tool_result', content: 'file contents', parentToolUseId: 'tu-2', status: 'success' }),
+      message(6, { role: 'assistant', content: 'Which database?', type: 'question' }),
+    ]);
+  });
+
+  it('should return every message for an empty filter', () => {
+    expect(index.select({}).map(m => m.id)).toEqual([0, 1, 2, 3, 4, 5, 6]);
+  });
+
+  it('should match any of the values of one filter', () => {
+    expect(index.select({ role: ['user', 'assistant'] }).map(m => m.id)).toEqual([0, 1, 6]);
+  });
+
+  it('should combine different filters', () => {
+    expect(index.select({ role: ['tool_result'], status: ['error'] }).map(m => m.id)).toEqual([3]);
+    expect(index.select({ role: ['assistant'], type: ['normal'] }).map(m => m.id)).toEqual([1]);
+  });
+
+  it('should index tool results under the name of their tool_use', () => {
+    expect(index.select({ tool: ['Bash'] }).map(m => m.id)).toEqual([2, 3]);
+    expect(index.select({ tool: ['Read', 'Bash'] }).map(m => m.id)).toEqual([2, 3, 4, 5]);
+  });
+
+  it('should filter by time range', () => {
+    const result = index.select({
+      since: new Date(Date.UTC(2024, 0, 1, 0, 0, 2)),
+      until: new Date(Date.UTC(2024, 0, 1, 0, 0, 4)),
+    });
+
+    expect(result.map(m => m.id)).toEqual([2, 3, 4]);
+  });
+
+  it('should search content case-insensitively', () => {
+    expect(index.select({ q: 'MIGRAT' }).map(m => m.id)).toEqual([0, 2, 3]);
+    expect(index.select({ q: 'migrat', role: ['tool_result'] }).map(m => m.id)).toEqual([3]);
+  });
+
+  it('should select subagent threads', () => {
+    index.add(message(7, { role: 'assistant', content: 'Searching', threadId: 'tu-task', subagent: 'Explore' }));
+    index.add(message(8, { role: 'agent', content: '{}', toolName: 'Grep', toolUseId: 'tu-3', threadId: 'tu-task', subagent: 'Explore' }));
+
+    expect(index.select({ thread: 'tu-task' }).map(m => m.id)).toEqual([7, 8]);
+    expect(index.select({ thread: 'tu-task', tool: ['Grep'] }).map(m => m.id)).toEqual([8]);
+    expect(index.select({ thread: 'main', role: ['assistant'] }).map(m => m.id)).toEqual([1, 6]);
+  });
+
+  it('should drop pruned messages', () => {
+    index.removeBefore(3);
+
+    expect(index.select({}).map(m => m.id)).toEqual([3, 4, 5, 6]);
+    expect(index.select({ role: ['user'] })).toEqual([]);
+  });
+
+  it('should index messages added after a rebuild', () => {
+    index.add(message(7, { role: 'tool_result', content: 'ok', parentToolUseId: 'tu-2', status: 'success' }));
+
+    expect(index.select({ tool: ['Read'], status: ['success'] }).map(m => m.id)).toEqual([5, 7]);
+  });
+});
+
+describe('parseToolUseMessage', () => {
+  it('should parse tool_use JSON', () => {
+    expect(parseToolUseMessage('{"name":"Bash","input":{"command":"ls"}}')).toEqual({ name: 'Bash', input: { command: 'ls' } });
+  });
+
+  it('should return null for other content', () => {
+    expect(parseToolUseMessage('plain text')).toBeNull();
+    expect(parseToolUseMessage('{"input":{}}')).toBeNull();
+  });
+});
@@ -0,0 +1,183 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, rm, readFile, writeFile, mkdir } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import type { Message } from '../../types/api.js';
+
+vi.mock('../../utils/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+const {
+  createMessageStore,
+  JsonlMessageStore,
+  MemoryMessageStore,
+  SqliteMessageStore,
+} = await import('../../services/message-store.js');
+
+function makeMessage(id: number): Message {
+  return {
+    id,
+    role: id % 2 === 0 ? 'user' : 'assistant',
+    content: `Message ${id}`,
+    time: new Date(Date.UTC(2024, 0, 1, 0, 0, id)).toISOString(),
+    type: 'normal',
+  };
+}
+
+const sqliteAvailable = await import('node:sqlite' as string).then(() => true, () => false);
+
+describe('message stores', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'message-store-test-'));
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('createMessageStore', () => {
+    it('should default to the in-memory store', () => {
+      const store = createMessageStore({
+        workingDirectory: tempDir,
+        sessionId: 'default',
+        retention: { maxMessages: 10 },
+      });
+
+      expect(store).toBeInstanceOf(MemoryMessageStore);
+    });
+
+    it('should create a JSONL store', () => {
+      const store = createMessageStore({
+        type: 'jsonl',
+        workingDirectory: tempDir,
+        sessionId: 'default',
+        retention: { maxMessages: 10 },
+      });
+
+      expect(store).toBeInstanceOf(JsonlMessageStore);
+    });
+
+    it('should create a SQLite store', () => {
+      const store = createMessageStore({
+        type: 'sqlite',
+        workingDirectory: tempDir,
+        sessionId: 'default',
+        retention: { maxMessages: 10 },
+      });
+
+      expect(store).toBeInstanceOf(SqliteMessageStore);
+    });
+  });
+
+  describe('JsonlMessageStore', () => {
+    it('should return empty history when the file does not exist', async () => {
+      const store = new JsonlMessageStore(join(tempDir, 'nested', 'messages.jsonl'), { maxMessages: 10 });
+
+      expect(await store.load()).toEqual([]);
+    });
+
+    it('should persist appended messages across instances', async () => {
+      const filePath = join(tempDir, 'messages.jsonl');
+      const store = new JsonlMessageStore(filePath, { maxMessages: 10 });
+      await store.load();
+      store.append(makeMessage(0));
+      store.append(makeMessage(1));
+      store.close();
+
+      const reloaded = new JsonlMessageStore(filePath, { maxMessages: 10 });
+      const messages = await reloaded.load();
+
+      expect(messages).toEqual([makeMessage(0), makeMessage(1)]);
+    });
+
+    it('should apply the retention policy and compact the file on load', async () => {
+      const filePath = join(tempDir, 'messages.jsonl');
+      const lines = Array.from({ length: 5 }, (_, i) => JSON.stringify(makeMessage(i))).join('\n') + '\n';
+      await writeFile(filePath, lines);
+
+      const store = new JsonlMessageStore(filePath, { maxMessages: 3 });
+      const messages = await store.load();
+
+      expect(messages.map(m => m.id)).toEqual([2, 3, 4]);
+      const content = await readFile(filePath, 'utf-8');
+      expect(content.trim().split('\n')).toHaveLength(3);
+    });
+
+    it('should skip invalid lines', async () => {
+      const filePath = join(tempDir, 'messages.jsonl');
+      await mkdir(tempDir, { recursive: true });
+      await writeFile(filePath, `${JSON.stringify(makeMessage(0))}\n{broken\n${JSON.stringify(makeMessage(1))}\n`);
+
+      const store = new JsonlMessageStore(filePath, { maxMessages: 10 });
+      const messages = await store.load();
+
+      expect(messages.map(m => m.id)).toEqual([0, 1]);
+    });
+
+    it('should not load pruned messages again', async () => {
+      const filePath = join(tempDir, 'messages.jsonl');
+      const store = new JsonlMessageStore(filePath, { maxMessages: 10 });
+      await store.load();
+      for (let i = 0; i < 4; i++) {
+        store.append(makeMessage(i));
+      }
+      store.prune(2);
+      store.append(makeMessage(4));
+      store.close();
+
+      const reloaded = new JsonlMessageStore(filePath, { maxMessages: 10 });
+      const messages = await reloaded.load();
+
+      expect(messages.map(m => m.id)).toEqual([2, 3, 4]);
+      const content = await readFile(filePath, 'utf-8');
+      expect(content.trim().split('\n')).toHaveLength(3);
+    });
+
+    it('should compact the file while running once it holds twice the retained messages', async () => {
+      const filePath = join(tempDir, 'messages.jsonl');
+      const store = new JsonlMessageStore(filePath, { maxMessages: 3 });
+      await store.load();
+      for (let i = 0; i < 10; i++) {
+        store.append(makeMessage(i));
+        if (i >= 3) {
+          store.prune(i - 2);
+        }
+      }
+
+      const content = await readFile(filePath, 'utf-8');
+      expect(content.trim().split('\n').length).toBeLessThanOrEqual(6);
+      expect(await new JsonlMessageStore(filePath, { maxMessages: 3 }).load()).toEqual([
+        makeMessage(7),
+        makeMessage(8),
+        makeMessage(9),
+      ]);
+    });
+  });
+
+  describe.skipIf(!sqliteAvailable)('SqliteMessageStore', () => {
+    it('should persist and prune messages', async () => {
+      const filePath = join(tempDir, 'messages.db');
+      const store = new SqliteMessageStore(filePath, { maxMessages: 10 });
+      await store.load();
+      for (let i = 0; i < 4; i++) {
+        store.append(makeMessage(i));
+      }
+      store.prune(2);
+      store.close();
+
+      const reloaded = new SqliteMessageStore(filePath, { maxMessages: 10 });
+      const messages = await reloaded.load();
+      reloaded.close();
+
+      expect(messages.map(m => m.id)).toEqual([2, 3]);
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../utils/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+const { MetricsRegistry, MetricsService } = await import('../../services/metrics.js');
+
+describe('MetricsRegistry', () => {
+  it('should render counters in Prometheus text format', () => {
+    const registry = new MetricsRegistry();
+    const counter = registry.counter('claude_code.token.usage', 'Number of tokens used');
+
+    counter.inc({ 'session.id': 's1', type: 'input' }, 10);
+    counter.inc({ 'session.id': 's1', type: 'input' }, 5);
+    counter.inc({ 'session.id': 's1', type: 'output' }, 3);
+
+    expect(registry.render()).toBe([
+      '# HELP claude_code_token_usage Number of tokens used',
+      '# TYPE claude_code_token_usage counter',
+      'claude_code_token_usage{session_id="s1",type="input"} 15',
+      'claude_code_token_usage{session_id="s1",type="output"} 3',
+      '',
+    ].join('\n'));
+  });
+
+  it('should render cumulative histogram buckets', () => {
+    const registry = new MetricsRegistry();
+    const histogram = registry.histogram('claude_code.turn.duration', 'Turn duration', [1, 10]);
+
+    histogram.observe({}, 0.5);
+    histogram.observe({}, 5);
+    histogram.observe({}, 20);
+
+    const output = registry.render();
+    expect(output).toContain('claude_code_turn_duration_bucket{le="1"} 1');
+    expect(output).toContain('claude_code_turn_duration_bucket{le="10"} 2');
+    expect(output).toContain('claude_code_turn_duration_bucket{le="+Inf"} 3');
+    expect(output).toContain('claude_code_turn_duration_sum 25.5');
+    expect(output).toContain('claude_code_turn_duration_count 3');
+  });
+
+  it('should escape label values', () => {
+    const registry = new MetricsRegistry();
+    registry.counter('test.metric', 'Test').inc({ name: 'a"b\\c\nd' });
+
+    expect(registry.render()).toContain('test_metric{name="a\\"b\\\\c\\nd"} 1');
+  });
+});
+
+describe('MetricsService', () => {
+  let metrics: InstanceType<typeof MetricsService>;
+
+  beforeEach(() => {
+    metrics = new MetricsService();
+  });
+
+  it('should not record anything until enabled', () => {
+    metrics.recordTokenUsage('s1', 'sonnet', 'input', 100);
+
+    expect(metrics.render()).not.toContain('claude_code_token_usage{');
+  });
+
+  it('should record metrics with standard attributes', () => {
+    metrics.enable({ appVersion: '1.2.3', terminalType: 'xterm' });
+
+    metrics.recordSessionStart('s1');
+    metrics.recordTokenUsage('s1', 'sonnet', 'cacheRead', 100);
+    metrics.recordCost('s1', 'sonnet', 0.25);
+    metrics.recordToolCall('s1', 'Bash', 'error');
+    metrics.recordTurn('s1', 2500);
+
+    const output = metrics.render();
+    expect(output).toContain('claude_code_session_count{session_id="s1",app_version="1.2.3",terminal_type="xterm"} 1');
+    expect(output).toContain('claude_code_token_usage{session_id="s1",app_version="1.2.3",terminal_type="xterm",model="sonnet",type="cacheRead"} 100');
+    expect(output).toContain('claude_code_cost_usage{session_id="s1",app_version="1.2.3",terminal_type="xterm",model="sonnet"} 0.25');
+    expect(output).toContain('claude_code_tool_calls{session_id="s1",app_version="1.2.3",terminal_type="xterm",tool_name="Bash",status="error"} 1');
+    expect(output).toContain('claude_code_active_time_total{session_id="s1",app_version="1.2.3",terminal_type="xterm"} 2.5');
+    expect(output).toContain('claude_code_turn_duration_count{session_id="s1",app_version="1.2.3",terminal_type="xterm"} 1');
+  });
+
+  it('should count lines of code for edit tools only', () => {
+    metrics.enable({ appVersion: '1.0.0', terminalType: 'xterm' });
+
+    metrics.recordLinesOfCode('s1', 'Edit', { file_path: 'a.ts', old_string: 'a\nb', new_string: 'a\nb\nc' });
+    metrics.recordLinesOfCode('s1', 'Write', { file_path: 'b.ts', content: 'x\ny\n' });
+    metrics.recordLinesOfCode('s1', 'Bash', { command: 'echo hi' });
+
+    const output = metrics.render();
+    expect(output).toContain('type="added"} 5');
+    expect(output).toContain('type="removed"} 2');
+  });
+
+  it('should record code edit decisions with language', () => {
+    metrics.enable({ appVersion: '1.0.0', terminalType: 'xterm' });
+
+    metrics.recordCodeEditDecision('s1', 'Write', { file_path: 'src/app.py' }, 'reject');
+    metrics.recordCodeEditDecision('s1', 'Bash', { command: 'ls' }, 'accept');
+
+    const output = metrics.render();
+    expect(output).toContain('tool="Write",decision="reject",language="Python"} 1');
+    expect(output).not.toContain('tool="Bash"');
+  });
+});
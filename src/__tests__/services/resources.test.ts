@@ -2,18 +2,38 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { getAvailableResources } from '../../services/resources.js';
 import type { ResolvedConfig } from '../../types/config.js';
 import type { SlashCommandInfo } from '../../utils/slash-commands.js';
+import type { SubagentInfo } from '../../utils/subagents.js';
+import type { SkillInfo } from '../../utils/skills.js';
+import type { BuiltinCommand } from '../../services/builtin-commands.js';
 
-// Mock slash-commands utility
+const builtinCommands = vi.hoisted(() => [] as BuiltinCommand[]);
+
+// Mock slash-commands, subagents and skills utilities, and the built-in command registry
 vi.mock('../../utils/slash-commands.js', () => ({
   discoverAllSlashCommands: vi.fn(),
 }));
+vi.mock('../../utils/subagents.js', () => ({
+  discoverAllSubagents: vi.fn(),
+}));
+vi.mock('../../utils/skills.js', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../../utils/skills.js')>(),
+  discoverAllSkills: vi.fn(),
+}));
+vi.mock('../../services/builtin-commands.js', () => ({
+  BUILTIN_COMMANDS: builtinCommands,
+}));
 
 import { discoverAllSlashCommands } from '../../utils/slash-commands.js';
+import { discoverAllSubagents } from '../../utils/subagents.js';
+import { discoverAllSkills } from '../../utils/skills.js';
 
 describe('getAvailableResources', () => {
   beforeEach(() => {
     vi.clearAllMocks();
     (discoverAllSlashCommands as ReturnType<typeof vi.fn>).mockResolvedValue([]);
+    (discoverAllSubagents as ReturnType<typeof vi.fn>).mockResolvedValue([]);
+    (discoverAllSkills as ReturnType<typeof vi.fn>).mockResolvedValue([]);
+    builtinCommands.length = 0;
   });
 
   function makeConfig(overrides: Partial<ResolvedConfig> = {}): ResolvedConfig {
@@ -90,10 +110,14 @@ describe('getAvailableResources', () => {
         filePath: '/path/to/commit.md',
       },
       {
-        name: 'my-cmd',
+        name: 'frontend:my-cmd',
+        namespace: 'frontend',
         description: 'My project command',
+        argumentHint: '[file]',
+        allowedTools: ['Read'],
+        model: 'haiku',
         source: 'project',
-        filePath: '/project/.claude/commands/my-cmd.md',
+        filePath: '/project/.claude/commands/frontend/my-cmd.md',
       },
     ];
     (discoverAllSlashCommands as ReturnType<typeof vi.fn>).mockResolvedValue(mockCommands);
@@ -116,17 +140,93 @@ describe('getAvailableResources', () => {
 
     expect(result[1]).toMatchObject({
       type: 'slash_command',
-      name: 'my-cmd',
+      name: 'frontend:my-cmd',
       description: 'My project command',
       metadata: {
         source: 'project',
-        filePath: '/project/.claude/commands/my-cmd.md',
+        namespace: 'frontend',
+        filePath: '/project/.claude/commands/frontend/my-cmd.md',
+        argumentHint: '[file]',
+        allowedTools: ['Read'],
+        model: 'haiku',
       },
     });
     // pluginName should not be present for project commands
     expect(result[1].metadata).not.toHaveProperty('pluginName');
   });
 
+  it('returns Agent Skills with their enabled state', async () => {
+    const skills: SkillInfo[] = [
+      {
+        name: 'pdf',
+        description: 'Extract text from PDF files',
+        allowedTools: ['Read'],
+        source: 'project',
+        path: '/tmp/test/.claude/skills/pdf',
+        files: ['scripts/extract.py'],
+      },
+      {
+        name: 'docs:xlsx',
+        description: 'Edit spreadsheets',
+        source: 'plugin',
+        pluginName: 'docs',
+        path: '/plugins/docs/skills/xlsx',
+        files: [],
+      },
+    ];
+    (discoverAllSkills as ReturnType<typeof vi.fn>).mockResolvedValue(skills);
+
+    const defaults = await getAvailableResources(makeConfig({ enabledSkills: ['pdf'] }));
+    const overridden = await getAvailableResources(makeConfig(), name => name === 'docs:xlsx');
+
+    expect(defaults).toEqual([
+      {
+        type: 'skill',
+        name: 'pdf',
+        description: 'Extract text from PDF files',
+        metadata: {
+          source: 'project',
+          path: '/tmp/test/.claude/skills/pdf',
+          files: ['scripts/extract.py'],
+          allowedTools: ['Read'],
+          enabled: true,
+        },
+      },
+      {
+        type: 'skill',
+        name: 'docs:xlsx',
+        description: 'Edit spreadsheets',
+        metadata: {
+          source: 'plugin',
+          pluginName: 'docs',
+          path: '/plugins/docs/skills/xlsx',
+          files: [],
+          enabled: false,
+        },
+      },
+    ]);
+    expect(overridden.map(r => r.metadata?.enabled)).toEqual([false, true]);
+  });
+
+  it('returns built-in commands as slash_command resources', async () => {
+    builtinCommands.push(
+      { name: 'cost', description: 'Show cost', run: vi.fn() },
+      { name: 'model', description: 'Switch model', argumentHint: '[model]', run: vi.fn() },
+    );
+
+    const result = await getAvailableResources(makeConfig());
+
+    expect(result).toEqual([
+      { type: 'slash_command', name: 'cost', description: 'Show cost', metadata: { source: 'builtin' } },
+      {
+        type: 'slash_command',
+        name: 'model',
+        description: 'Switch model',
+        metadata: { source: 'builtin', argumentHint: '[model]' },
+      },
+    ]);
+  });
+
   it('aggregates skills and slash_commands together', async () => {
     const mockCommands: SlashCommandInfo[] = [
       {
@@ -150,4 +250,47 @@ describe('getAvailableResources', () => {
     expect(types).toContain('skill');
     expect(types).toContain('slash_command');
   });
+
+  it('returns subagent resources from discovered agents', async () => {
+    const mockAgents: SubagentInfo[] = [
+      {
+        name: 'code-reviewer',
+        description: 'Reviews code',
+        prompt: 'You review code.',
+        tools: ['Read', 'Grep'],
+        model: 'sonnet',
+        source: 'project',
+        filePath: '/project/.claude/agents/code-reviewer.md',
+      },
+      {
+        name: 'planner',
+        description: 'Plans work',
+        prompt: 'Plan.',
+        source: 'config',
+      },
+    ];
+    (discoverAllSubagents as ReturnType<typeof vi.fn>).mockResolvedValue(mockAgents);
+
+    const result = await getAvailableResources(makeConfig());
+
+    expect(result).toEqual([
+      {
+        type: 'subagent',
+        name: 'code-reviewer',
+        description: 'Reviews code',
+        metadata: {
+          source: 'project',
+          filePath: '/project/.claude/agents/code-reviewer.md',
+          tools: ['Read', 'Grep'],
+          model: 'sonnet',
+        },
+      },
+      {
+        type: 'subagent',
+        name: 'planner',
+        description: 'Plans work',
+        metadata: { source: 'config' },
+      },
+    ]);
+  });
 });
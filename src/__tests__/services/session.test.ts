@@ -8,7 +8,7 @@ describe('SessionService', () => {
   let mockClient: SSEClient;
 
   beforeEach(() => {
-    sessionService = new SessionService();
+    sessionService = new SessionService({ bootId: 'run' });
     mockClient = {
       id: 'test-client-1',
       send: vi.fn(),
@@ -64,8 +64,8 @@ describe('SessionService', () => {
       const testData = { message: 'test' };
       sessionService.broadcast('test-event', testData);
 
-      expect(mockClient.send).toHaveBeenCalledWith('test-event', testData);
-      expect(mockClient2.send).toHaveBeenCalledWith('test-event', testData);
+      expect(mockClient.send).toHaveBeenCalledWith('test-event', testData, 'run-1');
+      expect(mockClient2.send).toHaveBeenCalledWith('test-event', testData, 'run-1');
     });
 
     it('should not throw when client send fails', () => {
@@ -94,7 +94,7 @@ describe('SessionService', () => {
 
       sessionService.broadcastMessageUpdate(message);
 
-      expect(mockClient.send).toHaveBeenCalledWith('message_update', message);
+      expect(mockClient.send).toHaveBeenCalledWith('message_update', message, 'run-1');
     });
   });
 
@@ -106,7 +106,85 @@ describe('SessionService', () => {
 
       expect(mockClient.send).toHaveBeenCalledWith('status_change', {
         status: 'running',
-      });
+      }, 'run-1');
+    });
+  });
+
+  describe('broadcastMessageDelta', () => {
+    it('should broadcast message_delta event', () => {
+      sessionService.subscribe(mockClient);
+
+      const delta = { message_id: 'msg_01', index: 0, type: 'text' as const, delta: 'Hello' };
+      sessionService.broadcastMessageDelta(delta);
+
+      expect(mockClient.send).toHaveBeenCalledWith('message_delta', delta, undefined);
+    });
+  });
+
+  describe('broadcastModelChange', () => {
+    it('should broadcast model_change event', () => {
+      sessionService.subscribe(mockClient);
+
+      sessionService.broadcastModelChange('opus', 'sonnet');
+
+      expect(mockClient.send).toHaveBeenCalledWith('model_change', { model: 'opus', previous_model: 'sonnet' }, 'run-1');
+    });
+  });
+
+  describe('broadcastPermissionModeChange', () => {
+    it('should broadcast permission_mode_change event', () => {
+      sessionService.subscribe(mockClient);
+
+      sessionService.broadcastPermissionModeChange('plan', 'default');
+
+      expect(mockClient.send).toHaveBeenCalledWith('permission_mode_change', { mode: 'plan', previous_mode: 'default' }, 'run-1');
+    });
+  });
+
+  describe('broadcastQueueUpdate', () => {
+    it('should broadcast queue_update event', () => {
+      sessionService.subscribe(mockClient);
+
+      const queue = [{ id: 'queue-1', content: 'Hello', position: 1, queued_at: '2024-01-01T00:00:00.000Z' }];
+      sessionService.broadcastQueueUpdate(queue);
+
+      expect(mockClient.send).toHaveBeenCalledWith('queue_update', { queue }, 'run-1');
+    });
+  });
+
+  describe('broadcastActionUpdate', () => {
+    it('should broadcast action_update event', () => {
+      sessionService.subscribe(mockClient);
+
+      const pendingActions = [
+        { type: 'approve_tool', tool_use_id: 'tool-1', content: { tool_name: 'Bash', input: { command: 'ls' } } },
+      ];
+      sessionService.broadcastActionUpdate(pendingActions);
+
+      expect(mockClient.send).toHaveBeenCalledWith('action_update', { pending_actions: pendingActions }, 'run-1');
+    });
+  });
+
+  describe('broadcastUsageUpdate', () => {
+    it('should broadcast usage_update event', () => {
+      sessionService.subscribe(mockClient);
+
+      const tokens = { input_tokens: 10, output_tokens: 5, cache_read_input_tokens: 0, cache_creation_input_tokens: 0 };
+      const turn = {
+        turn: 1,
+        time: '2024-01-01T00:00:00.000Z',
+        subtype: 'success',
+        cost_usd: 0.001,
+        duration_ms: 100,
+        duration_api_ms: 80,
+        num_turns: 1,
+        tokens,
+        models: {},
+      };
+      const session = { turns: 1, cost_usd: 0.001, duration_ms: 100, duration_api_ms: 80, num_turns: 1, tokens, models: {} };
+      sessionService.broadcastUsageUpdate(turn, session);
+
+      expect(mockClient.send).toHaveBeenCalledWith('usage_update', { turn, session }, 'run-1');
     });
   });
 
@@ -126,7 +204,103 @@ describe('SessionService', () => {
       expect(mockClient.send).toHaveBeenCalledWith('init', {
         messages,
         status: 'stable',
-      });
+      }, 'run-0');
+    });
+  });
+
+  describe('event replay', () => {
+    it('should assign increasing ids to replayable events only', () => {
+      sessionService.subscribe(mockClient);
+
+      sessionService.broadcastStatusChange('running');
+      sessionService.broadcastMessageDelta({ message_id: 'msg_01', index: 0, type: 'text', delta: 'Hi' });
+      sessionService.broadcastStatusChange('stable');
+
+      expect((mockClient.send as ReturnType<typeof vi.fn>).mock.calls.map(call => call[2])).toEqual(['run-1', undefined, 'run-2']);
+      expect(sessionService.getLastEventId()).toBe('run-2');
+    });
+
+    it('should return events after the given id', () => {
+      sessionService.broadcast('a', 1);
+      sessionService.broadcast('b', 2);
+      sessionService.broadcast('c', 3);
+
+      expect(sessionService.getEventsSince('run-1')).toEqual([
+        { id: 'run-2', event: 'b', data: 2 },
+        { id: 'run-3', event: 'c', data: 3 },
+      ]);
+      expect(sessionService.getEventsSince('run-3')).toEqual([]);
+    });
+
+    it('should return null when the id aged out of the buffer or is unknown', () => {
+      const service = new SessionService({ eventBufferSize: 2, bootId: 'run' });
+      service.broadcast('a', 1);
+      service.broadcast('b', 2);
+      service.broadcast('c', 3);
+
+      expect(service.getEventsSince('run-0')).toBeNull();
+      expect(service.getEventsSince('run-1')).toEqual([
+        { id: 'run-2', event: 'b', data: 2 },
+        { id: 'run-3', event: 'c', data: 3 },
+      ]);
+      expect(service.getEventsSince('run-10')).toBeNull();
+      expect(service.getEventsSince('abc')).toBeNull();
+    });
+
+    it('should not replay ids from a previous server run', () => {
+      const previousRun = new SessionService({ bootId: 'before' });
+      previousRun.broadcast('a', 1);
+      const lastSeen = previousRun.getLastEventId();
+
+      const currentRun = new SessionService({ bootId: 'after' });
+      currentRun.broadcast('b', 2);
+      currentRun.broadcast('c', 3);
+
+      // Same sequence number, different run: a full init is needed
+      expect(lastSeen).toBe('before-1');
+      expect(currentRun.getEventsSince(lastSeen)).toBeNull();
+      expect(currentRun.getEventsSince('2')).toBeNull();
+    });
+
+    it('should generate a different boot id for each instance by default', () => {
+      expect(new SessionService().getLastEventId()).not.toBe(new SessionService().getLastEventId());
+    });
+
+    it('should broadcast a fresh init and drop replayable events', () => {
+      sessionService.subscribe(mockClient);
+      sessionService.broadcast('message_update', { id: 0 });
+
+      sessionService.broadcastInit([], 'stable');
+
+      expect(mockClient.send).toHaveBeenLastCalledWith('init', { messages: [], status: 'stable' }, 'run-2');
+      // Clients that resume from before the init get a full init instead of a replay
+      expect(sessionService.getEventsSince('run-0')).toBeNull();
+      expect(sessionService.getEventsSince('run-1')).toBeNull();
+      expect(sessionService.getEventsSince('run-2')).toEqual([]);
+
+      sessionService.broadcast('status_change', { status: 'running' });
+      expect(sessionService.getEventsSince('run-2')).toEqual([{ id: 'run-3', event: 'status_change', data: { status: 'running' } }]);
+    });
+
+    it('should replay events with their ids', () => {
+      sessionService.broadcast('a', 1);
+      sessionService.broadcast('b', 2);
+
+      sessionService.replayEvents(mockClient, sessionService.getEventsSince('run-0')!);
+
+      expect(mockClient.send).toHaveBeenNthCalledWith(1, 'a', 1, 'run-1');
+      expect(mockClient.send).toHaveBeenNthCalledWith(2, 'b', 2, 'run-2');
+    });
+  });
+
+  describe('closeAll', () => {
+    it('should close and remove all subscribers', () => {
+      sessionService.subscribe(mockClient);
+
+      sessionService.closeAll();
+
+      expect(mockClient.close).toHaveBeenCalledOnce();
+      expect(sessionService.getSubscriberCount()).toBe(0);
     });
   });
 
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import type { SDKResultMessage } from '@anthropic-ai/claude-agent-sdk';
+import { UsageTracker } from '../../services/usage.js';
+
+function resultMessage(overrides: Partial<Record<string, unknown>>): SDKResultMessage {
+  return {
+    type: 'result',
+    subtype: 'success',
+    duration_ms: 1000,
+    duration_api_ms: 800,
+    is_error: false,
+    num_turns: 1,
+    result: 'done',
+    stop_reason: null,
+    total_cost_usd: 0,
+    usage: { input_tokens: 0, output_tokens: 0, cache_read_input_tokens: 0, cache_creation_input_tokens: 0 },
+    modelUsage: {},
+    permission_denials: [],
+    uuid: '00000000-0000-0000-0000-000000000000',
+    session_id: 'session',
+    ...overrides,
+  } as unknown as SDKResultMessage;
+}
+
+function modelUsage(inputTokens: number, outputTokens: number, costUSD: number) {
+  return {
+    inputTokens,
+    outputTokens,
+    cacheReadInputTokens: 0,
+    cacheCreationInputTokens: 0,
+    webSearchRequests: 0,
+    costUSD,
+    contextWindow: 200000,
+    maxOutputTokens: 64000,
+  };
+}
+
+describe('UsageTracker', () => {
+  it('should record per-turn tokens from the result usage', () => {
+    const tracker = new UsageTracker();
+
+    const turn = tracker.record(resultMessage({
+      usage: { input_tokens: 100, output_tokens: 20, cache_read_input_tokens: 500, cache_creation_input_tokens: 50 },
+      total_cost_usd: 0.05,
+      num_turns: 3,
+    }));
+
+    expect(turn.turn).toBe(1);
+    expect(turn.cost_usd).toBeCloseTo(0.05);
+    expect(turn.num_turns).toBe(3);
+    expect(turn.tokens).toEqual({
+      input_tokens: 100,
+      output_tokens: 20,
+      cache_read_input_tokens: 500,
+      cache_creation_input_tokens: 50,
+    });
+  });
+
+  it('should derive per-turn cost and model split from cumulative SDK counters', () => {
+    const tracker = new UsageTracker();
+
+    tracker.record(resultMessage({
+      total_cost_usd: 0.10,
+      modelUsage: { sonnet: modelUsage(100, 10, 0.10) },
+    }));
+    const second = tracker.record(resultMessage({
+      total_cost_usd: 0.15,
+      modelUsage: { sonnet: modelUsage(150, 15, 0.12), haiku: modelUsage(40, 4, 0.03) },
+    }));
+
+    expect(second.cost_usd).toBeCloseTo(0.05);
+    expect(second.models.sonnet.input_tokens).toBe(50);
+    expect(second.models.sonnet.cost_usd).toBeCloseTo(0.02);
+    expect(second.models.haiku.input_tokens).toBe(40);
+
+    const session = tracker.getSessionUsage();
+    expect(session.turns).toBe(2);
+    expect(session.cost_usd).toBeCloseTo(0.15);
+    expect(session.models.sonnet.input_tokens).toBe(150);
+    expect(session.models.haiku.output_tokens).toBe(4);
+    expect(session.duration_ms).toBe(2000);
+  });
+
+  it('should keep accumulating after the SDK counters restart', () => {
+    const tracker = new UsageTracker();
+
+    tracker.record(resultMessage({ total_cost_usd: 0.10 }));
+    tracker.resetBaseline();
+    const turn = tracker.record(resultMessage({ total_cost_usd: 0.02 }));
+
+    expect(turn.cost_usd).toBeCloseTo(0.02);
+    expect(tracker.getSessionUsage().cost_usd).toBeCloseTo(0.12);
+    expect(tracker.getTurns()).toHaveLength(2);
+  });
+});
@@ -92,6 +92,31 @@ describe('API Types', () => {
       expect(result.success).toBe(true);
     });
 
+    it('should validate raw message request with content blocks', () => {
+      const validRequest = {
+        content: [
+          { type: 'text', text: 'Review this' },
+          { type: 'image', source: { type: 'url', url: 'https://example.com/screenshot.png' } },
+          { type: 'document', source: { type: 'base64', media_type: 'application/pdf', data: 'JVBERi0=' } },
+        ],
+        type: 'raw',
+        parent_tool_use_id: 'toolu_123',
+      };
+
+      const result = PostMessageRequestSchema.safeParse(validRequest);
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject content blocks for user message request', () => {
+      const invalidRequest = {
+        content: [{ type: 'text', text: 'Hello' }],
+        type: 'user',
+      };
+
+      const result = PostMessageRequestSchema.safeParse(invalidRequest);
+      expect(result.success).toBe(false);
+    });
+
     it('should reject invalid type', () => {
       const invalidRequest = {
         content: 'Hello',
@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, mkdir, readFile, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { prepareAttachments, AttachmentError } from '../../utils/attachments.js';
+
+describe('prepareAttachments', () => {
+  let workingDirectory: string;
+  let uploadsRoot: string;
+
+  beforeEach(async () => {
+    workingDirectory = await mkdtemp(join(tmpdir(), 'attachments-test-'));
+    uploadsRoot = join(workingDirectory, 'uploads');
+    await mkdir(uploadsRoot);
+  });
+
+  afterEach(async () => {
+    await rm(workingDirectory, { recursive: true, force: true });
+  });
+
+  it('should convert base64 images to image blocks', async () => {
+    const data = Buffer.from('png-bytes').toString('base64');
+
+    const [prepared] = await prepareAttachments(
+      [{ type: 'base64', media_type: 'image/png', data, name: 'shot.png' }],
+      uploadsRoot
+    );
+
+    expect(prepared.block).toEqual({ type: 'image', source: { type: 'base64', media_type: 'image/png', data } });
+    expect(prepared.metadata).toEqual({
+      type: 'image',
+      media_type: 'image/png',
+      name: 'shot.png',
+      size: 9,
+      file_path: join(uploadsRoot, 'attachments', 'shot.png'),
+    });
+  });
+
+  it('should keep a copy of base64 attachments in the uploads folder', async () => {
+    const data = Buffer.from('jpeg-bytes').toString('base64');
+
+    const prepared = await prepareAttachments([
+      { type: 'base64', media_type: 'image/jpeg', data },
+      { type: 'base64', media_type: 'image/jpeg', data },
+    ], uploadsRoot);
+
+    expect(prepared.map(p => p.metadata.file_path)).toEqual([
+      join(uploadsRoot, 'attachments', 'attachment.jpg'),
+      join(uploadsRoot, 'attachments', 'attachment-1.jpg'),
+    ]);
+    await expect(readFile(prepared[1].metadata.file_path!, 'utf-8')).resolves.toBe('jpeg-bytes');
+  });
+
+  it('should load uploaded files and infer the media type', async () => {
+    const filePath = join(uploadsRoot, 'spec.pdf');
+    await writeFile(filePath, 'pdf-bytes');
+
+    const [prepared] = await prepareAttachments([{ type: 'file', file_path: filePath }], uploadsRoot);
+
+    expect(prepared.block).toEqual({
+      type: 'document',
+      source: { type: 'base64', media_type: 'application/pdf', data: Buffer.from('pdf-bytes').toString('base64') },
+      title: 'spec.pdf',
+    });
+    expect(prepared.metadata).toEqual({
+      type: 'document',
+      media_type: 'application/pdf',
+      name: 'spec.pdf',
+      size: 9,
+      file_path: filePath,
+    });
+  });
+
+  it('should send text files as plain text documents', async () => {
+    await writeFile(join(uploadsRoot, 'notes.txt'), 'hello');
+
+    const [prepared] = await prepareAttachments([{ type: 'file', file_path: 'notes.txt' }], uploadsRoot);
+
+    expect(prepared.block).toMatchObject({
+      type: 'document',
+      source: { type: 'text', media_type: 'text/plain', data: 'hello' },
+    });
+  });
+
+  it('should reject files outside of the uploads folder', async () => {
+    await writeFile(join(workingDirectory, 'secret.txt'), 'secret');
+
+    await expect(
+      prepareAttachments([{ type: 'file', file_path: '../secret.txt' }], uploadsRoot)
+    ).rejects.toThrow(AttachmentError);
+  });
+
+  it('should reject missing files and unsupported media types', async () => {
+    await expect(
+      prepareAttachments([{ type: 'file', file_path: 'missing.png' }], uploadsRoot)
+    ).rejects.toThrow('not found');
+
+    await expect(
+      prepareAttachments([{ type: 'base64', media_type: 'video/mp4', data: 'AAAA' }], uploadsRoot)
+    ).rejects.toThrow('Unsupported attachment media type: video/mp4');
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+vi.mock('../../utils/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+const { loadAuthConfig, authenticate, extractCredential, hasScope } = await import('../../utils/auth.js');
+
+describe('auth', () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    delete process.env.AUTH_TOKENS;
+    delete process.env.AUTH_TOKENS_FILE;
+    delete process.env.AUTH_HEALTH_PUBLIC;
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  describe('loadAuthConfig', () => {
+    it('should be disabled without tokens', () => {
+      expect(loadAuthConfig()).toEqual({ tokens: [], publicHealth: true });
+    });
+
+    it('should parse AUTH_TOKENS with scopes', () => {
+      process.env.AUTH_TOKENS = 'reader:read, writer, root:admin|read';
+
+      expect(loadAuthConfig().tokens).toEqual([
+        { name: 'env#1', token: 'reader', scopes: ['read'] },
+        { name: 'env#2', token: 'writer', scopes: ['read', 'write'] },
+        { name: 'env#3', token: 'root', scopes: ['admin', 'read'] },
+      ]);
+    });
+
+    it('should reject unknown scopes', () => {
+      process.env.AUTH_TOKENS = 'token:superuser';
+
+      expect(() => loadAuthConfig()).toThrow('unknown scope(s) superuser');
+    });
+
+    it('should load tokens from AUTH_TOKENS_FILE', async () => {
+      const dir = await mkdtemp(join(tmpdir(), 'auth-test-'));
+      try {
+        const file = join(dir, 'tokens.json');
+        await writeFile(file, JSON.stringify({ tokens: [{ name: 'ci', token: 'secret', scopes: ['write'] }] }));
+        process.env.AUTH_TOKENS_FILE = file;
+        process.env.AUTH_HEALTH_PUBLIC = 'false';
+
+        expect(loadAuthConfig()).toEqual({
+          tokens: [{ name: 'ci', token: 'secret', scopes: ['write'] }],
+          publicHealth: false,
+        });
+      } finally {
+        await rm(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('extractCredential', () => {
+    it('should read bearer tokens, API keys and access_token', () => {
+      expect(extractCredential({ authorization: 'Bearer abc' }, new URLSearchParams())).toBe('abc');
+      expect(extractCredential({ 'x-api-key': 'def' }, new URLSearchParams())).toBe('def');
+      expect(extractCredential({}, new URLSearchParams('access_token=ghi'))).toBe('ghi');
+      expect(extractCredential({ authorization: 'Basic xyz' }, new URLSearchParams())).toBeUndefined();
+    });
+  });
+
+  describe('authenticate', () => {
+    const config = {
+      tokens: [
+        { name: 'reader', token: 'r', scopes: ['read' as const] },
+        { name: 'admin', token: 'a', scopes: ['admin' as const] },
+      ],
+      publicHealth: true,
+    };
+
+    it('should allow everything when auth is disabled', () => {
+      expect(authenticate({ tokens: [], publicHealth: true }, {}, new URLSearchParams(), 'admin')).toEqual({
+        ok: true,
+        principal: null,
+      });
+    });
+
+    it('should return 401 for missing or invalid tokens', () => {
+      const missing = authenticate(config, {}, new URLSearchParams(), 'read');
+      const invalid = authenticate(config, { authorization: 'Bearer nope' }, new URLSearchParams(), 'read');
+
+      expect(missing).toMatchObject({ ok: false, problem: { status: 401, title: 'Unauthorized' } });
+      expect(invalid).toMatchObject({ ok: false, problem: { status: 401, detail: 'Invalid API token.' } });
+    });
+
+    it('should return 403 when the scope is insufficient', () => {
+      const result = authenticate(config, { authorization: 'Bearer r' }, new URLSearchParams(), 'write');
+
+      expect(result).toMatchObject({ ok: false, problem: { status: 403, title: 'Forbidden' } });
+    });
+
+    it('should treat admin as implying write and read', () => {
+      const result = authenticate(config, { 'x-api-key': 'a' }, new URLSearchParams(), 'write');
+
+      expect(result).toEqual({ ok: true, principal: { name: 'admin', scopes: ['admin'] } });
+      expect(hasScope({ name: 'admin', scopes: ['admin'] }, 'read')).toBe(true);
+      expect(hasScope({ name: 'writer', scopes: ['write'] }, 'admin')).toBe(false);
+    });
+  });
+});
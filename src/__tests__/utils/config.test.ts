@@ -1,7 +1,7 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { loadClaudeConfig } from '../../utils/config.js';
 import type { MCPServerStdioConfig } from '../../types/config.js';
-import { writeFile, unlink, mkdir } from 'fs/promises';
+import { writeFile, unlink, mkdir, rm } from 'fs/promises';
 import { join } from 'path';
 import { tmpdir } from 'os';
 
@@ -86,3 +86,46 @@ describe('loadClaudeConfig with --mcp-config', () => {
     expect(config).toBeDefined();
   });
 });
+
+describe('loadClaudeConfig agents', () => {
+  const workingDir = join(tmpdir(), 'test-claude-config-agents');
+
+  beforeEach(async () => {
+    await mkdir(join(workingDir, '.claude'), { recursive: true });
+  });
+
+  afterEach(async () => {
+    delete process.env.CLAUDE_MCP_CONFIG;
+    await rm(workingDir, { recursive: true, force: true });
+  });
+
+  it('should merge inline agents, later configs overriding by name', async () => {
+    await writeFile(join(workingDir, '.claude', 'config.json'), JSON.stringify({
+      agents: {
+        reviewer: { description: 'Reviews code', prompt: 'Review.' },
+        planner: { description: 'Plans', prompt: 'Plan.' },
+      },
+    }));
+    process.env.CLAUDE_MCP_CONFIG = JSON.stringify({
+      agents: { planner: { description: 'Plans better', prompt: 'Plan again.', model: 'opus' } },
+    });
+
+    const config = await loadClaudeConfig(workingDir);
+
+    expect(config.agents).toEqual({
+      reviewer: { description: 'Reviews code', prompt: 'Review.' },
+      planner: { description: 'Plans better', prompt: 'Plan again.', model: 'opus' },
+    });
+  });
+
+  it('should merge enabledSkills without duplicates', async () => {
+    await writeFile(join(workingDir, '.claude', 'config.json'), JSON.stringify({
+      enabledSkills: ['pdf', 'release-notes'],
+    }));
+    process.env.CLAUDE_MCP_CONFIG = JSON.stringify({ enabledSkills: ['pdf', 'xlsx'] });
+
+    const config = await loadClaudeConfig(workingDir);
+
+    expect(config.enabledSkills).toEqual(['pdf', 'release-notes', 'xlsx']);
+  });
+});
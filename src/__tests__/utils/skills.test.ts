@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, writeFile, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { discoverAllSkills, isSkillEnabledByDefault } from '../../utils/skills.js';
+import type { ResolvedConfig } from '../../types/config.js';
+
+describe('discoverAllSkills', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `skills-test-${Date.now()}`);
+    await mkdir(testDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  function makeConfig(overrides: Partial<ResolvedConfig> = {}): ResolvedConfig {
+    return {
+      workingDirectory: testDir,
+      permissionMode: 'default',
+      ...overrides,
+    };
+  }
+
+  async function writeSkill(dir: string, frontmatter: string, files: Record<string, string> = {}): Promise<void> {
+    await mkdir(dir, { recursive: true });
+    await writeFile(join(dir, 'SKILL.md'), `---\n${frontmatter}\n---\nInstructions.\n`);
+    for (const [file, content] of Object.entries(files)) {
+      await mkdir(join(dir, file, '..'), { recursive: true });
+      await writeFile(join(dir, file), content);
+    }
+  }
+
+  it('returns empty array when no skills exist', async () => {
+    const result = await discoverAllSkills(makeConfig());
+    expect(result.filter(s => s.source !== 'user')).toEqual([]);
+  });
+
+  it('discovers project skills with their frontmatter and bundled files', async () => {
+    const skillDir = join(testDir, '.claude', 'skills', 'pdf-tools');
+    await writeSkill(skillDir, 'name: pdf\ndescription: Extract text from PDF files\nallowed-tools: Read, Bash', {
+      'scripts/extract.py': 'print()',
+      'reference.md': '# Reference',
+      '.DS_Store': '',
+    });
+
+    const result = await discoverAllSkills(makeConfig());
+
+    expect(result.find(s => s.name === 'pdf')).toEqual({
+      name: 'pdf',
+      description: 'Extract text from PDF files',
+      allowedTools: ['Read', 'Bash'],
+      source: 'project',
+      pluginName: undefined,
+      path: skillDir,
+      files: ['reference.md', join('scripts', 'extract.py')],
+    });
+  });
+
+  it('uses the folder name as name and skips skills without description', async () => {
+    const skillsDir = join(testDir, '.claude', 'skills');
+    await writeSkill(join(skillsDir, 'changelog'), 'description: Write changelog entries');
+    await writeSkill(join(skillsDir, 'broken'), 'name: broken');
+    await mkdir(join(skillsDir, 'not-a-skill'), { recursive: true });
+
+    const result = await discoverAllSkills(makeConfig());
+    const names = result.filter(s => s.source === 'project').map(s => s.name);
+
+    expect(names).toEqual(['changelog']);
+  });
+
+  it('qualifies plugin skills with the plugin name', async () => {
+    const pluginDir = join(testDir, 'plugins', 'docs');
+    await writeSkill(join(pluginDir, 'skills', 'xlsx'), 'description: Edit spreadsheets');
+
+    const result = await discoverAllSkills(makeConfig({ sdkPlugins: [{ type: 'local', path: pluginDir }] }));
+
+    expect(result.find(s => s.source === 'plugin')).toMatchObject({
+      name: 'docs:xlsx',
+      pluginName: 'docs',
+    });
+  });
+
+  it('lets the first plugin win when plugin skills collide', async () => {
+    const first = join(testDir, 'plugins', 'first', 'docs');
+    const second = join(testDir, 'plugins', 'second', 'docs');
+    await writeSkill(join(first, 'skills', 'xlsx'), 'description: First');
+    await writeSkill(join(second, 'skills', 'xlsx'), 'description: Second');
+
+    const result = await discoverAllSkills(makeConfig({
+      sdkPlugins: [{ type: 'local', path: first }, { type: 'local', path: second }],
+    }));
+
+    expect(result.filter(s => s.name === 'docs:xlsx').map(s => s.description)).toEqual(['First']);
+  });
+});
+
+describe('isSkillEnabledByDefault', () => {
+  const config: ResolvedConfig = { workingDirectory: '/tmp/test', permissionMode: 'default' };
+
+  it('enables every skill when enabledSkills is not configured', () => {
+    expect(isSkillEnabledByDefault(config, 'pdf')).toBe(true);
+  });
+
+  it('only enables the listed skills otherwise', () => {
+    const restricted = { ...config, enabledSkills: ['docs:xlsx'] };
+    expect(isSkillEnabledByDefault(restricted, 'docs:xlsx')).toBe(true);
+    expect(isSkillEnabledByDefault(restricted, 'pdf')).toBe(false);
+  });
+});
@@ -51,6 +51,16 @@ describe('SSEClientImpl', () => {
       );
     });
 
+    it('should include the event id when provided', () => {
+      const client = new SSEClientImpl('test-id', mockResponse as Response);
+
+      client.send('test-event', { message: 'test' }, 'run-42');
+
+      expect(writeSpy).toHaveBeenCalledWith(
+        'id: run-42\nevent: test-event\ndata: {"message":"test"}\n\n'
+      );
+    });
+
     it('should handle complex data objects', () => {
       const client = new SSEClientImpl('test-id', mockResponse as Response);
       const data = { nested: { value: 123 }, array: [1, 2, 3] };
@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, writeFile, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { discoverAllSubagents, toAgentDefinitions } from '../../utils/subagents.js';
+import type { ResolvedConfig } from '../../types/config.js';
+
+describe('discoverAllSubagents', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `subagents-test-${Date.now()}`);
+    await mkdir(testDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  function makeConfig(overrides: Partial<ResolvedConfig> = {}): ResolvedConfig {
+    return {
+      workingDirectory: testDir,
+      permissionMode: 'default',
+      ...overrides,
+    };
+  }
+
+  it('returns empty array when no agents exist', async () => {
+    const result = await discoverAllSubagents(makeConfig());
+    expect(result.filter(a => a.source !== 'user')).toEqual([]);
+  });
+
+  it('discovers project-level agents with their frontmatter', async () => {
+    const agentsDir = join(testDir, '.claude', 'agents');
+    await mkdir(agentsDir, { recursive: true });
+    await writeFile(
+      join(agentsDir, 'reviewer.md'),
+      `---\nname: code-reviewer\ndescription: Reviews code\ntools: Read, Grep,Glob\nmodel: sonnet\n---\nYou review code.\n`
+    );
+
+    const result = await discoverAllSubagents(makeConfig());
+
+    expect(result.find(a => a.name === 'code-reviewer')).toEqual({
+      name: 'code-reviewer',
+      description: 'Reviews code',
+      prompt: 'You review code.',
+      tools: ['Read', 'Grep', 'Glob'],
+      model: 'sonnet',
+      source: 'project',
+      pluginName: undefined,
+      filePath: join(agentsDir, 'reviewer.md'),
+    });
+  });
+
+  it('accepts YAML lists and multi-line descriptions', async () => {
+    const agentsDir = join(testDir, '.claude', 'agents');
+    await mkdir(agentsDir, { recursive: true });
+    await writeFile(
+      join(agentsDir, 'planner.md'),
+      `---\ndescription: |\n  Plans work.\n  Use before large changes.\ntools:\n  - Read\n  - Grep\n---\nPlan.`
+    );
+
+    const planner = (await discoverAllSubagents(makeConfig())).find(a => a.name === 'planner');
+
+    expect(planner).toMatchObject({
+      description: 'Plans work.\nUse before large changes.',
+      tools: ['Read', 'Grep'],
+    });
+  });
+
+  it('uses the filename as name and skips agents without description', async () => {
+    const agentsDir = join(testDir, '.claude', 'agents');
+    await mkdir(agentsDir, { recursive: true });
+    await writeFile(join(agentsDir, 'tester.md'), `---\ndescription: Writes tests\n---\nWrite tests.`);
+    await writeFile(join(agentsDir, 'broken.md'), `---\nname: broken\n---\nNo description.`);
+
+    const names = (await discoverAllSubagents(makeConfig())).map(a => a.name);
+
+    expect(names).toContain('tester');
+    expect(names).not.toContain('broken');
+  });
+
+  it('discovers plugin agents', async () => {
+    const pluginDir = join(testDir, 'my-plugin');
+    await mkdir(join(pluginDir, 'agents'), { recursive: true });
+    await writeFile(join(pluginDir, 'agents', 'helper.md'), `---\ndescription: Helps\n---\nHelp.`);
+
+    const result = await discoverAllSubagents(makeConfig({ sdkPlugins: [{ type: 'local', path: pluginDir }] }));
+
+    expect(result.find(a => a.name === 'helper')).toMatchObject({ source: 'plugin', pluginName: 'my-plugin' });
+  });
+
+  it('lets inline config.json agents override files with the same name', async () => {
+    const agentsDir = join(testDir, '.claude', 'agents');
+    await mkdir(agentsDir, { recursive: true });
+    await writeFile(join(agentsDir, 'planner.md'), `---\ndescription: From file\n---\nPlan.`);
+
+    const result = await discoverAllSubagents(makeConfig({
+      agents: { planner: { description: 'Inline', prompt: 'Plan inline.', model: 'opus' } },
+    }));
+
+    const planners = result.filter(a => a.name === 'planner');
+    expect(planners).toEqual([
+      { name: 'planner', description: 'Inline', prompt: 'Plan inline.', model: 'opus', source: 'config' },
+    ]);
+  });
+});
+
+describe('toAgentDefinitions', () => {
+  it('converts subagents to SDK agent definitions', () => {
+    const definitions = toAgentDefinitions([
+      { name: 'reviewer', description: 'Reviews', prompt: 'Review.', tools: ['Read'], model: 'haiku', source: 'project' },
+      { name: 'custom', description: 'Custom model', prompt: 'Do.', model: 'gpt-4', source: 'config' },
+    ]);
+
+    expect(definitions).toEqual({
+      reviewer: { description: 'Reviews', prompt: 'Review.', tools: ['Read'], model: 'haiku' },
+      custom: { description: 'Custom model', prompt: 'Do.' },
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import request from 'supertest';
+import { createServer, type AddressInfo } from 'net';
+
+vi.mock('../../utils/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+const { isTelemetryEnabled, getPrometheusPort, createMetricsServer, startTelemetry, stopTelemetry } = await import('../../utils/telemetry.js');
+
+describe('telemetry', () => {
+  const originalEnv = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  it('should be enabled by CLAUDE_CODE_ENABLE_TELEMETRY', () => {
+    delete process.env.CLAUDE_CODE_ENABLE_TELEMETRY;
+    expect(isTelemetryEnabled()).toBe(false);
+
+    process.env.CLAUDE_CODE_ENABLE_TELEMETRY = '1';
+    expect(isTelemetryEnabled()).toBe(true);
+  });
+
+  it('should default PROMETHEUS_PORT to 9464', () => {
+    delete process.env.PROMETHEUS_PORT;
+    expect(getPrometheusPort()).toBe(9464);
+
+    process.env.PROMETHEUS_PORT = '9100';
+    expect(getPrometheusPort()).toBe(9100);
+
+    process.env.PROMETHEUS_PORT = 'invalid';
+    expect(getPrometheusPort()).toBe(9464);
+  });
+
+  it('should serve metrics in Prometheus text format', async () => {
+    const response = await request(createMetricsServer()).get('/metrics');
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toContain('text/plain');
+    expect(response.text).toContain('# TYPE claude_code_token_usage counter');
+  });
+
+  it('should bind the metrics server to the given host', async () => {
+    // Find a free port for PROMETHEUS_PORT
+    const probe = createServer();
+    await new Promise<void>(resolve => probe.listen(0, '127.0.0.1', resolve));
+    const { port } = probe.address() as AddressInfo;
+    await new Promise(resolve => probe.close(resolve));
+
+    process.env.CLAUDE_CODE_ENABLE_TELEMETRY = '1';
+    process.env.PROMETHEUS_PORT = String(port);
+
+    const server = await startTelemetry('127.0.0.1');
+    try {
+      expect(server?.address()).toMatchObject({ address: '127.0.0.1', port });
+    } finally {
+      await stopTelemetry();
+    }
+  });
+
+  it('should return 404 for other paths', async () => {
+    const response = await request(createMetricsServer()).get('/other');
+
+    expect(response.status).toBe(404);
+  });
+});
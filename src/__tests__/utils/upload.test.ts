@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { sanitizeFilename, resolveUploadDir, saveUpload, UploadPathError } from '../../utils/upload.js';
+
+describe('sanitizeFilename', () => {
+  it('should keep safe filenames', () => {
+    expect(sanitizeFilename('report-2024_v1.pdf')).toBe('report-2024_v1.pdf');
+  });
+
+  it('should drop directory components', () => {
+    expect(sanitizeFilename('../../etc/passwd')).toBe('passwd');
+    expect(sanitizeFilename('..\\..\\windows\\win.ini')).toBe('win.ini');
+  });
+
+  it('should replace unsafe characters and strip leading dots', () => {
+    expect(sanitizeFilename('my file (1).txt')).toBe('my_file_1_.txt');
+    expect(sanitizeFilename('.env')).toBe('env');
+    expect(sanitizeFilename('..')).toBe('upload');
+  });
+
+  it('should truncate long names but keep the extension', () => {
+    const name = sanitizeFilename(`${'a'.repeat(300)}.png`);
+    expect(name.length).toBe(200);
+    expect(name.endsWith('.png')).toBe(true);
+  });
+});
+
+describe('resolveUploadDir', () => {
+  it('should resolve the uploads folder inside the working directory', () => {
+    expect(resolveUploadDir('/work', 'uploads')).toBe('/work/uploads');
+    expect(resolveUploadDir('/work', 'uploads', 'images/2024')).toBe('/work/uploads/images/2024');
+  });
+
+  it('should reject paths outside of the uploads folder', () => {
+    expect(() => resolveUploadDir('/work', 'uploads', '../src')).toThrow(UploadPathError);
+    expect(() => resolveUploadDir('/work', 'uploads', '/etc')).toThrow(UploadPathError);
+    expect(() => resolveUploadDir('/work', '../outside')).toThrow(UploadPathError);
+  });
+});
+
+describe('saveUpload', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'upload-test-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should create the directory and write the file', async () => {
+    const filePath = await saveUpload(join(dir, 'nested'), 'a.txt', Buffer.from('hello'));
+
+    expect(filePath).toBe(join(dir, 'nested', 'a.txt'));
+    expect(await readFile(filePath, 'utf-8')).toBe('hello');
+  });
+
+  it('should not overwrite existing files', async () => {
+    const first = await saveUpload(dir, 'a.txt', Buffer.from('one'));
+    const second = await saveUpload(dir, 'a.txt', Buffer.from('two'));
+
+    expect(second).toBe(join(dir, 'a-1.txt'));
+    expect(await readFile(first, 'utf-8')).toBe('one');
+    expect(await readFile(second, 'utf-8')).toBe('two');
+  });
+});
@@ -1,7 +1,11 @@
 import 'dotenv/config';
 import { createServer } from './server.js';
+import { attachWebSocketServer } from './routes/ws.js';
 import { agentService } from './services/agent.js';
+import { sessionManager } from './services/session-manager.js';
 import { logger } from './utils/logger.js';
+import { startTelemetry, stopTelemetry } from './utils/telemetry.js';
+import { loadAuthConfig, isAuthEnabled } from './utils/auth.js';
 
 // Parse command line arguments
 if (process.argv.includes('--dangerously-skip-permissions')) {
@@ -15,11 +19,22 @@ async function main() {
   try {
     logger.info('Starting agentapi-bedrock-server...');
 
-    // Initialize agent service
+    // Start Prometheus metrics endpoint (when CLAUDE_CODE_ENABLE_TELEMETRY is set)
+    await startTelemetry(HOST);
+
+    // Initialize agent service for the default session
     await agentService.initialize();
 
+    // Load API tokens (authentication is disabled when none are configured)
+    const auth = loadAuthConfig();
+    if (isAuthEnabled(auth)) {
+      logger.info(`API authentication enabled (${auth.tokens.length} token(s))`);
+    } else {
+      logger.warn('API authentication disabled: set AUTH_TOKENS or AUTH_TOKENS_FILE to require API tokens');
+    }
+
     // Create and start server
-    const app = createServer();
+    const app = createServer({ auth });
 
     const server = app.listen(PORT, HOST, () => {
       logger.info(`Server listening on http://${HOST}:${PORT}`);
@@ -29,11 +44,22 @@ async function main() {
       logger.info('  GET  /messages        - Message history');
       logger.info('  POST /message         - Send message to agent');
       logger.info('  GET  /events          - SSE event stream');
+      logger.info('  GET  /ws              - WebSocket (events + message/action frames)');
       logger.info('  GET  /tool_status     - Tool execution status');
       logger.info('  GET  /action          - Get pending actions');
       logger.info('  POST /action          - Send action response (answer_question, approve_plan, stop_agent)');
+      logger.info('  GET  /queue           - Queued messages (queue mode)');
+      logger.info('  DELETE /queue/:id     - Cancel a queued message');
+      logger.info('  GET  /usage           - Token usage and cost');
+      logger.info('  GET  /sessions        - List sessions');
+      logger.info('  POST /sessions        - Create a new session');
+      logger.info('  DELETE /sessions/:id  - Delete a session');
+      logger.info('  *    /sessions/:id/*  - Session-scoped versions of the routes above');
     });
 
+    // WebSocket transport shares the HTTP server (upgrade requests on /ws)
+    const wss = attachWebSocketServer(server, { auth });
+
     // Graceful shutdown
     const shutdown = async () => {
       logger.info('Shutting down...');
@@ -42,7 +68,9 @@ async function main() {
         logger.info('HTTP server closed');
       });
 
-      await agentService.cleanup();
+      await sessionManager.cleanup();
+      wss.close();
+      await stopTelemetry();
 
       process.exit(0);
     };
@@ -1,14 +1,141 @@
 import { Router } from 'express';
-import { agentService } from '../services/agent.js';
+import { getSession } from './sessions.js';
 import { PostActionRequestSchema } from '../types/api.js';
-import type { PostActionResponse, GetActionResponse, ProblemJson } from '../types/api.js';
+import type { PostActionRequest, PostActionResponse, GetActionResponse, ProblemJson } from '../types/api.js';
+import type { AgentService } from '../services/agent.js';
+import { hasScope, insufficientScope, type AuthPrincipal } from '../utils/auth.js';
 import { logger } from '../utils/logger.js';
 
 const router = Router();
 
+/**
+ * Apply a validated action to the agent.
+ * Shared by POST /action and the WebSocket transport.
+ * @param principal Authenticated caller (null when authentication is disabled)
+ */
+export async function processActionRequest(
+  agent: AgentService,
+  action: PostActionRequest,
+  principal: AuthPrincipal | null = null
+): Promise<{ status: number; body: PostActionResponse | ProblemJson }> {
+  // Handle different action types
+  switch (action.type) {
+    case 'answer_question': {
+      // Check if agent is running (has an active question)
+      if (agent.getStatus() !== 'running') {
+        const error: ProblemJson = {
+          type: 'about:blank',
+          title: 'No active question',
+          status: 409,
+          detail: 'There is no active question to answer. The agent must be running and waiting for user input.',
+        };
+        return { status: 409, body: error };
+      }
+
+      // Send action response to agent
+      await agent.sendAction(action.answers);
+      break;
+    }
+
+    case 'approve_plan': {
+      // Check if agent is running (has an active plan)
+      if (agent.getStatus() !== 'running') {
+        const error: ProblemJson = {
+          type: 'about:blank',
+          title: 'No active plan',
+          status: 409,
+          detail: 'There is no active plan to approve. The agent must be running and waiting for plan approval.',
+        };
+        return { status: 409, body: error };
+      }
+
+      // Send plan approval to agent
+      await agent.approvePlan(action.approved);
+      break;
+    }
+
+    case 'approve_tool': {
+      // Check if the agent is waiting for this tool approval
+      if (!agent.hasPendingToolApproval(action.tool_use_id)) {
+        const error: ProblemJson = {
+          type: 'about:blank',
+          title: 'No pending tool approval',
+          status: 409,
+          detail: action.tool_use_id
+            ? `There is no pending tool approval for ${action.tool_use_id}.`
+            : 'There is no tool call waiting for approval.',
+        };
+        return { status: 409, body: error };
+      }
+
+      // Send tool decision to agent
+      await agent.approveTool(action);
+      break;
+    }
+
+    case 'set_model': {
+      if (!agent.isModelAllowed(action.model)) {
+        const error: ProblemJson = {
+          type: 'about:blank',
+          title: 'Model not allowed',
+          status: 400,
+          detail: `Model ${action.model} is not in the allowed models (see GET /models).`,
+        };
+        return { status: 400, body: error };
+      }
+
+      await agent.setModel(action.model);
+      break;
+    }
+
+    case 'set_permission_mode': {
+      // Escalating to bypassPermissions is reserved for admins
+      if (action.mode === 'bypassPermissions') {
+        if (!hasScope(principal, 'admin')) {
+          return { status: 403, body: insufficientScope('admin') };
+        }
+
+        if (!agent.isPermissionBypassAllowed()) {
+          const error: ProblemJson = {
+            type: 'about:blank',
+            title: 'Forbidden',
+            status: 403,
+            detail: 'Switching to bypassPermissions is disabled. Start the server with ALLOW_PERMISSION_BYPASS=true to allow it.',
+          };
+          return { status: 403, body: error };
+        }
+      }
+
+      await agent.setPermissionMode(action.mode);
+      break;
+    }
+
+    case 'stop_agent': {
+      // Stop the agent
+      await agent.stopAgent();
+      break;
+    }
+
+    default: {
+      // TypeScript should ensure this is unreachable
+      const error: ProblemJson = {
+        type: 'about:blank',
+        title: 'Unknown action type',
+        status: 400,
+        detail: 'Unknown action type',
+      };
+      return { status: 400, body: error };
+    }
+  }
+
+  const response: PostActionResponse = { ok: true };
+  return { status: 200, body: response };
+}
+
 router.get('/action', async (_req, res) => {
   try {
-    const pendingActions = agentService.getPendingActions();
+    const { agent } = getSession(res);
+    const pendingActions = agent.getPendingActions();
 
     const response: GetActionResponse = {
       pending_actions: pendingActions,
@@ -31,6 +158,8 @@ router.get('/action', async (_req, res) => {
 
 router.post('/action', async (req, res) => {
   try {
+    const { agent } = getSession(res);
+
     // Log request body for debugging
     logger.info('POST /action request body:', JSON.stringify(req.body));
 
@@ -49,64 +178,8 @@ router.post('/action', async (req, res) => {
       return res.status(400).json(error);
     }
 
-    const action = validation.data;
-
-    // Handle different action types
-    switch (action.type) {
-      case 'answer_question': {
-        // Check if agent is running (has an active question)
-        if (agentService.getStatus() !== 'running') {
-          const error: ProblemJson = {
-            type: 'about:blank',
-            title: 'No active question',
-            status: 409,
-            detail: 'There is no active question to answer. The agent must be running and waiting for user input.',
-          };
-          return res.status(409).json(error);
-        }
-
-        // Send action response to agent
-        await agentService.sendAction(action.answers);
-        break;
-      }
-
-      case 'approve_plan': {
-        // Check if agent is running (has an active plan)
-        if (agentService.getStatus() !== 'running') {
-          const error: ProblemJson = {
-            type: 'about:blank',
-            title: 'No active plan',
-            status: 409,
-            detail: 'There is no active plan to approve. The agent must be running and waiting for plan approval.',
-          };
-          return res.status(409).json(error);
-        }
-
-        // Send plan approval to agent
-        await agentService.approvePlan(action.approved);
-        break;
-      }
-
-      case 'stop_agent': {
-        // Stop the agent
-        await agentService.stopAgent();
-        break;
-      }
-
-      default: {
-        // TypeScript should ensure this is unreachable
-        const error: ProblemJson = {
-          type: 'about:blank',
-          title: 'Unknown action type',
-          status: 400,
-          detail: 'Unknown action type',
-        };
-        return res.status(400).json(error);
-      }
-    }
-
-    const response: PostActionResponse = { ok: true };
-    return res.json(response);
+    const { status, body } = await processActionRequest(agent, validation.data, res.locals.auth ?? null);
+    return res.status(status).json(body);
   } catch (error) {
     logger.error('Error processing action:', error);
 
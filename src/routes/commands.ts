@@ -0,0 +1,69 @@
+import { Router } from 'express';
+import { getSession } from './sessions.js';
+import { deliverUserMessage, runBuiltinCommand } from './message.js';
+import { findBuiltinCommand } from '../services/builtin-commands.js';
+import { RunCommandRequestSchema } from '../types/api.js';
+import type { ProblemJson } from '../types/api.js';
+import { logger } from '../utils/logger.js';
+
+const router = Router();
+
+/**
+ * POST /commands/:name
+ * Run a built-in command (/clear, /cost, ...), or a custom slash command (.md file):
+ * its expanded prompt is sent to the agent, or queued like POST /message when the agent is busy
+ */
+router.post('/commands/:name', async (req, res) => {
+  try {
+    const { agent } = getSession(res);
+
+    const validation = RunCommandRequestSchema.safeParse(req.body ?? {});
+    if (!validation.success) {
+      const error: ProblemJson = {
+        type: 'about:blank',
+        title: 'Invalid request',
+        status: 400,
+        detail: validation.error.message,
+      };
+      return res.status(400).json(error);
+    }
+
+    const { name } = req.params;
+    const args = validation.data.arguments.trim();
+
+    const builtin = findBuiltinCommand(name);
+    if (builtin) {
+      const { status, body } = await runBuiltinCommand(agent, builtin, args);
+      return res.status(status).json(body);
+    }
+
+    const command = await agent.expandSlashCommand(name, args);
+    if (!command) {
+      const error: ProblemJson = {
+        type: 'about:blank',
+        title: 'Command not found',
+        status: 404,
+        detail: `No slash command named "${name}"`,
+      };
+      return res.status(404).json(error);
+    }
+
+    // The transcript shows the command as if it had been typed
+    const content = `/${name} ${args}`.trim();
+    const { status, body } = await deliverUserMessage(agent, content, [], command);
+    return res.status(status).json(body);
+  } catch (error) {
+    logger.error('Error running slash command:', error);
+
+    const problemJson: ProblemJson = {
+      type: 'about:blank',
+      title: 'Internal server error',
+      status: 500,
+      detail: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+
+    return res.status(500).json(problemJson);
+  }
+});
+
+export default router;
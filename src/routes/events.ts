@@ -1,6 +1,5 @@
 import { Router } from 'express';
-import { agentService } from '../services/agent.js';
-import { sessionService } from '../services/session.js';
+import { getSession } from './sessions.js';
 import { SSEClientImpl } from '../utils/sse.js';
 import { logger } from '../utils/logger.js';
 
@@ -9,25 +8,37 @@ const router = Router();
 let clientIdCounter = 0;
 
 router.get('/events', (req, res) => {
+  const { agent, events } = getSession(res);
+
+  // Resume point: Last-Event-ID header (sent by EventSource on reconnect) or ?since=
+  // Ids that are malformed or from another server run get a full init instead of a replay
+  const since = req.header('Last-Event-ID') ?? (typeof req.query.since === 'string' ? req.query.since : undefined);
+
   // Generate unique client ID
   const clientId = `client_${++clientIdCounter}_${Date.now()}`;
 
   // Create SSE client
   const client = new SSEClientImpl(clientId, res);
 
-  // Send initial state
-  const initialMessages = agentService.getMessages();
-  const initialStatus = agentService.getStatus();
-  sessionService.sendInitialState(client, initialMessages, initialStatus);
+  // Replay only missed events when possible, otherwise send the full initial state
+  const missedEvents = since !== undefined ? events.getEventsSince(since) : null;
+  if (missedEvents) {
+    events.replayEvents(client, missedEvents);
+    logger.info(`SSE client ${clientId} resumed after event ${since} (${missedEvents.length} replayed)`);
+  } else {
+    const initialMessages = agent.getMessages();
+    const initialStatus = agent.getStatus();
+    events.sendInitialState(client, initialMessages, initialStatus);
+  }
 
   logger.info(`SSE client ${clientId} connected`);
 
   // Subscribe client to session
-  sessionService.subscribe(client);
+  events.subscribe(client);
 
   // Handle client disconnect
   req.on('close', () => {
-    sessionService.unsubscribe(clientId);
+    events.unsubscribe(clientId);
     logger.info(`SSE client ${clientId} disconnected`);
   });
 });
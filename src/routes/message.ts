@@ -1,64 +1,204 @@
 import { Router } from 'express';
-import { agentService } from '../services/agent.js';
+import { getSession } from './sessions.js';
 import { PostMessageRequestSchema } from '../types/api.js';
-import type { PostMessageResponse, ProblemJson } from '../types/api.js';
+import type { PostMessageRequest, PostMessageResponse, ProblemJson } from '../types/api.js';
+import type { AgentService } from '../services/agent.js';
+import { AttachmentError, type PreparedAttachment } from '../utils/attachments.js';
+import { parseSlashCommandInput, type ExpandedSlashCommand } from '../utils/slash-commands.js';
+import { BuiltinCommandError, findBuiltinCommand, type BuiltinCommand } from '../services/builtin-commands.js';
 import { logger } from '../utils/logger.js';
 
 const router = Router();
 
-router.post('/message', async (req, res) => {
-  try {
-    // Validate request body
-    const validation = PostMessageRequestSchema.safeParse(req.body);
+/**
+ * Send a user message, or queue it when the agent is busy and queue mode is enabled.
+ * Shared by POST /message and POST /commands/:name.
+ */
+export async function deliverUserMessage(
+  agent: AgentService,
+  content: string,
+  attachments: PreparedAttachment[],
+  command?: ExpandedSlashCommand
+): Promise<{ status: number; body: PostMessageResponse | ProblemJson }> {
+  // In queue mode, accept the message and deliver it when the current turn finishes
+  if (agent.getStatus() !== 'stable' && agent.isQueueEnabled()) {
+    const queued = agent.enqueueMessage(content, attachments, command);
 
-    if (!validation.success) {
-      const error: ProblemJson = {
+    const response: PostMessageResponse = {
+      ok: true,
+      queued: true,
+      queue_id: queued.id,
+      position: queued.position,
+    };
+    return { status: 202, body: response };
+  }
+
+  // Check if agent is stable
+  if (agent.getStatus() !== 'stable') {
+    const error: ProblemJson = {
+      type: 'about:blank',
+      title: 'Agent is busy',
+      status: 409,
+      detail: 'The agent is currently processing another request. Please wait until it becomes stable.',
+    };
+    return { status: 409, body: error };
+  }
+
+  // Send message to agent
+  await agent.sendMessage(content, attachments, command);
+
+  const response: PostMessageResponse = { ok: true };
+  return { status: 200, body: response };
+}
+
+/**
+ * Run a built-in command and record its output as a system message.
+ * Shared by POST /message and POST /commands/:name.
+ */
+export async function runBuiltinCommand(
+  agent: AgentService,
+  command: BuiltinCommand,
+  args: string
+): Promise<{ status: number; body: PostMessageResponse | ProblemJson }> {
+  // Commands that start an SDK turn are not queued
+  if (command.requiresIdle && agent.getStatus() !== 'stable') {
+    const error: ProblemJson = {
+      type: 'about:blank',
+      title: 'Agent is busy',
+      status: 409,
+      detail: 'The agent is currently processing another request. Please wait until it becomes stable.',
+    };
+    return { status: 409, body: error };
+  }
+
+  let output: string | null;
+  try {
+    output = await command.run(agent, args);
+  } catch (error) {
+    if (error instanceof BuiltinCommandError) {
+      const problem: ProblemJson = {
         type: 'about:blank',
-        title: 'Invalid request',
+        title: 'Invalid command arguments',
         status: 400,
-        detail: validation.error.message,
+        detail: error.message,
       };
-      return res.status(400).json(error);
+      return { status: 400, body: problem };
     }
+    throw error;
+  }
 
-    const { content, type } = validation.data;
-
-    if (type === 'user') {
-      // Check if agent is stable
-      if (agentService.getStatus() !== 'stable') {
-        const error: ProblemJson = {
-          type: 'about:blank',
-          title: 'Agent is busy',
-          status: 409,
-          detail: 'The agent is currently processing another request. Please wait until it becomes stable.',
-        };
-        return res.status(409).json(error);
+  if (output !== null) {
+    agent.addSystemMessage(output, { name: command.name, arguments: args });
+  }
+
+  const response: PostMessageResponse = { ok: true };
+  return { status: 200, body: response };
+}
+
+/**
+ * Deliver a validated message to the agent.
+ * Shared by POST /message and the WebSocket transport.
+ */
+export async function processMessageRequest(
+  agent: AgentService,
+  message: PostMessageRequest
+): Promise<{ status: number; body: PostMessageResponse | ProblemJson }> {
+  if (message.type === 'user') {
+    const { content } = message;
+
+    // Load attachments up front so that invalid ones are rejected before queueing
+    let attachments: PreparedAttachment[] = [];
+    if (message.attachments && message.attachments.length > 0) {
+      try {
+        attachments = await agent.prepareAttachments(message.attachments);
+      } catch (error) {
+        if (error instanceof AttachmentError) {
+          const problem: ProblemJson = {
+            type: 'about:blank',
+            title: 'Invalid attachment',
+            status: 400,
+            detail: error.message,
+          };
+          return { status: 400, body: problem };
+        }
+        throw error;
       }
+    }
 
-      // Send message to agent
-      await agentService.sendMessage(content);
+    // "/name args" runs a built-in or custom slash command; unknown commands are sent as plain text
+    let command: ExpandedSlashCommand | undefined;
+    const invocation = parseSlashCommandInput(content);
+    if (invocation) {
+      const builtin = findBuiltinCommand(invocation.name);
+      if (builtin) {
+        return runBuiltinCommand(agent, builtin, invocation.arguments);
+      }
+      command = await agent.expandSlashCommand(invocation.name, invocation.arguments) ?? undefined;
 
-      const response: PostMessageResponse = { ok: true };
-      return res.json(response);
-    } else if (type === 'raw') {
-      // Raw messages (direct terminal input) are not yet implemented
+      // Skills can be invoked by name too: refuse the ones disabled for this session
+      if (!command) {
+        const skill = await agent.getSkill(invocation.name);
+        if (skill && !skill.enabled) {
+          const error: ProblemJson = {
+            type: 'about:blank',
+            title: 'Skill disabled',
+            status: 403,
+            detail: `Skill "${skill.name}" is disabled for this session`,
+          };
+          return { status: 403, body: error };
+        }
+      }
+    }
+
+    return deliverUserMessage(agent, content, attachments, command);
+  } else if (message.type === 'raw') {
+    // Raw messages are not queued: they may target a specific tool use and must be delivered as-is
+    if (agent.getStatus() !== 'stable') {
       const error: ProblemJson = {
         type: 'about:blank',
-        title: 'Not implemented',
-        status: 501,
-        detail: 'Raw message type is not yet implemented.',
+        title: 'Agent is busy',
+        status: 409,
+        detail: 'The agent is currently processing another request. Please wait until it becomes stable.',
       };
-      return res.status(501).json(error);
-    } else {
-      // This should never happen due to schema validation
+      return { status: 409, body: error };
+    }
+
+    // Forward content blocks to the agent without flattening
+    await agent.sendRawMessage(message.content, message.parent_tool_use_id);
+
+    const response: PostMessageResponse = { ok: true };
+    return { status: 200, body: response };
+  } else {
+    // This should never happen due to schema validation
+    const error: ProblemJson = {
+      type: 'about:blank',
+      title: 'Invalid message type',
+      status: 400,
+      detail: `Invalid message type: ${(message as { type: string }).type}`,
+    };
+    return { status: 400, body: error };
+  }
+}
+
+router.post('/message', async (req, res) => {
+  try {
+    const { agent } = getSession(res);
+
+    // Validate request body
+    const validation = PostMessageRequestSchema.safeParse(req.body);
+
+    if (!validation.success) {
       const error: ProblemJson = {
         type: 'about:blank',
-        title: 'Invalid message type',
+        title: 'Invalid request',
         status: 400,
-        detail: `Invalid message type: ${type}`,
+        detail: validation.error.message,
       };
       return res.status(400).json(error);
     }
+
+    const { status, body } = await processMessageRequest(agent, validation.data);
+    return res.status(status).json(body);
   } catch (error) {
     logger.error('Error processing message:', error);
 
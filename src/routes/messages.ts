@@ -1,12 +1,90 @@
 import { Router } from 'express';
-import { agentService } from '../services/agent.js';
-import { MessagesQueryParamsSchema, type MessagesResponseBody } from '../types/api.js';
+import { basename } from 'path';
+import { getSession } from './sessions.js';
+import {
+  MessagesQueryParamsSchema,
+  MessagesExportQueryParamsSchema,
+  MessageAttachmentParamsSchema,
+  type MessagesQueryParams,
+  type MessagesResponseBody,
+  type ProblemJson,
+} from '../types/api.js';
+import { exportConversation } from '../services/export.js';
 import { logger } from '../utils/logger.js';
 
 const router = Router();
 
+function invalidQuery(detail: string): ProblemJson {
+  return {
+    type: 'about:blank',
+    title: 'Invalid query parameters',
+    status: 400,
+    detail,
+  };
+}
+
+/**
+ * Check combinations of the pagination parameters shared by /messages and /messages/export
+ * @returns Problem JSON for an invalid combination, null when valid
+ */
+function validatePagination(params: MessagesQueryParams): ProblemJson | null {
+  // Check cursor-based pagination first (before checking context)
+  if (params.after !== undefined && params.before !== undefined) {
+    return invalidQuery('Parameters "after" and "before" cannot be used together');
+  }
+
+  if (
+    (params.after !== undefined || params.before !== undefined) &&
+    (params.around !== undefined || params.context !== undefined)
+  ) {
+    return invalidQuery('Parameters "after"/"before" cannot be used with "around"/"context"');
+  }
+
+  if ((params.after !== undefined || params.before !== undefined) && params.direction !== undefined) {
+    return invalidQuery('Parameters "after"/"before" cannot be used with "direction"');
+  }
+
+  // Check around/context parameters
+  if (params.context !== undefined && params.around === undefined) {
+    return invalidQuery('Parameter "context" requires "around" to be specified');
+  }
+
+  if (params.around !== undefined && (params.limit !== undefined || params.direction !== undefined)) {
+    return invalidQuery('Parameter "around" cannot be used with "limit" or "direction"');
+  }
+
+  if (params.since !== undefined && params.until !== undefined && params.since > params.until) {
+    return invalidQuery('Parameter "since" must not be later than "until"');
+  }
+
+  return null;
+}
+
+function toPaginationOptions(params: MessagesQueryParams) {
+  return {
+    limit: params.limit,
+    direction: params.direction,
+    around: params.around,
+    context: params.context,
+    after: params.after,
+    before: params.before,
+    filter: {
+      role: params.role,
+      type: params.type,
+      status: params.status,
+      tool: params.tool,
+      since: params.since,
+      until: params.until,
+      q: params.q,
+      thread: params.thread,
+    },
+  };
+}
+
 router.get('/messages', (req, res) => {
   try {
+    const { agent } = getSession(res);
+
     // Parse and validate query parameters
     const parseResult = MessagesQueryParamsSchema.safeParse(req.query);
 
@@ -15,76 +93,21 @@ router.get('/messages', (req, res) => {
         errors: parseResult.error.errors,
         query: req.query,
       });
-      return res.status(400).json({
-        type: 'about:blank',
-        title: 'Invalid query parameters',
-        status: 400,
-        detail: parseResult.error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', '),
-      });
+      return res.status(400).json(
+        invalidQuery(parseResult.error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', '))
+      );
     }
 
     const params = parseResult.data;
 
     // Validate parameter combinations
-    // Check cursor-based pagination first (before checking context)
-    if (params.after !== undefined && params.before !== undefined) {
-      return res.status(400).json({
-        type: 'about:blank',
-        title: 'Invalid query parameters',
-        status: 400,
-        detail: 'Parameters "after" and "before" cannot be used together',
-      });
-    }
-
-    if (
-      (params.after !== undefined || params.before !== undefined) &&
-      (params.around !== undefined || params.context !== undefined)
-    ) {
-      return res.status(400).json({
-        type: 'about:blank',
-        title: 'Invalid query parameters',
-        status: 400,
-        detail: 'Parameters "after"/"before" cannot be used with "around"/"context"',
-      });
-    }
-
-    if ((params.after !== undefined || params.before !== undefined) && params.direction !== undefined) {
-      return res.status(400).json({
-        type: 'about:blank',
-        title: 'Invalid query parameters',
-        status: 400,
-        detail: 'Parameters "after"/"before" cannot be used with "direction"',
-      });
-    }
-
-    // Check around/context parameters
-    if (params.context !== undefined && params.around === undefined) {
-      return res.status(400).json({
-        type: 'about:blank',
-        title: 'Invalid query parameters',
-        status: 400,
-        detail: 'Parameter "context" requires "around" to be specified',
-      });
-    }
-
-    if (params.around !== undefined && (params.limit !== undefined || params.direction !== undefined)) {
-      return res.status(400).json({
-        type: 'about:blank',
-        title: 'Invalid query parameters',
-        status: 400,
-        detail: 'Parameter "around" cannot be used with "limit" or "direction"',
-      });
+    const problem = validatePagination(params);
+    if (problem) {
+      return res.status(400).json(problem);
     }
 
     // Get messages with pagination
-    const result = agentService.getMessagesWithPagination({
-      limit: params.limit,
-      direction: params.direction,
-      around: params.around,
-      context: params.context,
-      after: params.after,
-      before: params.before,
-    });
+    const result = agent.getMessagesWithPagination(toPaginationOptions(params));
 
     const response: MessagesResponseBody = {
       $schema: 'https://10.42.2.198:9000/schemas/MessagesResponseBody.json',
@@ -109,4 +132,85 @@ router.get('/messages', (req, res) => {
   }
 });
 
+/**
+ * GET /messages/export
+ * Download the conversation as Markdown, JSONL or standalone HTML
+ */
+router.get('/messages/export', (req, res) => {
+  try {
+    const { agent, id: sessionId } = getSession(res);
+
+    const parseResult = MessagesExportQueryParamsSchema.safeParse(req.query);
+
+    if (!parseResult.success) {
+      return res.status(400).json(
+        invalidQuery(parseResult.error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', '))
+      );
+    }
+
+    const params = parseResult.data;
+
+    const problem = validatePagination(params);
+    if (problem) {
+      return res.status(400).json(problem);
+    }
+
+    const { messages } = agent.getMessagesWithPagination(toPaginationOptions(params));
+    const exported = exportConversation(messages, params.format, { sessionId });
+
+    const date = new Date().toISOString().slice(0, 10);
+    res.setHeader('Content-Type', `${exported.contentType}; charset=utf-8`);
+    res.setHeader('Content-Disposition', `attachment; filename="conversation-${sessionId}-${date}.${exported.extension}"`);
+    return res.send(exported.body);
+  } catch (error) {
+    logger.error('Error handling /messages/export request', {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+
+    return res.status(500).json({
+      type: 'about:blank',
+      title: 'Internal server error',
+      status: 500,
+      detail: 'Failed to export messages',
+    });
+  }
+});
+
+/**
+ * GET /messages/:id/attachments/:index
+ * Download an image or document attached to a user message
+ */
+router.get('/messages/:id/attachments/:index', (req, res) => {
+  const { agent } = getSession(res);
+
+  const parseResult = MessageAttachmentParamsSchema.safeParse(req.params);
+  const attachment = parseResult.success ? agent.getAttachment(parseResult.data.id, parseResult.data.index) : null;
+
+  const notFound: ProblemJson = {
+    type: 'about:blank',
+    title: 'Attachment not found',
+    status: 404,
+    detail: `Message ${req.params.id} has no attachment ${req.params.index}`,
+  };
+
+  if (!attachment) {
+    return res.status(404).json(notFound);
+  }
+
+  res.type(attachment.media_type);
+  res.setHeader('Content-Disposition', `inline; filename="${basename(attachment.file_path)}"`);
+  return res.sendFile(attachment.file_path, (error) => {
+    if (!error) {
+      return;
+    }
+    logger.warn('Error sending attachment', { file_path: attachment.file_path, error: error.message });
+    if (!res.headersSent) {
+      res.removeHeader('Content-Type');
+      res.removeHeader('Content-Disposition');
+      res.status(404).json(notFound);
+    }
+  });
+});
+
 export default router;
@@ -0,0 +1,35 @@
+import { Router } from 'express';
+import { getSession } from './sessions.js';
+import type { GetModelsResponse, ProblemJson } from '../types/api.js';
+import { logger } from '../utils/logger.js';
+
+const router = Router();
+
+/**
+ * GET /models
+ * List the models that the set_model action can switch to
+ */
+router.get('/models', async (_req, res) => {
+  try {
+    const { agent } = getSession(res);
+
+    const response: GetModelsResponse = {
+      current: agent.getModel(),
+      models: await agent.listModels(),
+    };
+
+    res.json(response);
+  } catch (error) {
+    logger.error('Error listing models:', error);
+
+    const problemJson: ProblemJson = {
+      type: 'about:blank',
+      title: 'Internal server error',
+      status: 500,
+      detail: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+    res.status(500).json(problemJson);
+  }
+});
+
+export default router;
@@ -0,0 +1,33 @@
+import { Router } from 'express';
+import { getSession } from './sessions.js';
+import type { GetQueueResponse, ProblemJson } from '../types/api.js';
+
+const router = Router();
+
+router.get('/queue', (_req, res) => {
+  const { agent } = getSession(res);
+
+  const response: GetQueueResponse = {
+    queue: agent.getQueue(),
+  };
+
+  res.json(response);
+});
+
+router.delete('/queue/:id', (req, res) => {
+  const { agent } = getSession(res);
+
+  if (!agent.cancelQueuedMessage(req.params.id)) {
+    const error: ProblemJson = {
+      type: 'about:blank',
+      title: 'Queued message not found',
+      status: 404,
+      detail: `No queued message with id ${req.params.id}. It may have already been delivered.`,
+    };
+    return res.status(404).json(error);
+  }
+
+  return res.json({ ok: true });
+});
+
+export default router;
@@ -2,6 +2,7 @@ import { Router } from 'express';
 import type { Request, Response } from 'express';
 import { getAvailableResources } from '../services/resources.js';
 import { resolveConfig } from '../utils/config.js';
+import { getSession } from './sessions.js';
 import type { ResourcesResponse } from '../types/api.js';
 import { logger } from '../utils/logger.js';
 
@@ -13,11 +14,12 @@ const router = Router();
  */
 router.get('/resources', async (_req: Request, res: Response) => {
   try {
-    // Get current configuration
-    const config = await resolveConfig();
+    // Get current configuration for the session's working directory
+    const { agent, workingDirectory } = getSession(res);
+    const config = await resolveConfig({ workingDirectory });
 
-    // Get available resources
-    const resources = await getAvailableResources(config);
+    // Get available resources, with the skills enabled in this session
+    const resources = await getAvailableResources(config, name => agent.isSkillEnabled(name));
 
     const response: ResourcesResponse = {
       resources,
@@ -0,0 +1,163 @@
+import { Router } from 'express';
+import type { Request, Response, NextFunction } from 'express';
+import { stat } from 'fs/promises';
+import { isAbsolute } from 'path';
+import { sessionManager, DEFAULT_SESSION_ID, type AgentSession } from '../services/session-manager.js';
+import { CreateSessionRequestSchema } from '../types/api.js';
+import type { ProblemJson, SessionInfo, ListSessionsResponse } from '../types/api.js';
+import { logger } from '../utils/logger.js';
+
+const router = Router();
+
+function toSessionInfo(session: AgentSession): SessionInfo {
+  return {
+    id: session.id,
+    working_directory: session.workingDirectory,
+    status: session.agent.getStatus(),
+    created_at: session.createdAt,
+  };
+}
+
+/**
+ * Resolve the target session for a request.
+ * Session-scoped routes are mounted under /sessions/:sessionId; un-prefixed routes use the default session.
+ */
+export function resolveSession(req: Request, res: Response, next: NextFunction): void {
+  const sessionId = req.params.sessionId ?? DEFAULT_SESSION_ID;
+  const session = sessionManager.getSession(sessionId);
+
+  if (!session) {
+    const error: ProblemJson = {
+      type: 'about:blank',
+      title: 'Session not found',
+      status: 404,
+      detail: `Session ${sessionId} does not exist`,
+    };
+    res.status(404).json(error);
+    return;
+  }
+
+  res.locals.session = session;
+  next();
+}
+
+/**
+ * Get the session resolved by resolveSession()
+ */
+export function getSession(res: Response): AgentSession {
+  return (res.locals.session as AgentSession | undefined) ?? sessionManager.getDefaultSession();
+}
+
+router.get('/sessions', (_req, res) => {
+  const response: ListSessionsResponse = {
+    sessions: sessionManager.listSessions().map(toSessionInfo),
+  };
+  res.json(response);
+});
+
+router.get('/sessions/:sessionId', (req, res) => {
+  const session = sessionManager.getSession(req.params.sessionId);
+
+  if (!session) {
+    const error: ProblemJson = {
+      type: 'about:blank',
+      title: 'Session not found',
+      status: 404,
+      detail: `Session ${req.params.sessionId} does not exist`,
+    };
+    return res.status(404).json(error);
+  }
+
+  return res.json(toSessionInfo(session));
+});
+
+router.post('/sessions', async (req, res) => {
+  try {
+    const validation = CreateSessionRequestSchema.safeParse(req.body ?? {});
+
+    if (!validation.success) {
+      const error: ProblemJson = {
+        type: 'about:blank',
+        title: 'Invalid request',
+        status: 400,
+        detail: validation.error.message,
+      };
+      return res.status(400).json(error);
+    }
+
+    const { working_directory: workingDirectory } = validation.data;
+
+    if (workingDirectory !== undefined) {
+      const isDirectory = isAbsolute(workingDirectory) &&
+        await stat(workingDirectory).then(s => s.isDirectory(), () => false);
+
+      if (!isDirectory) {
+        const error: ProblemJson = {
+          type: 'about:blank',
+          title: 'Invalid working directory',
+          status: 400,
+          detail: `Working directory must be an existing absolute path: ${workingDirectory}`,
+        };
+        return res.status(400).json(error);
+      }
+    }
+
+    const session = await sessionManager.createSession({ workingDirectory });
+
+    return res.status(201).json(toSessionInfo(session));
+  } catch (error) {
+    logger.error('Error creating session:', error);
+
+    const problemJson: ProblemJson = {
+      type: 'about:blank',
+      title: 'Internal server error',
+      status: 500,
+      detail: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+
+    return res.status(500).json(problemJson);
+  }
+});
+
+router.delete('/sessions/:sessionId', async (req, res) => {
+  try {
+    const { sessionId } = req.params;
+
+    if (sessionId === DEFAULT_SESSION_ID) {
+      const error: ProblemJson = {
+        type: 'about:blank',
+        title: 'Cannot delete default session',
+        status: 409,
+        detail: 'The default session backs the un-prefixed routes and cannot be deleted.',
+      };
+      return res.status(409).json(error);
+    }
+
+    const deleted = await sessionManager.deleteSession(sessionId);
+
+    if (!deleted) {
+      const error: ProblemJson = {
+        type: 'about:blank',
+        title: 'Session not found',
+        status: 404,
+        detail: `Session ${sessionId} does not exist`,
+      };
+      return res.status(404).json(error);
+    }
+
+    return res.json({ ok: true });
+  } catch (error) {
+    logger.error('Error deleting session:', error);
+
+    const problemJson: ProblemJson = {
+      type: 'about:blank',
+      title: 'Internal server error',
+      status: 500,
+      detail: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+
+    return res.status(500).json(problemJson);
+  }
+});
+
+export default router;
@@ -0,0 +1,83 @@
+import { Router } from 'express';
+import { getSession } from './sessions.js';
+import { UpdateSkillRequestSchema } from '../types/api.js';
+import type { ProblemJson } from '../types/api.js';
+import { hasScope, insufficientScope } from '../utils/auth.js';
+import { logger } from '../utils/logger.js';
+
+const router = Router();
+
+/**
+ * GET /skills
+ * List the discovered Agent Skills (SKILL.md folders) with their enabled state for this session
+ */
+router.get('/skills', async (_req, res) => {
+  try {
+    const { agent } = getSession(res);
+
+    res.json({ skills: await agent.listSkills() });
+  } catch (error) {
+    logger.error('Error listing skills:', error);
+
+    const problemJson: ProblemJson = {
+      type: 'about:blank',
+      title: 'Internal server error',
+      status: 500,
+      detail: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+    res.status(500).json(problemJson);
+  }
+});
+
+/**
+ * PUT /skills/:name
+ * Enable or disable a skill for the rest of this session.
+ * Enabling a skill that is not listed in `enabledSkills` is reserved for admins.
+ */
+router.put('/skills/:name', async (req, res) => {
+  try {
+    const { agent } = getSession(res);
+
+    const validation = UpdateSkillRequestSchema.safeParse(req.body);
+    if (!validation.success) {
+      const error: ProblemJson = {
+        type: 'about:blank',
+        title: 'Invalid request',
+        status: 400,
+        detail: validation.error.message,
+      };
+      return res.status(400).json(error);
+    }
+
+    const { name } = req.params;
+    const { enabled } = validation.data;
+    const skill = await agent.getSkill(name);
+    if (!skill) {
+      const error: ProblemJson = {
+        type: 'about:blank',
+        title: 'Skill not found',
+        status: 404,
+        detail: `No skill named "${name}"`,
+      };
+      return res.status(404).json(error);
+    }
+
+    if (enabled && !agent.isSkillApproved(name) && !hasScope(res.locals.auth ?? null, 'admin')) {
+      return res.status(403).json(insufficientScope('admin'));
+    }
+
+    return res.json(await agent.setSkillEnabled(name, enabled));
+  } catch (error) {
+    logger.error('Error updating skill:', error);
+
+    const problemJson: ProblemJson = {
+      type: 'about:blank',
+      title: 'Internal server error',
+      status: 500,
+      detail: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+    return res.status(500).json(problemJson);
+  }
+});
+
+export default router;
@@ -1,13 +1,20 @@
 import { Router } from 'express';
-import { agentService } from '../services/agent.js';
+import { getSession } from './sessions.js';
 import type { StatusResponse } from '../types/api.js';
 
 const router = Router();
 
 router.get('/status', (_req, res) => {
+  const { agent } = getSession(res);
+
   const response: StatusResponse = {
     agent_type: 'claude',
-    status: agentService.getStatus(),
+    status: agent.getStatus(),
+    resumed: agent.isResumed(),
+    session_id: agent.getSdkSessionId() ?? undefined,
+    usage: agent.getSessionUsage(),
+    model: agent.getModel(),
+    permission_mode: agent.getPermissionMode(),
   };
 
   res.json(response);
@@ -1,12 +1,39 @@
 import { Router } from 'express';
-import { agentService } from '../services/agent.js';
-import type { ToolStatusResponseBody } from '../types/api.js';
+import { getSession } from './sessions.js';
+import type { Message, ToolExecution, ToolStatusResponseBody } from '../types/api.js';
 
 const router = Router();
 
+/**
+ * Nest the tool calls of subagents under the Task call that spawned them (threadId)
+ */
+function nestToolExecutions(messages: Message[]): ToolExecution[] {
+  const nodes = new Map<string, ToolExecution>();
+  for (const message of messages) {
+    if (message.toolUseId) {
+      nodes.set(message.toolUseId, { ...message });
+    }
+  }
+
+  const roots: ToolExecution[] = [];
+  for (const message of messages) {
+    const node = (message.toolUseId && nodes.get(message.toolUseId)) || { ...message };
+    const parent = message.threadId ? nodes.get(message.threadId) : undefined;
+    if (parent && parent !== node) {
+      (parent.children ??= []).push(node);
+    } else {
+      // Top-level call, or a subagent call whose Task is no longer active
+      roots.push(node);
+    }
+  }
+  return roots;
+}
+
 router.get('/tool_status', (_req, res) => {
+  const { agent } = getSession(res);
+
   // Get only currently active tool executions
-  const messages = agentService.getActiveToolExecutions();
+  const messages = nestToolExecutions(agent.getActiveToolExecutions());
   const response: ToolStatusResponseBody = {
     $schema: 'https://10.42.2.198:9000/schemas/ToolStatusResponseBody.json',
     messages,
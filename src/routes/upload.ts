@@ -0,0 +1,113 @@
+import { Router } from 'express';
+import type { Request, Response } from 'express';
+import multer from 'multer';
+import { getSession } from './sessions.js';
+import {
+  DEFAULT_UPLOAD_MAX_FILE_SIZE,
+  UploadPathError,
+  resolveUploadSubdir,
+  sanitizeFilename,
+  saveUpload,
+} from '../utils/upload.js';
+import { UploadFormSchema } from '../types/api.js';
+import type { ProblemJson, UploadResponse } from '../types/api.js';
+import { logger } from '../utils/logger.js';
+
+const router = Router();
+
+function parseMultipart(req: Request, res: Response, maxFileSize: number): Promise<void> {
+  const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: maxFileSize, files: 1 },
+  }).single('file');
+
+  return new Promise((resolve, reject) => {
+    upload(req, res, (error: unknown) => (error ? reject(error) : resolve()));
+  });
+}
+
+/**
+ * POST /upload
+ * Store a file (multipart field `file`) in the uploads folder of the working directory
+ */
+router.post('/upload', async (req: Request, res: Response) => {
+  let maxFileSize = DEFAULT_UPLOAD_MAX_FILE_SIZE;
+
+  try {
+    // Use the settings the session agent resolved at startup, so uploads and attachments agree
+    const { agent } = getSession(res);
+    const uploads = agent.getUploadSettings();
+    maxFileSize = uploads.maxFileSize;
+
+    await parseMultipart(req, res, maxFileSize);
+
+    const form = UploadFormSchema.safeParse(req.body ?? {});
+    if (!form.success) {
+      const error: ProblemJson = {
+        type: 'about:blank',
+        title: 'Invalid request',
+        status: 400,
+        detail: form.error.message,
+      };
+      res.status(400).json(error);
+      return;
+    }
+
+    if (!req.file) {
+      const error: ProblemJson = {
+        type: 'about:blank',
+        title: 'Invalid request',
+        status: 400,
+        detail: 'Missing multipart file field: file',
+      };
+      res.status(400).json(error);
+      return;
+    }
+
+    const dir = form.data.uploadPath ? resolveUploadSubdir(uploads.root, form.data.uploadPath) : uploads.root;
+    const filePath = await saveUpload(dir, sanitizeFilename(req.file.originalname), req.file.buffer);
+
+    logger.info(`Uploaded ${req.file.originalname} (${req.file.size} bytes) to ${filePath}`);
+
+    const response: UploadResponse = {
+      ok: true,
+      filePath,
+    };
+    res.json(response);
+  } catch (error) {
+    if (error instanceof multer.MulterError) {
+      const tooLarge = error.code === 'LIMIT_FILE_SIZE';
+      const problemJson: ProblemJson = {
+        type: 'about:blank',
+        title: tooLarge ? 'Payload too large' : 'Invalid request',
+        status: tooLarge ? 413 : 400,
+        detail: tooLarge ? `File exceeds the maximum upload size of ${maxFileSize} bytes` : error.message,
+      };
+      res.status(problemJson.status).json(problemJson);
+      return;
+    }
+
+    if (error instanceof UploadPathError) {
+      const problemJson: ProblemJson = {
+        type: 'about:blank',
+        title: 'Invalid request',
+        status: 400,
+        detail: error.message,
+      };
+      res.status(400).json(problemJson);
+      return;
+    }
+
+    logger.error('Error processing upload:', error);
+
+    const problemJson: ProblemJson = {
+      type: 'about:blank',
+      title: 'Internal server error',
+      status: 500,
+      detail: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+    res.status(500).json(problemJson);
+  }
+});
+
+export default router;
@@ -0,0 +1,18 @@
+import { Router } from 'express';
+import { getSession } from './sessions.js';
+import type { GetUsageResponse } from '../types/api.js';
+
+const router = Router();
+
+router.get('/usage', (_req, res) => {
+  const { agent } = getSession(res);
+
+  const response: GetUsageResponse = {
+    session: agent.getSessionUsage(),
+    turns: agent.getTurnUsage(),
+  };
+
+  res.json(response);
+});
+
+export default router;
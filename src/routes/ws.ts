@@ -0,0 +1,207 @@
+import type { Server, IncomingMessage } from 'http';
+import type { Duplex } from 'stream';
+import { WebSocketServer, type WebSocket, type RawData } from 'ws';
+import { sessionManager, DEFAULT_SESSION_ID, type AgentSession } from '../services/session-manager.js';
+import { processMessageRequest } from './message.js';
+import { processActionRequest } from './action.js';
+import {
+  PostMessageRequestSchema,
+  PostActionRequestSchema,
+  WsMessageFrameSchema,
+  WsRequestFrameSchema,
+} from '../types/api.js';
+import type { ProblemJson, WsResponseFrame } from '../types/api.js';
+import { WebSocketClientImpl } from '../utils/websocket.js';
+import { loadAuthConfig, authenticate, hasScope, insufficientScope, type AuthConfig, type AuthPrincipal } from '../utils/auth.js';
+import { logger } from '../utils/logger.js';
+
+// /ws for the default session, /sessions/:sessionId/ws for other sessions
+const WS_PATH_PATTERN = /^(?:\/sessions\/([^/]+))?\/ws\/?$/;
+
+let clientIdCounter = 0;
+
+function invalidRequest(detail: string): ProblemJson {
+  return {
+    type: 'about:blank',
+    title: 'Invalid request',
+    status: 400,
+    detail,
+  };
+}
+
+function rejectUpgrade(socket: Duplex, problem: ProblemJson): void {
+  const body = JSON.stringify(problem);
+  socket.end(
+    `HTTP/1.1 ${problem.status} ${problem.title}\r\n` +
+    'Content-Type: application/problem+json\r\n' +
+    (problem.status === 401 ? 'WWW-Authenticate: Bearer\r\n' : '') +
+    `Content-Length: ${Buffer.byteLength(body)}\r\n` +
+    'Connection: close\r\n\r\n' +
+    body
+  );
+}
+
+/**
+ * Handle one request frame and build the correlated response frame
+ */
+export async function handleRequestFrame(
+  session: AgentSession,
+  raw: string,
+  principal: AuthPrincipal | null = null
+): Promise<WsResponseFrame> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return { type: 'response', status: 400, body: invalidRequest('Frame is not valid JSON') };
+  }
+
+  const envelope = WsRequestFrameSchema.safeParse(parsed);
+  if (!envelope.success) {
+    return { type: 'response', status: 400, body: invalidRequest(envelope.error.message) };
+  }
+
+  const { id, type, ...fields } = envelope.data;
+
+  // Sending messages and actions needs the same scope as POST /message and POST /action
+  if (!hasScope(principal, 'write')) {
+    return { type: 'response', id, status: 403, body: insufficientScope('write') };
+  }
+
+  try {
+    if (type === 'message') {
+      const frame = WsMessageFrameSchema.safeParse(envelope.data);
+      const validation = frame.success
+        ? PostMessageRequestSchema.safeParse({
+          type: frame.data.message_type ?? 'user',
+          content: frame.data.content,
+          parent_tool_use_id: frame.data.parent_tool_use_id,
+          attachments: frame.data.attachments,
+        })
+        : frame;
+
+      if (!validation.success) {
+        return { type: 'response', id, status: 400, body: invalidRequest(validation.error.message) };
+      }
+
+      const { status, body } = await processMessageRequest(session.agent, validation.data);
+      return { type: 'response', id, status, body };
+    }
+
+    // Every other frame is an action (answer_question, approve_plan, stop_agent, ...)
+    const validation = PostActionRequestSchema.safeParse({ type, ...fields });
+    if (!validation.success) {
+      return { type: 'response', id, status: 400, body: invalidRequest(validation.error.message) };
+    }
+
+    const { status, body } = await processActionRequest(session.agent, validation.data, principal);
+    return { type: 'response', id, status, body };
+  } catch (error) {
+    logger.error(`Error processing WebSocket '${type}' frame:`, error);
+
+    const problemJson: ProblemJson = {
+      type: 'about:blank',
+      title: 'Internal server error',
+      status: 500,
+      detail: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+    return { type: 'response', id, status: 500, body: problemJson };
+  }
+}
+
+function handleConnection(
+  ws: WebSocket,
+  session: AgentSession,
+  since: string | undefined,
+  principal: AuthPrincipal | null
+): void {
+  const { agent, events } = session;
+  const clientId = `ws_${++clientIdCounter}_${Date.now()}`;
+  const client = new WebSocketClientImpl(clientId, ws);
+
+  // Same initial state / replay semantics as GET /events
+  const missedEvents = since !== undefined ? events.getEventsSince(since) : null;
+  if (missedEvents) {
+    events.replayEvents(client, missedEvents);
+  } else {
+    events.sendInitialState(client, agent.getMessages(), agent.getStatus());
+  }
+
+  events.subscribe(client);
+  logger.info(`WebSocket client ${clientId} connected (session: ${session.id})`);
+
+  ws.on('message', (data: RawData) => {
+    handleRequestFrame(session, data.toString(), principal)
+      .then(response => client.respond(response))
+      .catch(error => logger.error(`Error handling WebSocket frame from ${clientId}:`, error));
+  });
+
+  ws.on('close', () => {
+    events.unsubscribe(clientId);
+    logger.info(`WebSocket client ${clientId} disconnected`);
+  });
+
+  ws.on('error', (error) => {
+    logger.error(`WebSocket client ${clientId} error:`, error);
+  });
+}
+
+/**
+ * Serve the WebSocket transport on the HTTP server's upgrade requests
+ */
+export function attachWebSocketServer(server: Server, options: { auth?: AuthConfig } = {}): WebSocketServer {
+  const wss = new WebSocketServer({ noServer: true });
+  const auth = options.auth ?? loadAuthConfig();
+
+  server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const match = WS_PATH_PATTERN.exec(url.pathname);
+
+    if (!match) {
+      rejectUpgrade(socket, {
+        type: 'about:blank',
+        title: 'Not Found',
+        status: 404,
+        detail: `Cannot upgrade ${url.pathname}`,
+      });
+      return;
+    }
+
+    // Connecting needs the read scope (like GET /events); frames are checked for write
+    const authResult = authenticate(auth, req.headers, url.searchParams, 'read');
+    if (!authResult.ok) {
+      logger.warn(`Rejected WebSocket upgrade for ${url.pathname}: ${authResult.problem.title}`);
+      rejectUpgrade(socket, authResult.problem);
+      return;
+    }
+
+    let sessionId = DEFAULT_SESSION_ID;
+    if (match[1]) {
+      // A malformed percent-escape must not throw out of the upgrade listener
+      try {
+        sessionId = decodeURIComponent(match[1]);
+      } catch {
+        rejectUpgrade(socket, invalidRequest(`Invalid session id: ${match[1]}`));
+        return;
+      }
+    }
+    const session = sessionManager.getSession(sessionId);
+    if (!session) {
+      rejectUpgrade(socket, {
+        type: 'about:blank',
+        title: 'Session not found',
+        status: 404,
+        detail: `Session ${sessionId} does not exist`,
+      });
+      return;
+    }
+
+    const sinceParam = url.searchParams.get('since') ?? undefined;
+
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      handleConnection(ws, session, sinceParam, authResult.principal);
+    });
+  });
+
+  return wss;
+}
@@ -1,4 +1,4 @@
-import express from 'express';
+import express, { Router } from 'express';
 import type { Express } from 'express';
 import statusRouter from './routes/status.js';
 import messagesRouter from './routes/messages.js';
@@ -7,13 +7,22 @@ import eventsRouter from './routes/events.js';
 import toolStatusRouter from './routes/tool_status.js';
 import actionRouter from './routes/action.js';
 import resourcesRouter from './routes/resources.js';
+import queueRouter from './routes/queue.js';
+import usageRouter from './routes/usage.js';
+import uploadRouter from './routes/upload.js';
+import modelsRouter from './routes/models.js';
+import commandsRouter from './routes/commands.js';
+import skillsRouter from './routes/skills.js';
+import sessionsRouter, { resolveSession } from './routes/sessions.js';
 import { logger } from './utils/logger.js';
+import { loadAuthConfig, createAuthMiddleware, type AuthConfig } from './utils/auth.js';
 
-export function createServer(): Express {
+export function createServer(options: { auth?: AuthConfig } = {}): Express {
   const app = express();
+  const auth = options.auth ?? loadAuthConfig();
 
-  // Middleware
-  app.use(express.json());
+  // Middleware (the JSON limit leaves room for base64 attachments)
+  app.use(express.json({ limit: process.env.MAX_REQUEST_BODY_SIZE || '25mb' }));
   app.use(express.urlencoded({ extended: true }));
 
   // Request logging middleware
@@ -22,19 +31,38 @@ export function createServer(): Express {
     next();
   });
 
+  // Token authentication (no-op when no tokens are configured)
+  app.use(createAuthMiddleware(auth));
+
   // Health check endpoint
   app.get('/health', (_req, res) => {
     res.json({ status: 'ok' });
   });
 
-  // API Routes
-  app.use(statusRouter);
-  app.use(messagesRouter);
-  app.use(messageRouter);
-  app.use(eventsRouter);
-  app.use(toolStatusRouter);
-  app.use(actionRouter);
-  app.use(resourcesRouter);
+  // Session management routes
+  app.use(sessionsRouter);
+
+  // API Routes (shared by session-scoped and default-session mounts)
+  const apiRouter = Router();
+  apiRouter.use(statusRouter);
+  apiRouter.use(messagesRouter);
+  apiRouter.use(messageRouter);
+  apiRouter.use(eventsRouter);
+  apiRouter.use(toolStatusRouter);
+  apiRouter.use(actionRouter);
+  apiRouter.use(resourcesRouter);
+  apiRouter.use(queueRouter);
+  apiRouter.use(usageRouter);
+  apiRouter.use(uploadRouter);
+  apiRouter.use(modelsRouter);
+  apiRouter.use(commandsRouter);
+  apiRouter.use(skillsRouter);
+
+  // Session-scoped routes: /sessions/:sessionId/<route>
+  app.use('/sessions/:sessionId', resolveSession, apiRouter);
+
+  // Un-prefixed routes map to the default session (coder/agentapi compatible)
+  app.use(resolveSession, apiRouter);
 
   // 404 handler
   app.use((_req, res) => {
@@ -1,15 +1,66 @@
-import { query, type SDKMessage, type Query, type SDKUserMessage } from '@anthropic-ai/claude-agent-sdk';
-import type { Message } from '../types/api.js';
+import { query, type SDKMessage, type Query, type SDKUserMessage, type CanUseTool, type PermissionResult, type SDKResultMessage, type SDKPartialAssistantMessage, type HookInput, type HookJSONOutput, type Options } from '@anthropic-ai/claude-agent-sdk';
+import type { Message, Attachment, MessageAttachment, MessageFilter, ModelInfo, QueuedMessage, RawContentBlock, PendingAction, ApproveToolAction, TurnUsage, SessionUsage } from '../types/api.js';
+import { PermissionModeSchema } from '../types/api.js';
 import type { AgentStatus } from '../types/agent.js';
-import { sessionService } from './session.js';
+import type { PermissionMode, ResolvedConfig } from '../types/config.js';
+import { sessionService as defaultSessionService, type SessionService } from './session.js';
 import { logger } from '../utils/logger.js';
 import { resolveConfig } from '../utils/config.js';
+import { DEFAULT_UPLOADS_DIR, DEFAULT_UPLOAD_MAX_FILE_SIZE, isPathInside, resolveUploadDir } from '../utils/upload.js';
+import { prepareAttachments, type PreparedAttachment } from '../utils/attachments.js';
+import { discoverAllSubagents, toAgentDefinitions } from '../utils/subagents.js';
+import { expandSlashCommand, findSlashCommand, matchesToolRule, type ExpandedSlashCommand } from '../utils/slash-commands.js';
+import { discoverAllSkills, isSkillEnabledByDefault, type SkillInfo } from '../utils/skills.js';
+import { createMessageStore, getSessionDataDir, MemoryMessageStore, type MessageStore } from './message-store.js';
+import { SessionStateStore } from './session-state.js';
+import { UsageTracker } from './usage.js';
+import { MessageIndex } from './message-index.js';
+import { metricsService } from './metrics.js';
 import { createWriteStream, type WriteStream } from 'fs';
 import { dirname } from 'path';
+import { randomUUID } from 'crypto';
 import { mkdir } from 'fs/promises';
 
 const MAX_MESSAGE_HISTORY = parseInt(process.env.MAX_MESSAGE_HISTORY || '100000', 10);
 
+// Tools that run a subagent; their tool_use id is the parent_tool_use_id of the subagent's messages
+const SUBAGENT_TOOLS = ['Task', 'Agent'];
+
+/**
+ * Assistant message currently being streamed (one per agent/subagent)
+ */
+interface StreamingMessage {
+  messageId: string;
+  blocks: Map<number, { type: string; toolUseId?: string; toolName?: string }>;
+}
+
+/**
+ * A tool call waiting for user approval via POST /action (approve_tool)
+ */
+interface PendingToolApproval {
+  toolName: string;
+  input: Record<string, unknown>;
+  decisionReason?: string;
+  blockedPath?: string;
+  suggestions?: Parameters<CanUseTool>[2]['suggestions'];
+  resolve: (result: PermissionResult) => void;
+}
+
+/**
+ * Per-instance options for AgentService.
+ * The defaults reproduce the single-session behaviour driven by environment variables.
+ */
+export interface AgentServiceOptions {
+  /** Session ID used to namespace persisted data (defaults to 'default') */
+  sessionId?: string;
+  /** SSE session used to broadcast updates (defaults to the shared sessionService) */
+  sessionService?: SessionService;
+  /** Working directory override (defaults to CLAUDE_WORKING_DIRECTORY or cwd) */
+  workingDirectory?: string;
+  /** Stream JSON output file (undefined: STREAM_JSON_OUTPUT_FILE, null: disabled) */
+  outputFile?: string | null;
+}
+
 // Helper class to manage streaming input
 class InputStreamManager {
   private resolveNext: ((value: SDKUserMessage) => void) | null = null;
@@ -43,6 +94,7 @@ export class AgentService {
   private queryProcessorPromise: Promise<void> | null = null;
   private status: AgentStatus = 'stable';
   private messages: Message[] = [];
+  private messageIndex = new MessageIndex();
   private activeToolExecutions: Message[] = [];
   private messageIdCounter = 0;
   private pendingQuestionToolUseId: string | null = null;
@@ -51,14 +103,61 @@ export class AgentService {
   private pendingPlanToolUseId: string | null = null;
   private pendingPlanInput: unknown | null = null;
   private pendingPlanResolve: ((value: boolean) => void) | null = null;
+  private usageTracker = new UsageTracker();
+  private streamingMessages: Map<string, StreamingMessage> = new Map();
+  private toolUses: Map<string, { name: string; input: Record<string, unknown> }> = new Map();
+  // Subagent name by the tool_use id of the Task call that spawned it
+  private subagents: Map<string, string> = new Map();
+  private pendingToolApprovals: Map<string, PendingToolApproval> = new Map();
+  private sessionAllowRules: string[] = [];
   private outputFileStream: WriteStream | null = null;
+  private messageStore: MessageStore = new MemoryMessageStore();
+  private sessionStateStore: SessionStateStore | null = null;
+  private sdkSessionId: string | null = null;
+  // Whether the running query reported its system/init message (a failed resume never does)
+  private sdkInitReceived = false;
+  private closing = false;
+  private resumed = false;
+  private queueEnabled = false;
+  private messageQueue: Array<{
+    id: string;
+    content: string;
+    attachments?: PreparedAttachment[];
+    command?: ExpandedSlashCommand;
+    queuedAt: string;
+  }> = [];
+  private uploadsRoot: string | null = null;
+  private uploadMaxFileSize = DEFAULT_UPLOAD_MAX_FILE_SIZE;
+  private model = 'default';
+  private allowedModels: string[] = [];
+  private permissionMode: PermissionMode = 'default';
+  private permissionBypassAllowed = false;
+  private config: ResolvedConfig | null = null;
+  // Frontmatter settings of the slash command running in the current turn
+  private commandTurn: { name: string; allowedTools: string[]; previousModel?: string } | null = null;
+  // Skills enabled or disabled for this session via PUT /skills/:name
+  private skillOverrides = new Map<string, boolean>();
+  // /compact invocation waiting for the SDK compact_boundary message
+  private pendingCompaction: NonNullable<Message['command']> | null = null;
+  private readonly sessionId: string;
+  private readonly sessionService: SessionService;
+  private readonly workingDirectory?: string;
+  private readonly outputFile?: string | null;
+
+  constructor(options: AgentServiceOptions = {}) {
+    this.sessionId = options.sessionId ?? 'default';
+    this.sessionService = options.sessionService ?? defaultSessionService;
+    this.workingDirectory = options.workingDirectory;
+    this.outputFile = options.outputFile;
+  }
 
   async initialize(): Promise<void> {
     try {
       logger.info('Initializing Claude Agent SDK with v1 API...');
+      this.closing = false;
 
       // Initialize output file stream if specified
-      const outputFile = process.env.STREAM_JSON_OUTPUT_FILE;
+      const outputFile = this.outputFile === undefined ? process.env.STREAM_JSON_OUTPUT_FILE : this.outputFile;
       if (outputFile) {
         try {
           // Ensure the directory exists
@@ -75,20 +174,52 @@ export class AgentService {
       }
 
       // Resolve configuration from .claude/config.json and environment variables
-      const config = await resolveConfig();
+      const config = await resolveConfig({ workingDirectory: this.workingDirectory });
+      this.config = config;
+
+      this.queueEnabled = config.messageQueue ?? false;
+      this.uploadsRoot = resolveUploadDir(config.workingDirectory, config.uploadsDir ?? DEFAULT_UPLOADS_DIR);
+      this.uploadMaxFileSize = config.uploadMaxFileSize ?? DEFAULT_UPLOAD_MAX_FILE_SIZE;
+
+      // Reload persisted message history
+      this.messageStore = createMessageStore({
+        type: config.messageStore,
+        workingDirectory: config.workingDirectory,
+        sessionId: this.sessionId,
+        retention: { maxMessages: MAX_MESSAGE_HISTORY },
+      });
+      const history = await this.messageStore.load();
+      if (history.length > 0) {
+        this.messages = history;
+        this.messageIndex.rebuild(history);
+        // Keep message IDs monotonic across restarts
+        this.messageIdCounter = history.reduce((max, m) => Math.max(max, m.id), -1) + 1;
+        logger.info(`Restored ${history.length} message(s) from ${config.messageStore} message store`);
+      }
 
-      const model = process.env.ANTHROPIC_MODEL || 'default';
+      this.model = process.env.ANTHROPIC_MODEL || 'default';
+      this.allowedModels = config.allowedModels ?? [];
+      this.permissionMode = config.permissionMode;
+      // Starting in bypass mode implies it may be re-enabled after switching away
+      this.permissionBypassAllowed = config.permissionMode === 'bypassPermissions' || (config.allowPermissionBypass ?? false);
 
       // Build query options with v1 API
       const queryOptions: Parameters<typeof query>[0] = {
         prompt: '', // Initial empty prompt - we'll use streaming input
         options: {
-          model,
+          model: this.model,
           cwd: config.workingDirectory,
           permissionMode: config.permissionMode,
+          // Stream partial assistant output (broadcast as message_delta)
+          includePartialMessages: true,
         },
       };
 
+      // The SDK only accepts bypassPermissions when explicitly allowed at startup
+      if (this.permissionBypassAllowed) {
+        queryOptions.options!.allowDangerouslySkipPermissions = true;
+      }
+
       // Add pathToClaudeCodeExecutable if configured via environment variable
       if (process.env.CLAUDE_CODE_EXECUTABLE_PATH) {
         logger.info(`Using custom Claude Code executable: ${process.env.CLAUDE_CODE_EXECUTABLE_PATH}`);
@@ -119,20 +250,52 @@ export class AgentService {
         queryOptions.options!.hooks = config.hooks;
       }
 
+      // Deny the Skill tool for skills disabled in this session, whatever the permission mode.
+      // Config hooks use the {command, args, env} shape, so only SDK matcher arrays are kept.
+      const configuredPreToolUse = queryOptions.options!.hooks?.PreToolUse;
+      queryOptions.options!.hooks = {
+        ...queryOptions.options!.hooks,
+        PreToolUse: [
+          ...(Array.isArray(configuredPreToolUse) ? configuredPreToolUse : []),
+          { matcher: 'Skill', hooks: [input => this.checkSkillToolUse(input)] },
+        ],
+      };
+
       // Add SDK plugins if resolved from settings.json
       if (config.sdkPlugins && config.sdkPlugins.length > 0) {
         logger.info(`Configuring ${config.sdkPlugins.length} plugin(s) from settings.json...`);
         queryOptions.options!.plugins = config.sdkPlugins;
       }
 
+      // Add subagents from agents/*.md files and config.json
+      const subagents = await discoverAllSubagents(config);
+      if (subagents.length > 0) {
+        logger.info(`Configuring ${subagents.length} subagent(s): ${subagents.map(a => a.name).join(', ')}`);
+        queryOptions.options!.agents = toAgentDefinitions(subagents);
+      }
+
       // Add setting sources for CLAUDE.md loading
       if (config.settingSources && config.settingSources.length > 0) {
         logger.info(`Configuring setting sources: ${config.settingSources.join(', ')}...`);
         queryOptions.options!.settingSources = config.settingSources;
       }
 
+      // Resume the previous SDK session if enabled and a session ID was persisted
+      if (config.resumeSession) {
+        this.sessionStateStore = new SessionStateStore(getSessionDataDir(config.workingDirectory, this.sessionId));
+        const state = await this.sessionStateStore.load();
+        if (state.sdkSessionId) {
+          logger.info(`Resuming SDK session: ${state.sdkSessionId}`);
+          queryOptions.options!.resume = state.sdkSessionId;
+          this.sdkSessionId = state.sdkSessionId;
+          this.resumed = true;
+        } else {
+          logger.info('No previous SDK session found, starting a new session');
+        }
+      }
+
       // Add canUseTool callback to handle AskUserQuestion and ExitPlanMode without timeout
-      queryOptions.options!.canUseTool = async (toolName: string, toolInput: unknown) => {
+      queryOptions.options!.canUseTool = async (toolName: string, toolInput: unknown, options: Parameters<CanUseTool>[2]) => {
         logger.debug('canUseTool callback triggered', {
           tool_name: toolName,
           has_input: !!toolInput,
@@ -195,24 +358,31 @@ export class AgentService {
           };
         }
 
-        // For all other tools, allow execution
-        return {
-          behavior: 'allow' as const,
-          updatedInput: toolInput as Record<string, unknown> | undefined,
-        };
-      };
+        // Tools allowed for the rest of the session by a previous "always allow" decision
+        if (this.isToolAllowedForSession(toolName, toolInput, config.workingDirectory)) {
+          logger.debug('Tool allowed by session rule', { tool_name: toolName });
+          metricsService.recordCodeEditDecision(this.getMetricsSessionId(), toolName, (toolInput ?? {}) as Record<string, unknown>, 'accept');
+          return {
+            behavior: 'allow' as const,
+            updatedInput: toolInput as Record<string, unknown> | undefined,
+          };
+        }
 
-      // Create input stream manager
-      this.inputStreamManager = new InputStreamManager();
+        // Tools granted by the allowed-tools frontmatter of the running slash command
+        if (this.commandTurn?.allowedTools.some(rule => matchesToolRule(rule, toolName, toolInput, config.workingDirectory))) {
+          logger.debug('Tool allowed by slash command', { tool_name: toolName, command: this.commandTurn.name });
+          metricsService.recordCodeEditDecision(this.getMetricsSessionId(), toolName, (toolInput ?? {}) as Record<string, unknown>, 'accept');
+          return {
+            behavior: 'allow' as const,
+            updatedInput: toolInput as Record<string, unknown> | undefined,
+          };
+        }
 
-      // Create query with streaming input
-      this.query = query({
-        prompt: this.inputStreamManager.stream(),
-        options: queryOptions.options,
-      });
+        // For all other tools, wait for user approval via /action
+        return this.requestToolApproval(toolName, (toolInput ?? {}) as Record<string, unknown>, options);
+      };
 
-      // Start processing query responses in the background
-      this.queryProcessorPromise = this.processQuery();
+      this.startQuery(queryOptions.options!);
 
       logger.info('Claude Agent SDK initialized successfully with v1 API');
     } catch (error) {
@@ -221,7 +391,24 @@ export class AgentService {
     }
   }
 
-  private async processQuery(): Promise<void> {
+  /**
+   * Create the SDK query with streaming input and process its responses in the background
+   */
+  private startQuery(options: Options): void {
+    this.inputStreamManager = new InputStreamManager();
+    this.sdkInitReceived = false;
+
+    // Cumulative SDK cost counters start from zero
+    this.usageTracker.resetBaseline();
+    this.query = query({
+      prompt: this.inputStreamManager.stream(),
+      options,
+    });
+
+    this.queryProcessorPromise = this.processQuery(options);
+  }
+
+  private async processQuery(options: Options): Promise<void> {
     if (!this.query) {
       return;
     }
@@ -233,11 +420,19 @@ export class AgentService {
     } catch (error) {
       logger.error('Error in query processor:', error);
 
+      // The persisted session could not be resumed (e.g. ~/.claude was lost with the container):
+      // forget it and start a new conversation instead of leaving the input stream without a consumer
+      if (options.resume && !this.sdkInitReceived && !this.closing) {
+        await this.recoverFromFailedResume(options);
+        return;
+      }
+
       // クエリプロセッサーでエラーが発生した場合、pending 状態をクリア
-      if (this.pendingQuestionToolUseId || this.pendingPlanToolUseId || this.activeToolExecutions.length > 0) {
+      if (this.pendingQuestionToolUseId || this.pendingPlanToolUseId || this.pendingToolApprovals.size > 0 || this.activeToolExecutions.length > 0) {
         logger.warn('Clearing pending states and active tool executions due to query processor error', {
           pending_question: !!this.pendingQuestionToolUseId,
           pending_plan: !!this.pendingPlanToolUseId,
+          pending_tools: this.pendingToolApprovals.size,
           active_tools: this.activeToolExecutions.length,
         });
 
@@ -247,14 +442,194 @@ export class AgentService {
         this.pendingPlanToolUseId = null;
         this.pendingPlanInput = null;
         this.pendingPlanResolve = null;
+        this.pendingToolApprovals.clear();
         this.activeToolExecutions = [];
+        this.toolUses.clear();
+        this.subagents.clear();
+        this.streamingMessages.clear();
       }
 
       this.setStatus('stable');
     }
   }
 
-  async sendMessage(content: string): Promise<void> {
+  private async recoverFromFailedResume(options: Options): Promise<void> {
+    logger.warn(`Could not resume SDK session ${options.resume}, starting a new session`);
+
+    if (this.sessionStateStore) {
+      try {
+        await this.sessionStateStore.clear();
+      } catch (error) {
+        logger.error('Failed to clear persisted session state:', error);
+      }
+    }
+    this.sdkSessionId = null;
+    this.resumed = false;
+
+    this.startQuery({ ...options, resume: undefined });
+    this.setStatus('stable');
+  }
+
+  /**
+   * Send a user message
+   * @param command Slash command the message invokes: the agent receives its expanded prompt
+   * while the transcript keeps `content` as typed
+   */
+  async sendMessage(content: string, attachments: PreparedAttachment[] = [], command?: ExpandedSlashCommand): Promise<void> {
+    const prompt = command ? command.prompt : content;
+    const options = command ? { command: { name: command.name, arguments: command.arguments } } : {};
+
+    if (attachments.length === 0) {
+      await this.sendUserInput(content, prompt, null, options, command);
+      return;
+    }
+
+    // Images and documents go before the prompt text
+    const blocks: RawContentBlock[] = attachments.map(a => a.block);
+    if (prompt) {
+      blocks.push({ type: 'text', text: prompt });
+    }
+    await this.sendUserInput(content, blocks, null, { ...options, attachments: attachments.map(a => a.metadata) }, command);
+  }
+
+  /**
+   * Find a custom slash command (.md file) and expand it with the given arguments
+   * @returns null when no command has this name
+   */
+  async expandSlashCommand(name: string, args: string): Promise<ExpandedSlashCommand | null> {
+    if (!this.config) {
+      throw new Error('Agent not initialized');
+    }
+
+    const command = await findSlashCommand(this.config, name);
+    if (!command) {
+      return null;
+    }
+    return expandSlashCommand(command, args, this.config.workingDirectory);
+  }
+
+  /**
+   * List the discovered Agent Skills with their enabled state for this session
+   */
+  async listSkills(): Promise<Array<SkillInfo & { enabled: boolean }>> {
+    if (!this.config) {
+      throw new Error('Agent not initialized');
+    }
+
+    const skills = await discoverAllSkills(this.config);
+    return skills.map(skill => ({ ...skill, enabled: this.isSkillEnabled(skill.name) }));
+  }
+
+  /**
+   * Find a discovered Agent Skill by name
+   * @returns null when no skill has this name
+   */
+  async getSkill(name: string): Promise<(SkillInfo & { enabled: boolean }) | null> {
+    const skills = await this.listSkills();
+    return skills.find(skill => skill.name === name) ?? null;
+  }
+
+  /**
+   * Enable or disable an Agent Skill for the rest of this session
+   * @returns null when no skill has this name
+   */
+  async setSkillEnabled(name: string, enabled: boolean): Promise<(SkillInfo & { enabled: boolean }) | null> {
+    const skill = await this.getSkill(name);
+    if (!skill) {
+      return null;
+    }
+
+    this.skillOverrides.set(name, enabled);
+    logger.info(`Skill ${name} ${enabled ? 'enabled' : 'disabled'} for this session`);
+    return { ...skill, enabled };
+  }
+
+  /**
+   * Check whether a skill may be used in this session.
+   * Without a session override, only skills listed in `enabledSkills` are enabled (all when it is not configured).
+   */
+  isSkillEnabled(name: string): boolean {
+    const override = this.skillOverrides.get(name);
+    if (override !== undefined) {
+      return override;
+    }
+    return this.isSkillApproved(name);
+  }
+
+  /**
+   * Check whether a skill is approved by the configuration: listed in `enabledSkills`,
+   * or any skill when it is not configured
+   */
+  isSkillApproved(name: string): boolean {
+    return this.config ? isSkillEnabledByDefault(this.config, name) : true;
+  }
+
+  /**
+   * PreToolUse hook for the Skill tool: hooks run before permission checks,
+   * so disabled skills stay blocked even in bypassPermissions mode.
+   * The SDK cannot hide individual skills from the model, so disabled skills are refused when called.
+   */
+  private async checkSkillToolUse(input: HookInput): Promise<HookJSONOutput> {
+    if (input.hook_event_name !== 'PreToolUse') {
+      return {};
+    }
+
+    const skill = (input.tool_input as { skill?: unknown } | undefined)?.skill;
+    if (typeof skill !== 'string') {
+      return {};
+    }
+
+    const name = skill.replace(/^\//, '');
+    if (this.isSkillEnabled(name)) {
+      return {};
+    }
+
+    logger.info(`Denied disabled skill: ${name}`);
+    return {
+      hookSpecificOutput: {
+        hookEventName: 'PreToolUse',
+        permissionDecision: 'deny',
+        permissionDecisionReason: `Skill "${name}" is disabled for this session`,
+      },
+    };
+  }
+
+  /**
+   * Uploads folder and maximum file size resolved at startup, shared by POST /upload and attachments
+   */
+  getUploadSettings(): { root: string; maxFileSize: number } {
+    if (!this.uploadsRoot) {
+      throw new Error('Agent not initialized');
+    }
+    return { root: this.uploadsRoot, maxFileSize: this.uploadMaxFileSize };
+  }
+
+  /**
+   * Load message attachments (base64 data or uploaded files) as content blocks.
+   * Throws AttachmentError for unsupported or missing attachments.
+   */
+  async prepareAttachments(attachments: Attachment[]): Promise<PreparedAttachment[]> {
+    if (!this.uploadsRoot) {
+      throw new Error('Agent not initialized');
+    }
+    return prepareAttachments(attachments, this.uploadsRoot);
+  }
+
+  /**
+   * Send a raw message: content blocks (text, image, document) are forwarded to the SDK as-is
+   */
+  async sendRawMessage(content: string | RawContentBlock[], parentToolUseId?: string): Promise<void> {
+    const transcriptText = typeof content === 'string' ? content : this.formatContentBlocks(content);
+    await this.sendUserInput(transcriptText, content, parentToolUseId ?? null);
+  }
+
+  private async sendUserInput(
+    transcriptText: string,
+    content: string | RawContentBlock[],
+    parentToolUseId: string | null,
+    messageOptions?: Pick<Message, 'attachments' | 'command'>,
+    command?: ExpandedSlashCommand
+  ): Promise<void> {
     if (!this.inputStreamManager) {
       throw new Error('Agent not initialized');
     }
@@ -266,9 +641,13 @@ export class AgentService {
     try {
       this.setStatus('running');
 
+      if (command) {
+        await this.beginCommandTurn(command);
+      }
+
       // Add user message to history
-      const userMessage = this.addMessage('user', content);
-      sessionService.broadcastMessageUpdate(userMessage);
+      const userMessage = this.addMessage('user', transcriptText, undefined, messageOptions);
+      this.sessionService.broadcastMessageUpdate(userMessage);
 
       logger.info('Sending message to agent...');
 
@@ -277,10 +656,10 @@ export class AgentService {
         type: 'user',
         message: {
           role: 'user',
-          content,
+          content: content as SDKUserMessage['message']['content'],
         },
-        parent_tool_use_id: null,
-        session_id: 'default',
+        parent_tool_use_id: parentToolUseId,
+        session_id: this.sdkSessionId ?? 'default',
       });
 
       // Wait a bit for processing to complete
@@ -295,6 +674,70 @@ export class AgentService {
     }
   }
 
+  /**
+   * Record the output of a built-in command (/cost, /model, ...) as a system message
+   */
+  addSystemMessage(content: string, command?: Message['command']): Message {
+    const message = this.addMessage('system', content, undefined, command ? { command } : undefined);
+    this.sessionService.broadcastMessageUpdate(message);
+    return message;
+  }
+
+  /**
+   * Clear the conversation: the transcript is emptied (message IDs stay monotonic)
+   * and the SDK starts over with an empty context
+   */
+  async clearConversation(): Promise<void> {
+    this.assertIdle();
+
+    this.messages = [];
+    this.messageIndex.clear();
+    try {
+      this.messageStore.prune(this.messageIdCounter);
+    } catch (error) {
+      logger.error('Failed to clear message store:', error);
+    }
+
+    this.sendSDKCommand('/clear');
+    // Connected clients replace their transcript; replays from before the clear are no longer possible
+    this.sessionService.broadcastInit([], this.status);
+    logger.info('Conversation cleared');
+  }
+
+  /**
+   * Summarize the conversation to free up context. Runs as a turn; the system message
+   * is recorded when the SDK reports the compaction
+   */
+  async compactConversation(instructions = ''): Promise<void> {
+    this.assertIdle();
+
+    this.setStatus('running');
+    this.pendingCompaction = { name: 'compact', arguments: instructions };
+    this.sendSDKCommand(instructions ? `/compact ${instructions}` : '/compact');
+    logger.info('Compacting conversation...');
+  }
+
+  private assertIdle(): void {
+    if (!this.inputStreamManager) {
+      throw new Error('Agent not initialized');
+    }
+    if (this.status !== 'stable') {
+      throw new Error('Agent is busy');
+    }
+  }
+
+  /**
+   * Send a slash command handled by the SDK itself, without recording it as a user message
+   */
+  private sendSDKCommand(content: string): void {
+    this.inputStreamManager!.send({
+      type: 'user',
+      message: { role: 'user', content },
+      parent_tool_use_id: null,
+      session_id: this.sdkSessionId ?? 'default',
+    });
+  }
+
   async sendAction(answers: Record<string, string | string[]>): Promise<void> {
     logger.debug('sendAction called', {
       answers_keys: Object.keys(answers),
@@ -339,7 +782,7 @@ export class AgentService {
       // Add user message to history for tracking
       const answerText = `Answers: ${JSON.stringify(answers, null, 2)}`;
       const userMessage = this.addMessage('user', answerText);
-      sessionService.broadcastMessageUpdate(userMessage);
+      this.sessionService.broadcastMessageUpdate(userMessage);
       logger.debug('User answer message created and broadcasted', { message_id: userMessage.id });
 
       // Resolve the canUseTool promise with the answers
@@ -418,7 +861,7 @@ export class AgentService {
       // Add user message to history for tracking
       const approvalText = approved ? '✅ Plan approved' : '❌ Plan rejected';
       const userMessage = this.addMessage('user', approvalText);
-      sessionService.broadcastMessageUpdate(userMessage);
+      this.sessionService.broadcastMessageUpdate(userMessage);
       logger.debug('User approval message created and broadcasted', { message_id: userMessage.id });
 
       // Resolve the canUseTool promise with the approval status
@@ -453,6 +896,152 @@ export class AgentService {
     }
   }
 
+  /**
+   * Block a tool call until the user allows or denies it via /action
+   */
+  private async requestToolApproval(
+    toolName: string,
+    input: Record<string, unknown>,
+    options: Parameters<CanUseTool>[2]
+  ): Promise<PermissionResult> {
+    const toolUseId = options.toolUseID;
+
+    logger.info('Tool approval required, waiting for user decision...', {
+      tool_name: toolName,
+      tool_use_id: toolUseId,
+    });
+
+    const decisionPromise = new Promise<PermissionResult>((resolve) => {
+      this.pendingToolApprovals.set(toolUseId, {
+        toolName,
+        input,
+        decisionReason: options.decisionReason,
+        blockedPath: options.blockedPath,
+        suggestions: options.suggestions,
+        resolve,
+      });
+    });
+
+    // Drop the pending approval if the SDK aborts the request (e.g. interrupt)
+    options.signal?.addEventListener('abort', () => {
+      if (this.pendingToolApprovals.delete(toolUseId)) {
+        logger.info('Tool approval request aborted', { tool_use_id: toolUseId });
+        this.sessionService.broadcastActionUpdate(this.getPendingActions());
+      }
+    });
+
+    this.sessionService.broadcastActionUpdate(this.getPendingActions());
+
+    // Wait indefinitely for user decision (no timeout)
+    const result = await decisionPromise;
+
+    logger.info('User tool decision received, returning to SDK', {
+      tool_name: toolName,
+      tool_use_id: toolUseId,
+      behavior: result.behavior,
+    });
+
+    return result;
+  }
+
+  hasPendingToolApproval(toolUseId?: string): boolean {
+    if (toolUseId === undefined) {
+      return this.pendingToolApprovals.size > 0;
+    }
+    return this.pendingToolApprovals.has(toolUseId);
+  }
+
+  async approveTool(action: Omit<ApproveToolAction, 'type'>): Promise<void> {
+    // Default to the only pending approval when tool_use_id is omitted
+    const toolUseId = action.tool_use_id ??
+      (this.pendingToolApprovals.size === 1 ? [...this.pendingToolApprovals.keys()][0] : undefined);
+
+    if (!toolUseId) {
+      const error = new Error(this.pendingToolApprovals.size === 0
+        ? 'No pending tool approval'
+        : 'tool_use_id is required when multiple tool approvals are pending');
+      logger.error('approveTool failed', {
+        pending_tools: this.pendingToolApprovals.size,
+        stack: error.stack,
+      });
+      throw error;
+    }
+
+    const pending = this.pendingToolApprovals.get(toolUseId);
+    if (!pending) {
+      const error = new Error(`No pending tool approval for ${toolUseId}`);
+      logger.error('approveTool failed: No pending tool approval', {
+        tool_use_id: toolUseId,
+        stack: error.stack,
+      });
+      throw error;
+    }
+
+    this.pendingToolApprovals.delete(toolUseId);
+    metricsService.recordCodeEditDecision(
+      this.getMetricsSessionId(),
+      pending.toolName,
+      action.updated_input ?? pending.input,
+      action.decision === 'allow' ? 'accept' : 'reject'
+    );
+
+    let result: PermissionResult;
+    if (action.decision === 'allow') {
+      result = {
+        behavior: 'allow',
+        updatedInput: action.updated_input ?? pending.input,
+      };
+
+      if (action.always_allow) {
+        const rule = action.pattern ?? pending.toolName;
+        if (!this.sessionAllowRules.includes(rule)) {
+          this.sessionAllowRules.push(rule);
+        }
+        // Let the SDK remember the decision as well, but no broader than the user's pattern
+        if (action.pattern) {
+          const match = action.pattern.match(/^([^(]+)\((.*)\)$/);
+          result.updatedPermissions = [{
+            type: 'addRules',
+            rules: [match ? { toolName: match[1].trim(), ruleContent: match[2] } : { toolName: action.pattern }],
+            behavior: 'allow',
+            destination: 'session',
+          }];
+        } else if (pending.suggestions && pending.suggestions.length > 0) {
+          result.updatedPermissions = pending.suggestions;
+        }
+        logger.info('Tool always allowed for this session', { rule });
+      }
+    } else {
+      result = {
+        behavior: 'deny',
+        message: action.message ?? 'User denied the tool use',
+      };
+    }
+
+    // Add user message to history for tracking
+    const decisionText = action.decision === 'allow'
+      ? `✅ Tool ${pending.toolName} allowed${action.updated_input ? ' (with edited input)' : ''}${action.always_allow ? ` (always allow: ${action.pattern ?? pending.toolName})` : ''}`
+      : `❌ Tool ${pending.toolName} denied${action.message ? `: ${action.message}` : ''}`;
+    const userMessage = this.addMessage('user', decisionText);
+    this.sessionService.broadcastMessageUpdate(userMessage);
+
+    logger.info('Resolving canUseTool promise with tool decision', {
+      tool_use_id: toolUseId,
+      decision: action.decision,
+    });
+    pending.resolve(result);
+
+    this.sessionService.broadcastActionUpdate(this.getPendingActions());
+  }
+
+  /**
+   * Check whether a tool call matches an "always allow" rule for this session.
+   * Rules are tool names or globs such as "mcp__github__*", optionally with a specifier such as "Bash(npm test:*)".
+   */
+  private isToolAllowedForSession(toolName: string, toolInput: unknown, cwd: string): boolean {
+    return this.sessionAllowRules.some(rule => matchesToolRule(rule, toolName, toolInput, cwd));
+  }
+
   async stopAgent(): Promise<void> {
     if (!this.query) {
       throw new Error('Agent not initialized');
@@ -464,11 +1053,19 @@ export class AgentService {
       // Interrupt the query
       await this.query.interrupt();
 
+      // Drop queued messages so the stopped agent doesn't immediately pick up the next prompt
+      if (this.messageQueue.length > 0) {
+        logger.info(`Clearing ${this.messageQueue.length} queued message(s) due to agent stop`);
+        this.messageQueue = [];
+        this.sessionService.broadcastQueueUpdate(this.getQueue());
+      }
+
       // Clear pending states and active tool executions
-      if (this.pendingQuestionToolUseId || this.pendingPlanToolUseId || this.activeToolExecutions.length > 0) {
+      if (this.pendingQuestionToolUseId || this.pendingPlanToolUseId || this.pendingToolApprovals.size > 0 || this.activeToolExecutions.length > 0) {
         logger.info('Clearing pending states and active tool executions due to agent stop', {
           pending_question: !!this.pendingQuestionToolUseId,
           pending_plan: !!this.pendingPlanToolUseId,
+          pending_tools: this.pendingToolApprovals.size,
           active_tools: this.activeToolExecutions.length,
         });
 
@@ -478,9 +1075,15 @@ export class AgentService {
         this.pendingPlanToolUseId = null;
         this.pendingPlanInput = null;
         this.pendingPlanResolve = null;
+        this.pendingToolApprovals.clear();
         this.activeToolExecutions = [];
+        this.toolUses.clear();
+        this.subagents.clear();
+        this.streamingMessages.clear();
       }
 
+      this.pendingCompaction = null;
+
       // Set status to stable
       this.setStatus('stable');
 
@@ -493,6 +1096,13 @@ export class AgentService {
 
   private async processSDKMessage(msg: SDKMessage): Promise<void> {
     try {
+      // Partial output is only broadcast (not recorded or written to the output file);
+      // the complete assistant message follows
+      if (msg.type === 'stream_event') {
+        this.handleStreamEvent(msg);
+        return;
+      }
+
       logger.debug('Processing SDK message:', JSON.stringify(msg, null, 2));
 
       // Write to output file if stream is configured
@@ -519,6 +1129,11 @@ export class AgentService {
             content_length: Array.isArray(msg.message?.content) ? msg.message.content.length : 0,
           });
 
+          // Messages of a subagent are tagged with the Task call that spawned it
+          const thread = this.getThreadFields(msg.parent_tool_use_id);
+          // Lets clients match the final messages with the message_delta events streamed for them
+          const sdkMessageId = typeof msg.message?.id === 'string' ? msg.message.id : undefined;
+
           // Extract text content
           const content = msg.message?.content || [];
           const textBlocks = content.filter((block: unknown): block is { type: 'text'; text: string } =>
@@ -528,8 +1143,8 @@ export class AgentService {
           if (textBlocks.length > 0) {
             const text = textBlocks.map((block: { type: 'text'; text: string }) => block.text).join('\n');
             if (text.trim()) {
-              const assistantMessage = this.addMessage('assistant', text);
-              sessionService.broadcastMessageUpdate(assistantMessage);
+              const assistantMessage = this.addMessage('assistant', text, undefined, { ...thread, sdkMessageId });
+              this.sessionService.broadcastMessageUpdate(assistantMessage);
               logger.debug('Assistant text message broadcasted', { message_id: assistantMessage.id });
             }
           }
@@ -553,11 +1168,25 @@ export class AgentService {
               const toolUseMessage = this.formatToolUse(toolUse);
               const agentMessage = this.addMessage('agent', toolUseMessage, undefined, {
                 toolUseId: toolUse.id,
+                toolName: toolUse.name,
+                toolInput: toolUse.input,
+                sdkMessageId,
+                ...thread,
               });
-              sessionService.broadcastMessageUpdate(agentMessage);
+              this.sessionService.broadcastMessageUpdate(agentMessage);
 
               // Add to active tool executions
               this.activeToolExecutions.push(agentMessage);
+              if (toolUse.id) {
+                this.toolUses.set(toolUse.id, {
+                  name: toolUse.name,
+                  input: (toolUse.input ?? {}) as Record<string, unknown>,
+                });
+                if (SUBAGENT_TOOLS.includes(toolUse.name)) {
+                  const subagentType = (toolUse.input as { subagent_type?: unknown } | undefined)?.subagent_type;
+                  this.subagents.set(toolUse.id, typeof subagentType === 'string' ? subagentType : 'general-purpose');
+                }
+              }
 
               // Handle special tool uses
               await this.handleToolUse(toolUse);
@@ -585,6 +1214,8 @@ export class AgentService {
             has_content: !!msg.message?.content,
           });
 
+          const thread = this.getThreadFields(msg.parent_tool_use_id);
+
           // Process tool results from SDK
           const content = msg.message?.content || [];
           const toolResults = content.filter((block: unknown): block is {
@@ -608,16 +1239,20 @@ export class AgentService {
 
               // Format tool result content
               let resultContent = '';
+              let contentType: Message['contentType'];
               if (typeof toolResult.content === 'string') {
                 resultContent = toolResult.content;
+                contentType = 'text';
               } else if (Array.isArray(toolResult.content)) {
                 // Extract text from content blocks
                 const textBlocks = toolResult.content.filter((block: unknown): block is { type: 'text'; text: string } =>
                   typeof block === 'object' && block !== null && 'type' in block && block.type === 'text'
                 );
                 resultContent = textBlocks.map((block: { type: 'text'; text: string }) => block.text).join('\n');
+                contentType = 'blocks';
               } else if (toolResult.content && typeof toolResult.content === 'object') {
                 resultContent = JSON.stringify(toolResult.content, null, 2);
+                contentType = 'json';
               }
 
               // Record tool result as tool_result message
@@ -625,14 +1260,19 @@ export class AgentService {
                 parentToolUseId: toolResult.tool_use_id,
                 status: toolResult.is_error ? 'error' : 'success',
                 error: toolResult.is_error ? resultContent : undefined,
+                toolName: this.toolUses.get(toolResult.tool_use_id)?.name,
+                isError: !!toolResult.is_error,
+                contentType,
+                ...thread,
               });
-              sessionService.broadcastMessageUpdate(toolResultMessage);
+              this.sessionService.broadcastMessageUpdate(toolResultMessage);
               logger.debug('Tool result recorded:', { tool_use_id: toolResult.tool_use_id, status: toolResultMessage.status });
 
-              // Remove corresponding agent message from active tool executions
+              // Remove corresponding agent message (and leftover subagent tool calls) from active tool executions
               this.activeToolExecutions = this.activeToolExecutions.filter(
-                msg => msg.toolUseId !== toolResult.tool_use_id
+                msg => msg.toolUseId !== toolResult.tool_use_id && msg.threadId !== toolResult.tool_use_id
               );
+              this.recordToolMetrics(toolResult.tool_use_id, !toolResult.is_error);
             } catch (toolResultError) {
               logger.error('Error processing individual tool result', {
                 tool_use_id: toolResult.tool_use_id,
@@ -656,16 +1296,19 @@ export class AgentService {
         }
       } else if (msg.type === 'result') {
         // Query completed
+        this.recordUsage(msg);
+
         if (msg.subtype === 'success') {
           logger.info('Query completed successfully');
 
-          // AskUserQuestion, ExitPlanMode が pending の場合、またはツールが実行中の場合は stable にしない
-          if (!this.pendingQuestionToolUseId && !this.pendingPlanToolUseId && this.activeToolExecutions.length === 0) {
+          // AskUserQuestion, ExitPlanMode, ツール承認が pending の場合、またはツールが実行中の場合は stable にしない
+          if (!this.pendingQuestionToolUseId && !this.pendingPlanToolUseId && this.pendingToolApprovals.size === 0 && this.activeToolExecutions.length === 0) {
             this.setStatus('stable');
           } else {
             logger.info('Keeping status as running due to pending user interaction or active tool executions', {
               has_pending_question: !!this.pendingQuestionToolUseId,
               has_pending_plan: !!this.pendingPlanToolUseId,
+              pending_tool_approvals: this.pendingToolApprovals.size,
               active_tool_executions: this.activeToolExecutions.length,
             });
           }
@@ -673,10 +1316,11 @@ export class AgentService {
           // エラー時は pending 状態とツール実行をクリアして stable に戻す
           logger.warn('Query completed with errors:', msg.errors);
 
-          if (this.pendingQuestionToolUseId || this.pendingPlanToolUseId || this.activeToolExecutions.length > 0) {
+          if (this.pendingQuestionToolUseId || this.pendingPlanToolUseId || this.pendingToolApprovals.size > 0 || this.activeToolExecutions.length > 0) {
             logger.warn('Clearing pending states and active tool executions due to error', {
               pending_question: !!this.pendingQuestionToolUseId,
               pending_plan: !!this.pendingPlanToolUseId,
+              pending_tools: this.pendingToolApprovals.size,
               active_tools: this.activeToolExecutions.length,
             });
 
@@ -686,7 +1330,11 @@ export class AgentService {
             this.pendingPlanToolUseId = null;
             this.pendingPlanInput = null;
             this.pendingPlanResolve = null;
+            this.pendingToolApprovals.clear();
             this.activeToolExecutions = [];
+            this.toolUses.clear();
+            this.subagents.clear();
+            this.streamingMessages.clear();
           }
 
           this.setStatus('stable');
@@ -702,9 +1350,144 @@ export class AgentService {
     }
   }
 
+  private getMetricsSessionId(): string {
+    return this.sdkSessionId ?? this.sessionId;
+  }
+
+  private recordToolMetrics(toolUseId: string, success: boolean): void {
+    const toolUse = this.toolUses.get(toolUseId);
+    if (!toolUse) {
+      return;
+    }
+    this.toolUses.delete(toolUseId);
+
+    const sessionId = this.getMetricsSessionId();
+    metricsService.recordToolCall(sessionId, toolUse.name, success ? 'success' : 'error');
+    if (success) {
+      metricsService.recordLinesOfCode(sessionId, toolUse.name, toolUse.input);
+    }
+  }
+
+  private recordUsage(msg: SDKResultMessage): void {
+    try {
+      const turn = this.usageTracker.record(msg);
+
+      const sessionId = this.getMetricsSessionId();
+      const models = Object.keys(turn.models).length > 0
+        ? turn.models
+        : { unknown: { ...turn.tokens, web_search_requests: 0, cost_usd: turn.cost_usd } };
+      for (const [model, usage] of Object.entries(models)) {
+        metricsService.recordTokenUsage(sessionId, model, 'input', usage.input_tokens);
+        metricsService.recordTokenUsage(sessionId, model, 'output', usage.output_tokens);
+        metricsService.recordTokenUsage(sessionId, model, 'cacheRead', usage.cache_read_input_tokens);
+        metricsService.recordTokenUsage(sessionId, model, 'cacheCreation', usage.cache_creation_input_tokens);
+        metricsService.recordCost(sessionId, model, usage.cost_usd);
+      }
+      metricsService.recordTurn(sessionId, turn.duration_ms);
+
+      logger.info('Turn usage', {
+        turn: turn.turn,
+        cost_usd: turn.cost_usd,
+        input_tokens: turn.tokens.input_tokens,
+        output_tokens: turn.tokens.output_tokens,
+        duration_ms: turn.duration_ms,
+      });
+      this.sessionService.broadcastUsageUpdate(turn, this.usageTracker.getSessionUsage());
+    } catch (error) {
+      logger.error('Failed to record usage:', error);
+    }
+  }
+
+  private handleStreamEvent(msg: SDKPartialAssistantMessage): void {
+    const streamKey = msg.parent_tool_use_id ?? '';
+    const { event } = msg;
+
+    switch (event.type) {
+      case 'message_start':
+        this.streamingMessages.set(streamKey, { messageId: event.message.id, blocks: new Map() });
+        break;
+
+      case 'content_block_start': {
+        const block = event.content_block;
+        this.streamingMessages.get(streamKey)?.blocks.set(event.index, block.type === 'tool_use'
+          ? { type: block.type, toolUseId: block.id, toolName: block.name }
+          : { type: block.type });
+        break;
+      }
+
+      case 'content_block_delta': {
+        const stream = this.streamingMessages.get(streamKey);
+        if (!stream) {
+          break;
+        }
+
+        const parentToolUseId = msg.parent_tool_use_id ?? undefined;
+        if (event.delta.type === 'text_delta') {
+          this.sessionService.broadcastMessageDelta({
+            message_id: stream.messageId,
+            index: event.index,
+            type: 'text',
+            delta: event.delta.text,
+            parent_tool_use_id: parentToolUseId,
+          });
+        } else if (event.delta.type === 'input_json_delta') {
+          const block = stream.blocks.get(event.index);
+          this.sessionService.broadcastMessageDelta({
+            message_id: stream.messageId,
+            index: event.index,
+            type: 'tool_input',
+            delta: event.delta.partial_json,
+            tool_use_id: block?.toolUseId,
+            tool_name: block?.toolName,
+            parent_tool_use_id: parentToolUseId,
+          });
+        }
+        break;
+      }
+
+      case 'message_stop':
+        this.streamingMessages.delete(streamKey);
+        break;
+    }
+  }
+
   private async handleSystemMessage(msg: { type: 'system'; subtype?: string; [key: string]: unknown }): Promise<void> {
+    // The SDK reports mode changes it makes itself (e.g. leaving plan mode after ExitPlanMode)
+    if (msg.subtype === 'init' || msg.subtype === 'status') {
+      const mode = PermissionModeSchema.safeParse(msg.permissionMode);
+      if (mode.success) {
+        this.updatePermissionMode(mode.data);
+      }
+    }
+
+    if (msg.subtype === 'compact_boundary') {
+      const metadata = msg.compact_metadata as { trigger?: string; pre_tokens?: number } | undefined;
+      const command = metadata?.trigger === 'manual' ? this.pendingCompaction ?? undefined : undefined;
+      this.pendingCompaction = null;
+
+      const tokens = metadata?.pre_tokens !== undefined ? ` (${metadata.pre_tokens} tokens before compaction)` : '';
+      this.addSystemMessage(`Conversation compacted${metadata?.trigger === 'auto' ? ' automatically' : ''}${tokens}`, command);
+      return;
+    }
+
     if (msg.subtype === 'init') {
       logger.info('System init message received');
+      this.sdkInitReceived = true;
+
+      // Capture the SDK session ID so the conversation can be resumed after restart
+      if (typeof msg.session_id === 'string' && msg.session_id !== this.sdkSessionId) {
+        this.sdkSessionId = msg.session_id;
+        logger.info(`SDK session ID: ${this.sdkSessionId}`);
+        metricsService.recordSessionStart(this.sdkSessionId);
+
+        if (this.sessionStateStore) {
+          try {
+            await this.sessionStateStore.save({ sdkSessionId: this.sdkSessionId });
+          } catch (error) {
+            logger.error('Failed to persist SDK session ID:', error);
+          }
+        }
+      }
 
       // Check MCP server connection status
       if ('mcp_servers' in msg && Array.isArray(msg.mcp_servers)) {
@@ -750,7 +1533,7 @@ export class AgentService {
         // Format as a question message
         const questionText = this.formatQuestion(input);
         const questionMessage = this.addMessage('assistant', questionText, 'question');
-        sessionService.broadcastMessageUpdate(questionMessage);
+        this.sessionService.broadcastMessageUpdate(questionMessage);
 
         logger.info('AskUserQuestion detected and broadcasted successfully', {
           tool_use_id: id,
@@ -780,7 +1563,7 @@ export class AgentService {
         // Format as a plan message
         const planText = this.formatPlan(input);
         const planMessage = this.addMessage('assistant', planText, 'plan');
-        sessionService.broadcastMessageUpdate(planMessage);
+        this.sessionService.broadcastMessageUpdate(planMessage);
 
         logger.info('ExitPlanMode detected and broadcasted successfully', {
           tool_use_id: id,
@@ -797,6 +1580,42 @@ export class AgentService {
     }
   }
 
+  private getThreadFields(parentToolUseId: string | null | undefined): Pick<Message, 'threadId' | 'subagent'> {
+    if (!parentToolUseId) {
+      return {};
+    }
+    const subagent = this.subagents.get(parentToolUseId);
+    return { threadId: parentToolUseId, ...(subagent ? { subagent } : {}) };
+  }
+
+  /**
+   * Apply the allowed-tools and model frontmatter of a slash command until the turn ends
+   */
+  private async beginCommandTurn(command: ExpandedSlashCommand): Promise<void> {
+    this.commandTurn = { name: command.name, allowedTools: command.allowedTools ?? [] };
+
+    if (command.model && command.model !== this.model) {
+      if (!this.isModelAllowed(command.model)) {
+        logger.warn(`Ignoring model "${command.model}" of slash command /${command.name}: not in ALLOWED_MODELS`);
+        return;
+      }
+      const previousModel = this.model;
+      await this.setModel(command.model);
+      this.commandTurn.previousModel = previousModel;
+    }
+  }
+
+  private endCommandTurn(): void {
+    const turn = this.commandTurn;
+    this.commandTurn = null;
+
+    if (turn?.previousModel !== undefined) {
+      this.setModel(turn.previousModel).catch((error) => {
+        logger.error('Failed to restore the model after a slash command:', error);
+      });
+    }
+  }
+
   private formatToolUse(toolUse: { name: string; input: unknown; id?: string }): string {
     return JSON.stringify({
       type: 'tool_use',
@@ -857,6 +1676,18 @@ export class AgentService {
     }
   }
 
+  private formatContentBlocks(blocks: RawContentBlock[]): string {
+    // Render non-text blocks as placeholders so the transcript stays readable
+    return blocks.map((block) => {
+      if (block.type === 'text') {
+        return block.text;
+      }
+      const mediaType = 'media_type' in block.source ? block.source.media_type : block.source.type;
+      const title = block.type === 'document' && block.title ? ` ${block.title}` : '';
+      return `[${block.type}${title}: ${mediaType}]`;
+    }).join('\n');
+  }
+
   private formatPlan(input: unknown): string {
     // Format ExitPlanMode input as JSON
     if (typeof input === 'string') {
@@ -868,15 +1699,15 @@ export class AgentService {
 
 
   private addMessage(
-    role: 'user' | 'assistant' | 'agent' | 'tool_result',
+    role: Message['role'],
     content: string,
     type?: 'normal' | 'question' | 'plan',
-    options?: {
-      toolUseId?: string;
-      parentToolUseId?: string;
-      status?: 'success' | 'error';
-      error?: string;
-    }
+    options?: Pick<
+      Message,
+      | 'toolUseId' | 'parentToolUseId' | 'status' | 'error' | 'attachments'
+      | 'toolName' | 'toolInput' | 'isError' | 'contentType'
+      | 'threadId' | 'subagent' | 'command' | 'sdkMessageId'
+    >
   ): Message {
     const message: Message = {
       id: this.generateMessageId(),
@@ -888,11 +1719,25 @@ export class AgentService {
     };
 
     this.messages.push(message);
+    this.messageIndex.add(message);
+
+    try {
+      this.messageStore.append(message);
+    } catch (error) {
+      logger.error('Failed to persist message:', error);
+    }
 
-    // Trim message history if it exceeds the limit
+    // Apply retention policy to both in-memory history and the message store
     if (this.messages.length > MAX_MESSAGE_HISTORY) {
+      const removed = this.messages.length - MAX_MESSAGE_HISTORY;
       this.messages = this.messages.slice(-MAX_MESSAGE_HISTORY);
-      logger.debug(`Message history trimmed to ${MAX_MESSAGE_HISTORY} messages`);
+      this.messageIndex.removeBefore(this.messages[0].id);
+      try {
+        this.messageStore.prune(this.messages[0].id);
+      } catch (error) {
+        logger.error('Failed to prune message store:', error);
+      }
+      logger.info(`Retention policy removed ${removed} message(s) (MAX_MESSAGE_HISTORY=${MAX_MESSAGE_HISTORY})`);
     }
 
     return message;
@@ -905,22 +1750,220 @@ export class AgentService {
   private setStatus(status: AgentStatus): void {
     if (this.status !== status) {
       this.status = status;
-      sessionService.broadcastStatusChange(status);
+      this.sessionService.broadcastStatusChange(status);
       logger.info(`Agent status changed to: ${status}`);
+
+      if (status === 'stable' && this.commandTurn) {
+        this.endCommandTurn();
+      }
+
+      // Deliver the next queued message once the current turn has finished
+      if (status === 'stable' && this.messageQueue.length > 0) {
+        this.dispatchQueuedMessage();
+      }
+    }
+  }
+
+  private dispatchQueuedMessage(): void {
+    const next = this.messageQueue.shift();
+    if (!next) {
+      return;
+    }
+
+    logger.info('Delivering queued message', {
+      queue_id: next.id,
+      remaining: this.messageQueue.length,
+    });
+    this.sessionService.broadcastQueueUpdate(this.getQueue());
+
+    this.sendMessage(next.content, next.attachments, next.command).catch((error) => {
+      logger.error('Failed to deliver queued message', {
+        queue_id: next.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    });
+  }
+
+  isQueueEnabled(): boolean {
+    return this.queueEnabled;
+  }
+
+  /**
+   * Queue a user message to be delivered when the agent becomes stable
+   */
+  enqueueMessage(content: string, attachments?: PreparedAttachment[], command?: ExpandedSlashCommand): QueuedMessage {
+    const item = {
+      id: randomUUID(),
+      content,
+      attachments,
+      command,
+      queuedAt: new Date().toISOString(),
+    };
+    this.messageQueue.push(item);
+
+    logger.info('Message queued', {
+      queue_id: item.id,
+      position: this.messageQueue.length,
+    });
+    this.sessionService.broadcastQueueUpdate(this.getQueue());
+
+    return {
+      id: item.id,
+      content: item.content,
+      position: this.messageQueue.length,
+      queued_at: item.queuedAt,
+      attachments: item.attachments?.map(a => a.metadata),
+    };
+  }
+
+  getQueue(): QueuedMessage[] {
+    return this.messageQueue.map((item, index) => ({
+      id: item.id,
+      content: item.content,
+      position: index + 1,
+      queued_at: item.queuedAt,
+      attachments: item.attachments?.map(a => a.metadata),
+    }));
+  }
+
+  /**
+   * Remove a queued message before it is delivered
+   * @returns false if no queued message has the given ID
+   */
+  cancelQueuedMessage(id: string): boolean {
+    const index = this.messageQueue.findIndex(item => item.id === id);
+    if (index === -1) {
+      return false;
     }
+
+    this.messageQueue.splice(index, 1);
+    logger.info('Queued message cancelled', { queue_id: id });
+    this.sessionService.broadcastQueueUpdate(this.getQueue());
+
+    return true;
   }
 
   getStatus(): AgentStatus {
     return this.status;
   }
 
+  getModel(): string {
+    return this.model;
+  }
+
+  isModelAllowed(model: string): boolean {
+    return this.allowedModels.length === 0 || model === 'default' || this.allowedModels.includes(model);
+  }
+
+  /**
+   * Models that set_model can switch to: the ALLOWED_MODELS list when configured,
+   * otherwise the models reported by the SDK
+   */
+  async listModels(): Promise<ModelInfo[]> {
+    let supported: ModelInfo[] = [];
+    if (this.query) {
+      try {
+        supported = (await this.query.supportedModels()).map(m => ({
+          value: m.value,
+          display_name: m.displayName,
+          description: m.description,
+        }));
+      } catch (error) {
+        logger.warn('Failed to fetch supported models from the SDK:', error);
+      }
+    }
+
+    if (this.allowedModels.length === 0) {
+      return supported;
+    }
+
+    return this.allowedModels.map(value => supported.find(m => m.value === value) ?? { value });
+  }
+
+  /**
+   * Switch the model of the live query; takes effect from the next turn
+   */
+  async setModel(model: string): Promise<void> {
+    if (!this.query) {
+      throw new Error('Agent not initialized');
+    }
+
+    const previousModel = this.model;
+    await this.query.setModel(model === 'default' ? undefined : model);
+    this.model = model;
+
+    logger.info(`Model changed: ${previousModel} -> ${model}`);
+    this.sessionService.broadcastModelChange(model, previousModel);
+  }
+
+  getPermissionMode(): PermissionMode {
+    return this.permissionMode;
+  }
+
+  isPermissionBypassAllowed(): boolean {
+    return this.permissionBypassAllowed;
+  }
+
+  /**
+   * Switch the permission mode of the live query
+   */
+  async setPermissionMode(mode: PermissionMode): Promise<void> {
+    if (!this.query) {
+      throw new Error('Agent not initialized');
+    }
+
+    if (mode === 'bypassPermissions' && !this.permissionBypassAllowed) {
+      throw new Error('Switching to bypassPermissions is not allowed');
+    }
+
+    await this.query.setPermissionMode(mode);
+    this.updatePermissionMode(mode);
+  }
+
+  private updatePermissionMode(mode: PermissionMode): void {
+    if (mode === this.permissionMode) {
+      return;
+    }
+
+    const previousMode = this.permissionMode;
+    this.permissionMode = mode;
+
+    if (mode === 'bypassPermissions') {
+      logger.warn(`⚠️  Permission mode changed: ${previousMode} -> ${mode} (all permission checks are disabled)`);
+    } else {
+      logger.info(`Permission mode changed: ${previousMode} -> ${mode}`);
+    }
+    this.sessionService.broadcastPermissionModeChange(mode, previousMode);
+  }
+
+  getSdkSessionId(): string | null {
+    return this.sdkSessionId;
+  }
+
+  getWorkingDirectory(): string | null {
+    return this.config?.workingDirectory ?? null;
+  }
+
+  getSessionUsage(): SessionUsage {
+    return this.usageTracker.getSessionUsage();
+  }
+
+  getTurnUsage(): TurnUsage[] {
+    return this.usageTracker.getTurns();
+  }
+
+  isResumed(): boolean {
+    return this.resumed;
+  }
+
   getMessages(): Message[] {
     return [...this.messages];
   }
 
   /**
    * Get messages with pagination/filtering options
-   * @param options Pagination options
+   * @param options Pagination options; with `filter`, pagination applies to the matching messages
+   * and `total` is the number of matches
    * @returns Filtered messages and metadata
    */
   getMessagesWithPagination(options: {
@@ -930,18 +1973,21 @@ export class AgentService {
     context?: number;
     after?: number;
     before?: number;
+    filter?: MessageFilter;
   }): {
     messages: Message[];
     total: number;
     hasMore: boolean;
   } {
-    const total = this.messages.length;
+    const filtered = options.filter !== undefined && Object.values(options.filter).some(value => value !== undefined);
+    const source = filtered ? this.messageIndex.select(options.filter!) : this.messages;
+    const total = source.length;
     let messages: Message[];
     let hasMore = false;
 
     // Case 1: Get messages around a specific ID
     if (options.around !== undefined) {
-      const targetIndex = this.messages.findIndex(m => m.id === options.around);
+      const targetIndex = source.findIndex(m => m.id === options.around);
 
       if (targetIndex === -1) {
         // ID not found, return empty
@@ -952,35 +1998,50 @@ export class AgentService {
       const startIndex = Math.max(0, targetIndex - contextCount);
       const endIndex = Math.min(total, targetIndex + contextCount + 1);
 
-      messages = this.messages.slice(startIndex, endIndex);
+      messages = source.slice(startIndex, endIndex);
       hasMore = startIndex > 0 || endIndex < total;
     }
     // Case 2: Cursor-based pagination (after/before) - check before limit to avoid conflict
     else if (options.after !== undefined || options.before !== undefined) {
       if (options.after !== undefined) {
         // Get messages with ID > after (excluding after itself)
-        const afterIndex = this.messages.findIndex(m => m.id === options.after);
+        let startIndex: number;
+        if (filtered) {
+          // The cursor itself may not match the filter, so continue from its position
+          const nextIndex = source.findIndex(m => m.id > options.after!);
+          startIndex = nextIndex === -1 ? total : nextIndex;
+        } else {
+          const afterIndex = source.findIndex(m => m.id === options.after);
+
+          if (afterIndex === -1) {
+            // ID not found - return empty for safety
+            return { messages: [], total, hasMore: false };
+          }
 
-        if (afterIndex === -1) {
-          // ID not found - return empty for safety
-          return { messages: [], total, hasMore: false };
+          // Start from next message after the cursor
+          startIndex = afterIndex + 1;
         }
 
-        // Start from next message after the cursor
-        const startIndex = afterIndex + 1;
         const limit = options.limit ?? total; // If no limit, get all remaining
         const endIndex = Math.min(total, startIndex + limit);
 
-        messages = this.messages.slice(startIndex, endIndex);
+        messages = source.slice(startIndex, endIndex);
         hasMore = endIndex < total; // More messages exist after endIndex
       } else {
         // options.before !== undefined
         // Get messages with ID < before (excluding before itself)
-        const beforeIndex = this.messages.findIndex(m => m.id === options.before);
+        let beforeIndex: number;
+        if (filtered) {
+          // The cursor itself may not match the filter, so stop at its position
+          const cursorIndex = source.findIndex(m => m.id >= options.before!);
+          beforeIndex = cursorIndex === -1 ? total : cursorIndex;
+        } else {
+          beforeIndex = source.findIndex(m => m.id === options.before);
 
-        if (beforeIndex === -1) {
-          // ID not found - return empty for safety
-          return { messages: [], total, hasMore: false };
+          if (beforeIndex === -1) {
+            // ID not found - return empty for safety
+            return { messages: [], total, hasMore: false };
+          }
         }
 
         // Get messages before the cursor
@@ -988,7 +2049,7 @@ export class AgentService {
         const startIndex = Math.max(0, beforeIndex - limit);
         const endIndex = beforeIndex; // Exclude the before message itself
 
-        messages = this.messages.slice(startIndex, endIndex);
+        messages = source.slice(startIndex, endIndex);
         hasMore = startIndex > 0; // More messages exist before startIndex
       }
     }
@@ -999,30 +2060,43 @@ export class AgentService {
 
       if (direction === 'head') {
         // Get first n messages
-        messages = this.messages.slice(0, limit);
+        messages = source.slice(0, limit);
         hasMore = total > limit;
       } else {
         // Get last n messages (most recent)
         const startIndex = Math.max(0, total - limit);
-        messages = this.messages.slice(startIndex);
+        messages = source.slice(startIndex);
         hasMore = startIndex > 0;
       }
     }
     // Case 4: Get all messages (no pagination)
     else {
-      messages = [...this.messages];
+      messages = [...source];
       hasMore = false;
     }
 
     return { messages, total, hasMore };
   }
 
+  /**
+   * Get an attachment of a message together with the file that holds it
+   * @returns null when there is no such attachment, or its file is outside of the uploads folder
+   */
+  getAttachment(messageId: number, index: number): (MessageAttachment & { file_path: string }) | null {
+    const attachment = this.messages.find(m => m.id === messageId)?.attachments?.[index];
+    const filePath = attachment?.file_path;
+    if (!attachment || !filePath || !this.uploadsRoot || !isPathInside(this.uploadsRoot, filePath)) {
+      return null;
+    }
+    return { ...attachment, file_path: filePath };
+  }
+
   getActiveToolExecutions(): Message[] {
     return [...this.activeToolExecutions];
   }
 
-  getPendingActions(): Array<{ type: string; tool_use_id: string; content: unknown }> {
-    const pending: Array<{ type: string; tool_use_id: string; content: unknown }> = [];
+  getPendingActions(): PendingAction[] {
+    const pending: PendingAction[] = [];
 
     if (this.pendingQuestionToolUseId && this.pendingQuestionInput) {
       pending.push({
@@ -1040,11 +2114,25 @@ export class AgentService {
       });
     }
 
+    for (const [toolUseId, approval] of this.pendingToolApprovals) {
+      pending.push({
+        type: 'approve_tool',
+        tool_use_id: toolUseId,
+        content: {
+          tool_name: approval.toolName,
+          input: approval.input,
+          ...(approval.decisionReason ? { decision_reason: approval.decisionReason } : {}),
+          ...(approval.blockedPath ? { blocked_path: approval.blockedPath } : {}),
+        },
+      });
+    }
+
     return pending;
   }
 
   async cleanup(): Promise<void> {
     logger.info('Cleaning up agent service...');
+    this.closing = true;
 
     // Interrupt the query if it's still running
     if (this.query) {
@@ -1083,11 +2171,22 @@ export class AgentService {
       }
     }
 
+    // Drop undelivered queued messages
+    this.messageQueue = [];
+
+    // Close message store
+    try {
+      this.messageStore.close();
+    } catch (error) {
+      logger.error('Failed to close message store:', error);
+    }
+
     // Clear all pending states and active tool executions
-    if (this.pendingQuestionToolUseId || this.pendingPlanToolUseId || this.activeToolExecutions.length > 0) {
+    if (this.pendingQuestionToolUseId || this.pendingPlanToolUseId || this.pendingToolApprovals.size > 0 || this.activeToolExecutions.length > 0) {
       logger.info('Clearing pending states and active tool executions during cleanup', {
         pending_question: !!this.pendingQuestionToolUseId,
         pending_plan: !!this.pendingPlanToolUseId,
+        pending_tools: this.pendingToolApprovals.size,
         active_tools: this.activeToolExecutions.length,
       });
 
@@ -1097,9 +2196,15 @@ export class AgentService {
       this.pendingPlanToolUseId = null;
       this.pendingPlanInput = null;
       this.pendingPlanResolve = null;
+      this.pendingToolApprovals.clear();
       this.activeToolExecutions = [];
+      this.toolUses.clear();
+      this.subagents.clear();
+      this.streamingMessages.clear();
     }
 
+    this.commandTurn = null;
+    this.skillOverrides.clear();
   }
 }
 
@@ -0,0 +1,117 @@
+import type { AgentService } from './agent.js';
+import type { SessionUsage } from '../types/api.js';
+
+/**
+ * Error for built-in command arguments that cannot be applied (unknown model, ...)
+ */
+export class BuiltinCommandError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BuiltinCommandError';
+  }
+}
+
+/**
+ * A slash command handled by the server instead of being sent to the model
+ */
+export interface BuiltinCommand {
+  name: string;
+  description: string;
+  argumentHint?: string;
+  /** Starts an SDK turn, so it is rejected while the agent is running */
+  requiresIdle?: boolean;
+  /**
+   * Run the command
+   * @returns Output to record as a system message, or null when the agent records the result itself
+   */
+  run(agent: AgentService, args: string): Promise<string | null>;
+}
+
+function formatDuration(ms: number): string {
+  return ms < 60_000 ? `${(ms / 1000).toFixed(1)}s` : `${Math.floor(ms / 60_000)}m ${Math.round((ms % 60_000) / 1000)}s`;
+}
+
+function formatUsage(usage: SessionUsage): string {
+  const { tokens } = usage;
+  const lines = [
+    `Total cost: $${usage.cost_usd.toFixed(4)}`,
+    `Total duration (API): ${formatDuration(usage.duration_api_ms)}`,
+    `Total duration (wall): ${formatDuration(usage.duration_ms)}`,
+    `Turns: ${usage.turns}`,
+    `Usage: ${tokens.input_tokens} input, ${tokens.output_tokens} output, `
+      + `${tokens.cache_read_input_tokens} cache read, ${tokens.cache_creation_input_tokens} cache write`,
+  ];
+
+  for (const [model, modelUsage] of Object.entries(usage.models)) {
+    lines.push(`  ${model}: ${modelUsage.input_tokens} input, ${modelUsage.output_tokens} output ($${modelUsage.cost_usd.toFixed(4)})`);
+  }
+
+  return lines.join('\n');
+}
+
+export const BUILTIN_COMMANDS: BuiltinCommand[] = [
+  {
+    name: 'clear',
+    description: 'Clear the conversation history and start with an empty context',
+    requiresIdle: true,
+    async run(agent) {
+      await agent.clearConversation();
+      return 'Conversation cleared';
+    },
+  },
+  {
+    name: 'compact',
+    description: 'Summarize the conversation to free up context',
+    argumentHint: '[instructions]',
+    requiresIdle: true,
+    async run(agent, args) {
+      await agent.compactConversation(args);
+      return null;
+    },
+  },
+  {
+    name: 'cost',
+    description: 'Show the token usage and cost of this session',
+    async run(agent) {
+      return formatUsage(agent.getSessionUsage());
+    },
+  },
+  {
+    name: 'model',
+    description: 'Show the current model, or switch to another one',
+    argumentHint: '[model]',
+    async run(agent, args) {
+      if (!args) {
+        const models = await agent.listModels();
+        const available = models.length > 0 ? models.map(m => m.value).join(', ') : 'unknown';
+        return `Current model: ${agent.getModel()}\nAvailable models: ${available}`;
+      }
+
+      if (!agent.isModelAllowed(args)) {
+        throw new BuiltinCommandError(`Model "${args}" is not allowed`);
+      }
+      const previous = agent.getModel();
+      await agent.setModel(args);
+      return `Model changed: ${previous} -> ${args}`;
+    },
+  },
+  {
+    name: 'status',
+    description: 'Show the session status and configuration',
+    async run(agent) {
+      return [
+        `Status: ${agent.getStatus()}`,
+        `SDK session: ${agent.getSdkSessionId() ?? 'not started'}${agent.isResumed() ? ' (resumed)' : ''}`,
+        `Working directory: ${agent.getWorkingDirectory() ?? 'unknown'}`,
+        `Model: ${agent.getModel()}`,
+        `Permission mode: ${agent.getPermissionMode()}`,
+        `Queue: ${agent.isQueueEnabled() ? `enabled (${agent.getQueue().length} queued)` : 'disabled'}`,
+        `Messages: ${agent.getMessages().length}`,
+      ].join('\n');
+    },
+  },
+];
+
+export function findBuiltinCommand(name: string): BuiltinCommand | undefined {
+  return BUILTIN_COMMANDS.find(command => command.name === name);
+}
@@ -0,0 +1,275 @@
+import type { Message, MessageAttachment, ExportFormat } from '../types/api.js';
+import { parseToolUseMessage } from './message-index.js';
+
+/**
+ * One item of an exported conversation: a message, or a tool call collapsed with its result
+ */
+export type TranscriptEntry =
+  | {
+    kind: 'user' | 'assistant' | 'system' | 'question' | 'plan';
+    id: number;
+    time: string;
+    content: string;
+    attachments?: MessageAttachment[];
+  }
+  | {
+    kind: 'tool';
+    id: number;
+    time: string;
+    tool_use_id?: string;
+    name: string;
+    input: unknown;
+    // Missing when the result is outside of the exported range or the tool is still running
+    status?: 'success' | 'error';
+    result?: string;
+    error?: string;
+  };
+
+export interface ExportOptions {
+  sessionId: string;
+  exportedAt?: Date;
+}
+
+export interface ExportedConversation {
+  contentType: string;
+  extension: string;
+  body: string;
+}
+
+function parseToolUse(message: Message): { name: string; input: unknown } {
+  if (message.toolName !== undefined) {
+    return { name: message.toolName, input: message.toolInput };
+  }
+  return parseToolUseMessage(message.content) ?? { name: 'tool', input: message.content };
+}
+
+/**
+ * Group messages into transcript entries, pairing each `agent` tool_use message
+ * with its `tool_result` (toolUseId/parentToolUseId)
+ */
+export function buildTranscript(messages: Message[]): TranscriptEntry[] {
+  const results = new Map<string, Message>();
+  for (const message of messages) {
+    if (message.role === 'tool_result' && message.parentToolUseId) {
+      results.set(message.parentToolUseId, message);
+    }
+  }
+
+  const paired = new Set<number>();
+  const entries: TranscriptEntry[] = [];
+
+  for (const message of messages) {
+    if (message.role === 'agent') {
+      const { name, input } = parseToolUse(message);
+      const result = message.toolUseId ? results.get(message.toolUseId) : undefined;
+      if (result) {
+        paired.add(result.id);
+      }
+
+      entries.push({
+        kind: 'tool',
+        id: message.id,
+        time: message.time,
+        tool_use_id: message.toolUseId,
+        name,
+        input,
+        status: result?.status,
+        result: result?.content,
+        error: result?.error,
+      });
+    } else if (message.role === 'tool_result') {
+      if (paired.has(message.id)) {
+        continue;
+      }
+
+      // Result whose tool call is outside of the exported range
+      entries.push({
+        kind: 'tool',
+        id: message.id,
+        time: message.time,
+        tool_use_id: message.parentToolUseId,
+        name: message.toolName ?? 'tool',
+        input: undefined,
+        status: message.status,
+        result: message.content,
+        error: message.error,
+      });
+    } else {
+      const kind = message.type === 'question' || message.type === 'plan'
+        ? message.type
+        : message.role === 'user' || message.role === 'system' ? message.role : 'assistant';
+
+      entries.push({
+        kind,
+        id: message.id,
+        time: message.time,
+        content: message.content,
+        ...(message.attachments ? { attachments: message.attachments } : {}),
+      });
+    }
+  }
+
+  return entries;
+}
+
+const HEADINGS: Record<TranscriptEntry['kind'], string> = {
+  user: '👤 User',
+  assistant: '🤖 Assistant',
+  system: '⚙️ System',
+  question: '❓ Question',
+  plan: '📋 Plan',
+  tool: '🔧 Tool',
+};
+
+function formatTime(time: string): string {
+  return time.replace('T', ' ').replace(/\.\d+Z$/, 'Z');
+}
+
+function formatInput(input: unknown): string {
+  return typeof input === 'string' ? input : JSON.stringify(input, null, 2);
+}
+
+function toolSummary(entry: Extract<TranscriptEntry, { kind: 'tool' }>): string {
+  const status = entry.status === 'error' ? '❌ error' : entry.status === 'success' ? '✅ success' : '⏳ no result';
+  return `🔧 ${entry.name} — ${status}`;
+}
+
+function formatAttachment(attachment: MessageAttachment): string {
+  return `${attachment.name ?? attachment.type} (${attachment.media_type}, ${attachment.size} bytes)`;
+}
+
+/**
+ * Fenced code block whose fence is longer than any backtick run in the content
+ */
+function codeBlock(content: string, language = ''): string {
+  const longestRun = Math.max(0, ...(content.match(/`+/g) ?? []).map(run => run.length));
+  const fence = '`'.repeat(Math.max(3, longestRun + 1));
+  return `${fence}${language}\n${content}\n${fence}`;
+}
+
+export function renderMarkdown(entries: TranscriptEntry[], options: ExportOptions): string {
+  const exportedAt = (options.exportedAt ?? new Date()).toISOString();
+  const parts = [
+    '# Conversation',
+    '',
+    `- Session: ${options.sessionId}`,
+    `- Exported: ${formatTime(exportedAt)}`,
+    `- Entries: ${entries.length}`,
+  ];
+
+  for (const entry of entries) {
+    parts.push('', '---', '');
+
+    if (entry.kind === 'tool') {
+      parts.push('<details>', `<summary>${toolSummary(entry)} · ${formatTime(entry.time)}</summary>`, '');
+      if (entry.input !== undefined) {
+        parts.push('**Input**', '', codeBlock(formatInput(entry.input), typeof entry.input === 'string' ? '' : 'json'), '');
+      }
+      if (entry.result !== undefined) {
+        parts.push(entry.status === 'error' ? '**Error**' : '**Result**', '', codeBlock(entry.result), '');
+      }
+      parts.push('</details>');
+      continue;
+    }
+
+    parts.push(`### ${HEADINGS[entry.kind]} · ${formatTime(entry.time)}`, '');
+    parts.push(entry.kind === 'plan' ? codeBlock(entry.content) : entry.content);
+
+    if (entry.attachments && entry.attachments.length > 0) {
+      parts.push('', ...entry.attachments.map(a => `- 📎 ${formatAttachment(a)}`));
+    }
+  }
+
+  return parts.join('\n') + '\n';
+}
+
+export function renderJsonl(entries: TranscriptEntry[]): string {
+  return entries.map(entry => JSON.stringify(entry)).join('\n') + (entries.length > 0 ? '\n' : '');
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+const HTML_STYLE = `
+body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; max-width: 960px; margin: 2rem auto; padding: 0 1rem; color: #1f2328; }
+header { border-bottom: 1px solid #d0d7de; margin-bottom: 1.5rem; }
+.entry { border: 1px solid #d0d7de; border-radius: 6px; padding: 0.75rem 1rem; margin: 0.75rem 0; }
+.entry h2 { font-size: 0.9rem; margin: 0 0 0.5rem; color: #57606a; }
+.user { background: #f6f8fa; }
+.system { color: #57606a; font-style: italic; }
+.question { border-color: #bf8700; background: #fff8c5; }
+.plan { border-color: #0969da; background: #ddf4ff; }
+.tool.error { border-color: #cf222e; background: #ffebe9; }
+.content { white-space: pre-wrap; }
+pre { background: #f6f8fa; padding: 0.75rem; overflow-x: auto; white-space: pre-wrap; }
+summary { cursor: pointer; }
+time { font-weight: normal; }
+`.trim();
+
+function renderHtmlEntry(entry: TranscriptEntry): string {
+  const time = `<time datetime="${escapeHtml(entry.time)}">${escapeHtml(formatTime(entry.time))}</time>`;
+
+  if (entry.kind === 'tool') {
+    const sections: string[] = [];
+    if (entry.input !== undefined) {
+      sections.push(`<h3>Input</h3><pre>${escapeHtml(formatInput(entry.input))}</pre>`);
+    }
+    if (entry.result !== undefined) {
+      sections.push(`<h3>${entry.status === 'error' ? 'Error' : 'Result'}</h3><pre>${escapeHtml(entry.result)}</pre>`);
+    }
+    return `<section class="entry tool${entry.status === 'error' ? ' error' : ''}" id="m${entry.id}">`
+      + `<details><summary>${escapeHtml(toolSummary(entry))} · ${time}</summary>${sections.join('')}</details></section>`;
+  }
+
+  const body = entry.kind === 'plan'
+    ? `<pre>${escapeHtml(entry.content)}</pre>`
+    : `<div class="content">${escapeHtml(entry.content)}</div>`;
+  const attachments = entry.attachments && entry.attachments.length > 0
+    ? `<ul>${entry.attachments.map(a => `<li>📎 ${escapeHtml(formatAttachment(a))}</li>`).join('')}</ul>`
+    : '';
+
+  return `<section class="entry ${entry.kind}" id="m${entry.id}"><h2>${HEADINGS[entry.kind]} · ${time}</h2>${body}${attachments}</section>`;
+}
+
+export function renderHtml(entries: TranscriptEntry[], options: ExportOptions): string {
+  const exportedAt = (options.exportedAt ?? new Date()).toISOString();
+  const title = `Conversation ${options.sessionId}`;
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(title)}</title>`,
+    `<style>${HTML_STYLE}</style>`,
+    '</head>',
+    '<body>',
+    `<header><h1>${escapeHtml(title)}</h1><p>Exported ${escapeHtml(formatTime(exportedAt))} · ${entries.length} entries</p></header>`,
+    ...entries.map(renderHtmlEntry),
+    '</body>',
+    '</html>',
+  ].join('\n') + '\n';
+}
+
+/**
+ * Render messages in an export format
+ */
+export function exportConversation(messages: Message[], format: ExportFormat, options: ExportOptions): ExportedConversation {
+  const entries = buildTranscript(messages);
+
+  switch (format) {
+    case 'jsonl':
+      return { contentType: 'application/x-ndjson', extension: 'jsonl', body: renderJsonl(entries) };
+    case 'html':
+      return { contentType: 'text/html', extension: 'html', body: renderHtml(entries, options) };
+    case 'markdown':
+    default:
+      return { contentType: 'text/markdown', extension: 'md', body: renderMarkdown(entries, options) };
+  }
+}
@@ -0,0 +1,175 @@
+import type { Message, MessageFilter } from '../types/api.js';
+
+// Thread of the messages outside of any subagent
+export const MAIN_THREAD = 'main';
+
+interface IndexedMessage {
+  message: Message;
+  // Lowercased content for full-text search
+  text: string;
+  // Tool name for agent (tool_use) and tool_result messages
+  tool?: string;
+}
+
+/**
+ * Parse the tool_use JSON stored in the content of `agent` messages (see AgentService.formatToolUse)
+ */
+export function parseToolUseMessage(content: string): { name: string; input: unknown } | null {
+  try {
+    const parsed = JSON.parse(content) as { name?: unknown; input?: unknown };
+    if (typeof parsed.name === 'string') {
+      return { name: parsed.name, input: parsed.input };
+    }
+  } catch {
+    // Not a tool_use payload
+  }
+  return null;
+}
+
+function addToIndex(index: Map<string, Set<number>>, key: string | undefined, id: number): void {
+  if (key === undefined) {
+    return;
+  }
+  let ids = index.get(key);
+  if (!ids) {
+    ids = new Set();
+    index.set(key, ids);
+  }
+  ids.add(id);
+}
+
+function removeFromIndex(index: Map<string, Set<number>>, key: string | undefined, id: number): void {
+  if (key === undefined) {
+    return;
+  }
+  const ids = index.get(key);
+  ids?.delete(id);
+  if (ids && ids.size === 0) {
+    index.delete(key);
+  }
+}
+
+/**
+ * Inverted index over the message history, so that filtered /messages queries
+ * only visit matching messages instead of scanning the whole session
+ */
+export class MessageIndex {
+  // Insertion order is id order (message ids are monotonic)
+  private byId: Map<number, IndexedMessage> = new Map();
+  private byRole: Map<string, Set<number>> = new Map();
+  private byType: Map<string, Set<number>> = new Map();
+  private byStatus: Map<string, Set<number>> = new Map();
+  private byTool: Map<string, Set<number>> = new Map();
+  private byThread: Map<string, Set<number>> = new Map();
+  private toolNames: Map<string, string> = new Map();
+
+  add(message: Message): void {
+    let tool: string | undefined;
+    if (message.role === 'agent') {
+      // Messages recorded before toolName existed only have the JSON content
+      tool = message.toolName ?? parseToolUseMessage(message.content)?.name;
+      if (tool && message.toolUseId) {
+        this.toolNames.set(message.toolUseId, tool);
+      }
+    } else if (message.role === 'tool_result') {
+      tool = message.toolName ?? (message.parentToolUseId ? this.toolNames.get(message.parentToolUseId) : undefined);
+    }
+
+    this.byId.set(message.id, { message, text: message.content.toLowerCase(), tool });
+    addToIndex(this.byRole, message.role, message.id);
+    addToIndex(this.byType, message.type ?? 'normal', message.id);
+    addToIndex(this.byStatus, message.status, message.id);
+    addToIndex(this.byTool, tool, message.id);
+    addToIndex(this.byThread, message.threadId ?? MAIN_THREAD, message.id);
+  }
+
+  /**
+   * Drop messages with an id lower than the given one (retention policy)
+   */
+  removeBefore(id: number): void {
+    for (const [messageId, entry] of this.byId) {
+      if (messageId >= id) {
+        break;
+      }
+
+      const { message, tool } = entry;
+      this.byId.delete(messageId);
+      removeFromIndex(this.byRole, message.role, messageId);
+      removeFromIndex(this.byType, message.type ?? 'normal', messageId);
+      removeFromIndex(this.byStatus, message.status, messageId);
+      removeFromIndex(this.byTool, tool, messageId);
+      removeFromIndex(this.byThread, message.threadId ?? MAIN_THREAD, messageId);
+      if (message.role === 'agent' && message.toolUseId) {
+        this.toolNames.delete(message.toolUseId);
+      }
+    }
+  }
+
+  rebuild(messages: Message[]): void {
+    this.clear();
+    for (const message of messages) {
+      this.add(message);
+    }
+  }
+
+  clear(): void {
+    this.byId.clear();
+    this.byRole.clear();
+    this.byType.clear();
+    this.byStatus.clear();
+    this.byTool.clear();
+    this.byThread.clear();
+    this.toolNames.clear();
+  }
+
+  /**
+   * Messages matching every given filter, in id order
+   */
+  select(filter: MessageFilter): Message[] {
+    let candidates: Set<number> | null = null;
+
+    const narrow = (index: Map<string, Set<number>>, keys: string[] | undefined) => {
+      if (!keys) {
+        return;
+      }
+      const matching = new Set<number>();
+      for (const key of keys) {
+        index.get(key)?.forEach(id => matching.add(id));
+      }
+      const current: Set<number> | null = candidates;
+      candidates = current === null ? matching : new Set([...current].filter(id => matching.has(id)));
+    };
+
+    narrow(this.byRole, filter.role);
+    narrow(this.byType, filter.type);
+    narrow(this.byStatus, filter.status);
+    narrow(this.byTool, filter.tool);
+    narrow(this.byThread, filter.thread !== undefined ? [filter.thread] : undefined);
+
+    const ids: number[] = candidates === null
+      ? [...this.byId.keys()]
+      : [...(candidates as Set<number>)].sort((a, b) => a - b);
+
+    const since = filter.since?.getTime();
+    const until = filter.until?.getTime();
+    const q = filter.q?.toLowerCase();
+
+    const result: Message[] = [];
+    for (const id of ids) {
+      const entry = this.byId.get(id);
+      if (!entry) {
+        continue;
+      }
+      const time = Date.parse(entry.message.time);
+      if ((since !== undefined && time < since) || (until !== undefined && time > until)) {
+        continue;
+      }
+      if (q !== undefined && !entry.text.includes(q)) {
+        continue;
+      }
+      result.push(entry.message);
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,265 @@
+import { appendFileSync, readFileSync, writeFileSync, renameSync } from 'fs';
+import { mkdir, readFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import type { Message } from '../types/api.js';
+import type { MessageStoreType } from '../types/config.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Retention policy applied to persisted message history
+ */
+export interface MessageRetentionPolicy {
+  /** Maximum number of messages kept in the store (oldest are removed first) */
+  maxMessages: number;
+}
+
+/**
+ * Pluggable persistence backend for the conversation transcript
+ */
+export interface MessageStore {
+  /** Load persisted messages (oldest first), applying the retention policy */
+  load(): Promise<Message[]>;
+  /** Persist a newly added message */
+  append(message: Message): void;
+  /** Remove all messages with an ID lower than the given one (durably: they are not loaded again) */
+  prune(beforeId: number): void;
+  /** Release underlying resources */
+  close(): void;
+}
+
+/**
+ * In-memory only store (history is lost on restart)
+ */
+export class MemoryMessageStore implements MessageStore {
+  async load(): Promise<Message[]> {
+    return [];
+  }
+
+  append(_message: Message): void {}
+
+  prune(_beforeId: number): void {}
+
+  close(): void {}
+}
+
+/**
+ * Tombstone line recorded by JsonlMessageStore.prune(): messages with a lower ID are dropped on load
+ */
+interface JsonlPruneMarker {
+  pruneBefore: number;
+}
+
+function isPruneMarker(value: unknown): value is JsonlPruneMarker {
+  return typeof value === 'object' && value !== null && typeof (value as JsonlPruneMarker).pruneBefore === 'number';
+}
+
+/**
+ * Append-only JSONL store. One message per line.
+ * prune() appends a tombstone line honoured by load(); the file is rewritten with only the
+ * retained messages on load and whenever it holds more than twice `maxMessages` lines.
+ */
+export class JsonlMessageStore implements MessageStore {
+  // Lines currently in the file (messages and tombstones)
+  private lineCount = 0;
+
+  constructor(
+    private readonly filePath: string,
+    private readonly retention: MessageRetentionPolicy
+  ) {}
+
+  async load(): Promise<Message[]> {
+    await mkdir(dirname(this.filePath), { recursive: true });
+
+    let content: string;
+    try {
+      content = await readFile(this.filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        this.lineCount = 0;
+        return [];
+      }
+      throw error;
+    }
+
+    const { messages, lines, invalidLines } = this.parse(content);
+    if (invalidLines > 0) {
+      logger.warn(`Skipped ${invalidLines} invalid line(s) in message store: ${this.filePath}`);
+    }
+
+    if (lines === messages.length && messages.length <= this.retention.maxMessages) {
+      this.lineCount = lines;
+      return messages;
+    }
+
+    return this.compact(messages, lines);
+  }
+
+  append(message: Message): void {
+    appendFileSync(this.filePath, JSON.stringify(message) + '\n');
+    this.lineCount++;
+  }
+
+  prune(beforeId: number): void {
+    const marker: JsonlPruneMarker = { pruneBefore: beforeId };
+    appendFileSync(this.filePath, JSON.stringify(marker) + '\n');
+    this.lineCount++;
+
+    // Bound the file size for the life of the process, not only across restarts
+    if (this.lineCount > this.retention.maxMessages * 2) {
+      const { messages, lines } = this.parse(readFileSync(this.filePath, 'utf-8'));
+      this.compact(messages, lines);
+    }
+  }
+
+  close(): void {}
+
+  /**
+   * Parse the file, applying tombstones and skipping invalid lines
+   */
+  private parse(content: string): { messages: Message[]; lines: number; invalidLines: number } {
+    let messages: Message[] = [];
+    let lines = 0;
+    let invalidLines = 0;
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      lines++;
+      try {
+        const parsed = JSON.parse(line) as unknown;
+        if (isPruneMarker(parsed)) {
+          messages = messages.filter(m => m.id >= parsed.pruneBefore);
+        } else {
+          messages.push(parsed as Message);
+        }
+      } catch {
+        invalidLines++;
+      }
+    }
+    return { messages, lines, invalidLines };
+  }
+
+  /**
+   * Rewrite the file so that it only contains retained, valid messages
+   */
+  private compact(messages: Message[], lines: number): Message[] {
+    const retained = messages.slice(-this.retention.maxMessages);
+    const tmpPath = `${this.filePath}.tmp`;
+    writeFileSync(tmpPath, retained.map(m => JSON.stringify(m) + '\n').join(''));
+    renameSync(tmpPath, this.filePath);
+    this.lineCount = retained.length;
+    logger.info(`Message store compacted: kept ${retained.length} of ${lines} line(s)`);
+    return retained;
+  }
+}
+
+/**
+ * Minimal subset of the bun:sqlite / node:sqlite synchronous API used by SqliteMessageStore
+ */
+interface SqliteStatement {
+  run(...params: unknown[]): unknown;
+  all(...params: unknown[]): unknown[];
+}
+
+interface SqliteDatabase {
+  exec(sql: string): void;
+  prepare(sql: string): SqliteStatement;
+  close(): void;
+}
+
+/**
+ * Open a SQLite database with the runtime's built-in driver
+ * (bun:sqlite under Bun, node:sqlite under Node.js 22+)
+ */
+async function openSqliteDatabase(filePath: string): Promise<SqliteDatabase> {
+  const isBun = typeof (globalThis as { Bun?: unknown }).Bun !== 'undefined';
+  const moduleName = isBun ? 'bun:sqlite' : 'node:sqlite';
+
+  try {
+    const sqlite = await import(moduleName);
+    return isBun ? new sqlite.Database(filePath) : new sqlite.DatabaseSync(filePath);
+  } catch (error) {
+    throw new Error(
+      `SQLite message store requires Bun or Node.js 22+ (${moduleName} unavailable): ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/**
+ * SQLite store. Messages are stored as JSON keyed by message ID.
+ */
+export class SqliteMessageStore implements MessageStore {
+  private db: SqliteDatabase | null = null;
+
+  constructor(
+    private readonly filePath: string,
+    private readonly retention: MessageRetentionPolicy
+  ) {}
+
+  async load(): Promise<Message[]> {
+    await mkdir(dirname(this.filePath), { recursive: true });
+
+    this.db = await openSqliteDatabase(this.filePath);
+    this.db.exec('CREATE TABLE IF NOT EXISTS messages (id INTEGER PRIMARY KEY, data TEXT NOT NULL)');
+
+    // Apply retention policy to previously persisted history
+    this.db.prepare(
+      'DELETE FROM messages WHERE id NOT IN (SELECT id FROM messages ORDER BY id DESC LIMIT ?)'
+    ).run(this.retention.maxMessages);
+
+    const rows = this.db.prepare('SELECT data FROM messages ORDER BY id ASC').all() as Array<{ data: string }>;
+    return rows.map(row => JSON.parse(row.data) as Message);
+  }
+
+  append(message: Message): void {
+    this.requireDb().prepare('INSERT OR REPLACE INTO messages (id, data) VALUES (?, ?)').run(
+      message.id,
+      JSON.stringify(message)
+    );
+  }
+
+  prune(beforeId: number): void {
+    this.requireDb().prepare('DELETE FROM messages WHERE id < ?').run(beforeId);
+  }
+
+  close(): void {
+    if (this.db) {
+      this.db.close();
+      this.db = null;
+    }
+  }
+
+  private requireDb(): SqliteDatabase {
+    if (!this.db) {
+      throw new Error('Message store not loaded');
+    }
+    return this.db;
+  }
+}
+
+/**
+ * Directory holding persisted data for a session: {workingDirectory}/.claude-agentapi/{sessionId}/
+ */
+export function getSessionDataDir(workingDirectory: string, sessionId: string): string {
+  return join(workingDirectory, '.claude-agentapi', sessionId);
+}
+
+/**
+ * Create a message store for a session.
+ * Persistent backends keep their data in the session data directory.
+ */
+export function createMessageStore(options: {
+  type?: MessageStoreType;
+  workingDirectory: string;
+  sessionId: string;
+  retention: MessageRetentionPolicy;
+}): MessageStore {
+  const dataDir = getSessionDataDir(options.workingDirectory, options.sessionId);
+
+  switch (options.type) {
+    case 'jsonl':
+      return new JsonlMessageStore(join(dataDir, 'messages.jsonl'), options.retention);
+    case 'sqlite':
+      return new SqliteMessageStore(join(dataDir, 'messages.db'), options.retention);
+    default:
+      return new MemoryMessageStore();
+  }
+}
@@ -0,0 +1,273 @@
+import { logger } from '../utils/logger.js';
+
+type Labels = Record<string, string>;
+
+/**
+ * Convert an OpenTelemetry style name or attribute (claude_code.token.usage, session.id)
+ * into a valid Prometheus identifier (claude_code_token_usage, session_id)
+ */
+function toPrometheusName(name: string): string {
+  return name.replace(/[^a-zA-Z0-9_]/g, '_');
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return '';
+  }
+  return `{${entries.map(([key, value]) => `${toPrometheusName(key)}="${escapeLabelValue(value)}"`).join(',')}}`;
+}
+
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+abstract class Metric {
+  readonly name: string;
+
+  constructor(name: string, readonly help: string, readonly type: 'counter' | 'histogram') {
+    this.name = toPrometheusName(name);
+  }
+
+  abstract renderSamples(): string[];
+
+  render(): string {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} ${this.type}`,
+      ...this.renderSamples(),
+    ].join('\n');
+  }
+}
+
+export class Counter extends Metric {
+  private values: Map<string, { labels: Labels; value: number }> = new Map();
+
+  constructor(name: string, help: string) {
+    super(name, help, 'counter');
+  }
+
+  inc(labels: Labels, value = 1): void {
+    if (!(value >= 0)) {
+      return;
+    }
+    const key = labelKey(labels);
+    const entry = this.values.get(key) ?? { labels, value: 0 };
+    entry.value += value;
+    this.values.set(key, entry);
+  }
+
+  get(labels: Labels): number {
+    return this.values.get(labelKey(labels))?.value ?? 0;
+  }
+
+  renderSamples(): string[] {
+    return [...this.values.values()].map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`);
+  }
+}
+
+export class Histogram extends Metric {
+  private series: Map<string, { labels: Labels; counts: number[]; sum: number; count: number }> = new Map();
+
+  constructor(name: string, help: string, private readonly buckets: number[]) {
+    super(name, help, 'histogram');
+  }
+
+  observe(labels: Labels, value: number): void {
+    if (!Number.isFinite(value)) {
+      return;
+    }
+    const key = labelKey(labels);
+    const entry = this.series.get(key) ?? { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) {
+        entry.counts[i]++;
+      }
+    });
+    entry.sum += value;
+    entry.count++;
+    this.series.set(key, entry);
+  }
+
+  renderSamples(): string[] {
+    const lines: string[] = [];
+    for (const { labels, counts, sum, count } of this.series.values()) {
+      this.buckets.forEach((bound, i) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${counts[i]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines;
+  }
+}
+
+/**
+ * Minimal metrics registry rendering the Prometheus text exposition format
+ */
+export class MetricsRegistry {
+  private metrics: Metric[] = [];
+
+  counter(name: string, help: string): Counter {
+    const counter = new Counter(name, help);
+    this.metrics.push(counter);
+    return counter;
+  }
+
+  histogram(name: string, help: string, buckets: number[]): Histogram {
+    const histogram = new Histogram(name, help, buckets);
+    this.metrics.push(histogram);
+    return histogram;
+  }
+
+  render(): string {
+    return this.metrics.map(metric => metric.render()).join('\n') + '\n';
+  }
+}
+
+export type TokenType = 'input' | 'output' | 'cacheRead' | 'cacheCreation';
+
+const CODE_EDIT_TOOLS = new Set(['Edit', 'MultiEdit', 'Write', 'NotebookEdit']);
+
+const LANGUAGES: Record<string, string> = {
+  ts: 'TypeScript', tsx: 'TypeScript', js: 'JavaScript', jsx: 'JavaScript', mjs: 'JavaScript', cjs: 'JavaScript',
+  py: 'Python', go: 'Go', rs: 'Rust', java: 'Java', kt: 'Kotlin', rb: 'Ruby', php: 'PHP', cs: 'C#',
+  c: 'C', h: 'C', cpp: 'C++', hpp: 'C++', swift: 'Swift', sh: 'Shell', md: 'Markdown', json: 'JSON',
+  yaml: 'YAML', yml: 'YAML', html: 'HTML', css: 'CSS', sql: 'SQL', ipynb: 'Jupyter Notebook',
+};
+
+function languageOf(filePath: unknown): string {
+  if (typeof filePath !== 'string') {
+    return 'unknown';
+  }
+  const ext = filePath.split('.').pop()?.toLowerCase() ?? '';
+  return LANGUAGES[ext] ?? 'unknown';
+}
+
+function countLines(text: unknown): number {
+  if (typeof text !== 'string' || text.length === 0) {
+    return 0;
+  }
+  return text.replace(/\n$/, '').split('\n').length;
+}
+
+/**
+ * Claude Code compatible metrics (https://code.claude.com/docs/en/monitoring-usage).
+ * Recording is a no-op until enable() is called (CLAUDE_CODE_ENABLE_TELEMETRY).
+ */
+export class MetricsService {
+  private enabled = false;
+  private standardLabels: Labels = {};
+  readonly registry = new MetricsRegistry();
+
+  private readonly sessionCount = this.registry.counter('claude_code.session.count', 'Count of sessions started');
+  private readonly tokenUsage = this.registry.counter('claude_code.token.usage', 'Number of tokens used');
+  private readonly costUsage = this.registry.counter('claude_code.cost.usage', 'Cost of the session in USD');
+  private readonly linesOfCode = this.registry.counter('claude_code.lines_of_code.count', 'Count of lines of code modified');
+  private readonly codeEditDecision = this.registry.counter(
+    'claude_code.code_edit_tool.decision',
+    'Count of code editing tool permission decisions'
+  );
+  private readonly activeTime = this.registry.counter('claude_code.active_time.total', 'Total active time in seconds');
+  private readonly toolCalls = this.registry.counter('claude_code.tool.calls', 'Count of tool calls by tool name and status');
+  private readonly turnDuration = this.registry.histogram(
+    'claude_code.turn.duration',
+    'Duration of agent turns in seconds',
+    [1, 2, 5, 10, 30, 60, 120, 300, 600, 1800]
+  );
+
+  enable(options: { appVersion: string; terminalType?: string }): void {
+    this.enabled = true;
+    this.standardLabels = {
+      'app.version': options.appVersion,
+      'terminal.type': options.terminalType ?? process.env.TERM ?? 'unknown',
+    };
+    logger.info('Metrics collection enabled');
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  render(): string {
+    return this.registry.render();
+  }
+
+  private labels(sessionId: string, extra: Labels = {}): Labels {
+    return { 'session.id': sessionId, ...this.standardLabels, ...extra };
+  }
+
+  recordSessionStart(sessionId: string): void {
+    if (!this.enabled) return;
+    this.sessionCount.inc(this.labels(sessionId));
+  }
+
+  recordTokenUsage(sessionId: string, model: string, type: TokenType, tokens: number): void {
+    if (!this.enabled || tokens <= 0) return;
+    this.tokenUsage.inc(this.labels(sessionId, { model, type }), tokens);
+  }
+
+  recordCost(sessionId: string, model: string, costUsd: number): void {
+    if (!this.enabled || costUsd <= 0) return;
+    this.costUsage.inc(this.labels(sessionId, { model }), costUsd);
+  }
+
+  recordTurn(sessionId: string, durationMs: number): void {
+    if (!this.enabled) return;
+    const seconds = durationMs / 1000;
+    this.turnDuration.observe(this.labels(sessionId), seconds);
+    this.activeTime.inc(this.labels(sessionId), seconds);
+  }
+
+  recordToolCall(sessionId: string, toolName: string, status: 'success' | 'error'): void {
+    if (!this.enabled) return;
+    this.toolCalls.inc(this.labels(sessionId, { tool_name: toolName, status }));
+  }
+
+  /**
+   * Record a permission decision for a code editing tool (ignored for other tools)
+   */
+  recordCodeEditDecision(sessionId: string, toolName: string, input: Record<string, unknown>, decision: 'accept' | 'reject'): void {
+    if (!this.enabled || !CODE_EDIT_TOOLS.has(toolName)) return;
+    const filePath = input.file_path ?? input.notebook_path;
+    this.codeEditDecision.inc(this.labels(sessionId, { tool: toolName, decision, language: languageOf(filePath) }));
+  }
+
+  /**
+   * Record lines added/removed by a successful code editing tool call
+   */
+  recordLinesOfCode(sessionId: string, toolName: string, input: Record<string, unknown>): void {
+    if (!this.enabled || !CODE_EDIT_TOOLS.has(toolName)) return;
+
+    let added = 0;
+    let removed = 0;
+    switch (toolName) {
+      case 'Edit':
+        added = countLines(input.new_string);
+        removed = countLines(input.old_string);
+        break;
+      case 'MultiEdit':
+        for (const edit of Array.isArray(input.edits) ? input.edits : []) {
+          added += countLines((edit as Record<string, unknown>)?.new_string);
+          removed += countLines((edit as Record<string, unknown>)?.old_string);
+        }
+        break;
+      case 'Write':
+        added = countLines(input.content);
+        break;
+      case 'NotebookEdit':
+        added = countLines(input.new_source);
+        break;
+    }
+
+    if (added > 0) this.linesOfCode.inc(this.labels(sessionId, { type: 'added' }), added);
+    if (removed > 0) this.linesOfCode.inc(this.labels(sessionId, { type: 'removed' }), removed);
+  }
+}
+
+export const metricsService = new MetricsService();
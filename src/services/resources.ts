@@ -2,11 +2,18 @@ import type { Resource } from '../types/api.js';
 import type { ResolvedConfig } from '../types/config.js';
 import { logger } from '../utils/logger.js';
 import { discoverAllSlashCommands } from '../utils/slash-commands.js';
+import { discoverAllSubagents } from '../utils/subagents.js';
+import { discoverAllSkills, isSkillEnabledByDefault } from '../utils/skills.js';
+import { BUILTIN_COMMANDS } from './builtin-commands.js';
 
 /**
- * Get available resources (skills, slash_commands, subagents) from the configuration
+ * Get available resources (skills, slash_commands, subagents) from the configuration.
+ * `isSkillEnabled` reports the enabled state of Agent Skills in a session (defaults to `enabledSkills`).
  */
-export async function getAvailableResources(config: ResolvedConfig): Promise<Resource[]> {
+export async function getAvailableResources(
+  config: ResolvedConfig,
+  isSkillEnabled: (name: string) => boolean = name => isSkillEnabledByDefault(config, name)
+): Promise<Resource[]> {
   const resources: Resource[] = [];
 
   // Add skills/plugins
@@ -40,6 +47,37 @@ export async function getAvailableResources(config: ResolvedConfig): Promise<Res
     }
   }
 
+  // Add Agent Skills (SKILL.md folders) from project, user and plugin skills directories
+  const skills = await discoverAllSkills(config);
+  for (const skill of skills) {
+    resources.push({
+      type: 'skill',
+      name: skill.name,
+      description: skill.description,
+      metadata: {
+        source: skill.source,
+        ...(skill.pluginName ? { pluginName: skill.pluginName } : {}),
+        path: skill.path,
+        files: skill.files,
+        ...(skill.allowedTools ? { allowedTools: skill.allowedTools } : {}),
+        enabled: isSkillEnabled(skill.name),
+      },
+    });
+  }
+
+  // Add built-in commands handled by the server
+  for (const cmd of BUILTIN_COMMANDS) {
+    resources.push({
+      type: 'slash_command',
+      name: cmd.name,
+      description: cmd.description,
+      metadata: {
+        source: 'builtin',
+        ...(cmd.argumentHint ? { argumentHint: cmd.argumentHint } : {}),
+      },
+    });
+  }
+
   // Add slash commands from plugins, project, and user directories
   const slashCommands = await discoverAllSlashCommands(config);
   for (const cmd of slashCommands) {
@@ -50,14 +88,31 @@ export async function getAvailableResources(config: ResolvedConfig): Promise<Res
       metadata: {
         source: cmd.source,
         ...(cmd.pluginName ? { pluginName: cmd.pluginName } : {}),
+        ...(cmd.namespace ? { namespace: cmd.namespace } : {}),
         filePath: cmd.filePath,
+        ...(cmd.argumentHint ? { argumentHint: cmd.argumentHint } : {}),
+        ...(cmd.allowedTools ? { allowedTools: cmd.allowedTools } : {}),
+        ...(cmd.model ? { model: cmd.model } : {}),
       },
     });
   }
 
-  // Add subagents (placeholder - will be populated when SDK supports subagents)
-  // Currently Claude Agent SDK doesn't have explicit subagent support,
-  // but this can be extended in the future
+  // Add subagents from plugin, user and project agents/*.md and config.json
+  const subagents = await discoverAllSubagents(config);
+  for (const agent of subagents) {
+    resources.push({
+      type: 'subagent',
+      name: agent.name,
+      description: agent.description,
+      metadata: {
+        source: agent.source,
+        ...(agent.pluginName ? { pluginName: agent.pluginName } : {}),
+        ...(agent.filePath ? { filePath: agent.filePath } : {}),
+        ...(agent.tools ? { tools: agent.tools } : {}),
+        ...(agent.model ? { model: agent.model } : {}),
+      },
+    });
+  }
 
   logger.debug(`Found ${resources.length} resources`);
   return resources;
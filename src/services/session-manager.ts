@@ -0,0 +1,115 @@
+import { randomUUID } from 'crypto';
+import { rm } from 'fs/promises';
+import { AgentService, agentService } from './agent.js';
+import { getSessionDataDir } from './message-store.js';
+import { SessionService, sessionService } from './session.js';
+import { logger } from '../utils/logger.js';
+
+export const DEFAULT_SESSION_ID = 'default';
+
+/**
+ * An isolated agent conversation with its own SSE subscribers and working directory
+ */
+export interface AgentSession {
+  id: string;
+  agent: AgentService;
+  events: SessionService;
+  workingDirectory: string;
+  createdAt: string;
+}
+
+export class SessionManager {
+  private sessions: Map<string, AgentSession> = new Map();
+
+  /**
+   * Get the default session, which wraps the module-level agentService and
+   * sessionService so un-prefixed (coder/agentapi compatible) routes keep working.
+   */
+  getDefaultSession(): AgentSession {
+    let session = this.sessions.get(DEFAULT_SESSION_ID);
+    if (!session) {
+      session = {
+        id: DEFAULT_SESSION_ID,
+        agent: agentService,
+        events: sessionService,
+        workingDirectory: process.env.CLAUDE_WORKING_DIRECTORY || process.cwd(),
+        createdAt: new Date().toISOString(),
+      };
+      this.sessions.set(DEFAULT_SESSION_ID, session);
+    }
+    return session;
+  }
+
+  getSession(id: string): AgentSession | undefined {
+    if (id === DEFAULT_SESSION_ID) {
+      return this.getDefaultSession();
+    }
+    return this.sessions.get(id);
+  }
+
+  listSessions(): AgentSession[] {
+    this.getDefaultSession();
+    return [...this.sessions.values()];
+  }
+
+  /**
+   * Create a session with a random ID.
+   * Only the default session is reloaded after a restart: the data that other sessions persist
+   * (messages, session.json) is kept until the session is deleted, but never read again.
+   */
+  async createSession(options: { workingDirectory?: string } = {}): Promise<AgentSession> {
+    const id = randomUUID();
+    const workingDirectory = options.workingDirectory || process.env.CLAUDE_WORKING_DIRECTORY || process.cwd();
+    const events = new SessionService();
+    // Only the default session writes to STREAM_JSON_OUTPUT_FILE to avoid interleaving conversations
+    const agent = new AgentService({ sessionId: id, sessionService: events, workingDirectory, outputFile: null });
+
+    logger.info(`Creating session ${id} (working directory: ${workingDirectory})`);
+    await agent.initialize();
+
+    const session: AgentSession = {
+      id,
+      agent,
+      events,
+      workingDirectory,
+      createdAt: new Date().toISOString(),
+    };
+    this.sessions.set(id, session);
+
+    return session;
+  }
+
+  async deleteSession(id: string): Promise<boolean> {
+    if (id === DEFAULT_SESSION_ID) {
+      throw new Error('The default session cannot be deleted');
+    }
+
+    const session = this.sessions.get(id);
+    if (!session) {
+      return false;
+    }
+
+    this.sessions.delete(id);
+    session.events.closeAll();
+    await session.agent.cleanup();
+    // Remove the persisted messages and SDK session state once the stores are closed
+    await rm(getSessionDataDir(session.workingDirectory, id), { recursive: true, force: true });
+    logger.info(`Session ${id} deleted`);
+
+    return true;
+  }
+
+  async cleanup(): Promise<void> {
+    for (const session of this.listSessions()) {
+      try {
+        session.events.closeAll();
+        await session.agent.cleanup();
+      } catch (error) {
+        logger.error(`Error cleaning up session ${session.id}:`, error);
+      }
+    }
+    this.sessions.clear();
+  }
+}
+
+export const sessionManager = new SessionManager();
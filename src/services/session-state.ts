@@ -0,0 +1,46 @@
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import { logger } from '../utils/logger.js';
+
+/**
+ * State persisted per session so the underlying Claude conversation can be resumed
+ */
+export interface PersistedSessionState {
+  /** SDK session ID captured from the system/init message */
+  sdkSessionId?: string;
+}
+
+/**
+ * JSON file backed store for PersistedSessionState ({dataDir}/session.json)
+ */
+export class SessionStateStore {
+  private readonly filePath: string;
+
+  constructor(dataDir: string) {
+    this.filePath = join(dataDir, 'session.json');
+  }
+
+  async load(): Promise<PersistedSessionState> {
+    try {
+      const content = await readFile(this.filePath, 'utf-8');
+      return JSON.parse(content) as PersistedSessionState;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.warn(`Failed to load session state from ${this.filePath}:`, error);
+      }
+      return {};
+    }
+  }
+
+  async save(state: PersistedSessionState): Promise<void> {
+    await mkdir(dirname(this.filePath), { recursive: true });
+    await writeFile(this.filePath, JSON.stringify(state, null, 2));
+  }
+
+  /**
+   * Forget the persisted state (e.g. when the SDK session can no longer be resumed)
+   */
+  async clear(): Promise<void> {
+    await rm(this.filePath, { force: true });
+  }
+}
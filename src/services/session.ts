@@ -1,9 +1,71 @@
 import type { SSEClient } from '../types/agent.js';
-import type { Message, InitEvent } from '../types/api.js';
+import type { Message, InitEvent, QueuedMessage, QueueUpdateEvent, PendingAction, ActionUpdateEvent, TurnUsage, SessionUsage, UsageUpdateEvent, MessageDeltaEvent, ModelChangeEvent, PermissionModeChangeEvent } from '../types/api.js';
+import type { PermissionMode } from '../types/config.js';
+import { randomUUID } from 'crypto';
 import { logger } from '../utils/logger.js';
 
+const DEFAULT_EVENT_BUFFER_SIZE = 1000;
+
+/**
+ * An event kept for replay to reconnecting clients
+ */
+export interface BufferedEvent {
+  /** "<bootId>-<sequence>" */
+  id: string;
+  event: string;
+  data: unknown;
+}
+
+interface SequencedEvent extends BufferedEvent {
+  seq: number;
+}
+
+/**
+ * Fixed-size ring buffer of the most recent events
+ */
+class EventRingBuffer {
+  private events: SequencedEvent[] = [];
+  private start = 0;
+
+  constructor(private readonly capacity: number) {}
+
+  push(event: SequencedEvent): void {
+    if (this.events.length < this.capacity) {
+      this.events.push(event);
+    } else {
+      this.events[this.start] = event;
+      this.start = (this.start + 1) % this.capacity;
+    }
+  }
+
+  /** Buffered events in order (oldest first) */
+  toArray(): SequencedEvent[] {
+    return [...this.events.slice(this.start), ...this.events.slice(0, this.start)];
+  }
+
+  oldest(): SequencedEvent | undefined {
+    return this.events[this.start];
+  }
+
+  clear(): void {
+    this.events = [];
+    this.start = 0;
+  }
+}
+
 export class SessionService {
   private subscribers: Map<string, SSEClient> = new Map();
+  private eventBuffer: EventRingBuffer;
+  private lastEventId = 0;
+  // Event ids are "<bootId>-<sequence>": sequences restart with each server run,
+  // so ids from another run are recognised by their boot id instead of being replayed
+  private readonly bootId: string;
+
+  constructor(options: { eventBufferSize?: number; bootId?: string } = {}) {
+    this.bootId = options.bootId ?? randomUUID().split('-')[0];
+    const size = options.eventBufferSize ?? parseInt(process.env.SSE_EVENT_BUFFER_SIZE || '', 10);
+    this.eventBuffer = new EventRingBuffer(Number.isInteger(size) && size > 0 ? size : DEFAULT_EVENT_BUFFER_SIZE);
+  }
 
   subscribe(client: SSEClient): void {
     this.subscribers.set(client.id, client);
@@ -18,18 +80,30 @@ export class SessionService {
     }
   }
 
-  broadcast(event: string, data: unknown): void {
+  /**
+   * Send an event to all subscribers.
+   * Replayable events get a monotonically increasing id and are kept for Last-Event-ID replay;
+   * ephemeral events (e.g. message_delta) are superseded by later events and are not replayed.
+   */
+  broadcast(event: string, data: unknown, options: { replayable?: boolean } = {}): void {
     logger.debug(`Broadcasting event '${event}' to ${this.subscribers.size} clients`);
 
+    let id: string | undefined;
+    if (options.replayable ?? true) {
+      const seq = ++this.lastEventId;
+      id = this.formatEventId(seq);
+      this.eventBuffer.push({ seq, id, event, data });
+    }
+
     // Remove closed clients
     const closedClients: string[] = [];
 
-    this.subscribers.forEach((client, id) => {
+    this.subscribers.forEach((client, clientId) => {
       try {
-        client.send(event, data);
+        client.send(event, data, id);
       } catch (error) {
-        logger.error(`Error sending to client ${id}:`, error);
-        closedClients.push(id);
+        logger.error(`Error sending to client ${clientId}:`, error);
+        closedClients.push(clientId);
       }
     });
 
@@ -41,16 +115,124 @@ export class SessionService {
     this.broadcast('message_update', message);
   }
 
+  broadcastMessageDelta(delta: MessageDeltaEvent): void {
+    this.broadcast('message_delta', delta, { replayable: false });
+  }
+
   broadcastStatusChange(status: 'running' | 'stable'): void {
     this.broadcast('status_change', { status });
   }
 
+  broadcastQueueUpdate(queue: QueuedMessage[]): void {
+    const event: QueueUpdateEvent = { queue };
+    this.broadcast('queue_update', event);
+  }
+
+  broadcastActionUpdate(pendingActions: PendingAction[]): void {
+    const event: ActionUpdateEvent = { pending_actions: pendingActions };
+    this.broadcast('action_update', event);
+  }
+
+  broadcastModelChange(model: string, previousModel: string): void {
+    const event: ModelChangeEvent = { model, previous_model: previousModel };
+    this.broadcast('model_change', event);
+  }
+
+  broadcastPermissionModeChange(mode: PermissionMode, previousMode: PermissionMode): void {
+    const event: PermissionModeChangeEvent = { mode, previous_mode: previousMode };
+    this.broadcast('permission_mode_change', event);
+  }
+
+  broadcastUsageUpdate(turn: TurnUsage, session: SessionUsage): void {
+    const event: UsageUpdateEvent = { turn, session };
+    this.broadcast('usage_update', event);
+  }
+
   sendInitialState(client: SSEClient, messages: Message[], status: 'running' | 'stable'): void {
     const initEvent: InitEvent = {
       messages,
       status,
     };
-    client.send('init', initEvent);
+    // Tag init with the latest event id so a later reconnect only replays what follows
+    client.send('init', initEvent, this.formatEventId(this.lastEventId));
+  }
+
+  /**
+   * Replace the state of every subscriber with a fresh init (e.g. after /clear).
+   * Buffered events describe the replaced state, so they are dropped: a client resuming
+   * from an earlier event id gets a full init instead of a replay.
+   */
+  broadcastInit(messages: Message[], status: 'running' | 'stable'): void {
+    this.eventBuffer.clear();
+    const id = this.formatEventId(++this.lastEventId);
+    const initEvent: InitEvent = { messages, status };
+
+    const closedClients: string[] = [];
+    this.subscribers.forEach((client, clientId) => {
+      try {
+        client.send('init', initEvent, id);
+      } catch (error) {
+        logger.error(`Error sending to client ${clientId}:`, error);
+        closedClients.push(clientId);
+      }
+    });
+    closedClients.forEach(clientId => this.unsubscribe(clientId));
+  }
+
+  /**
+   * Events broadcast after the given event id, or null when they can no longer be
+   * replayed (aged out of the buffer, malformed, or the id is from a previous server run)
+   */
+  getEventsSince(lastEventId: string): BufferedEvent[] | null {
+    const match = /^(.+)-(\d+)$/.exec(lastEventId.trim());
+    if (!match || match[1] !== this.bootId) {
+      return null;
+    }
+
+    const seq = parseInt(match[2], 10);
+    if (seq > this.lastEventId) {
+      return null;
+    }
+    if (seq === this.lastEventId) {
+      return [];
+    }
+
+    const oldest = this.eventBuffer.oldest();
+    if (!oldest || oldest.seq > seq + 1) {
+      return null;
+    }
+
+    return this.eventBuffer.toArray()
+      .filter(e => e.seq > seq)
+      .map(({ id, event, data }) => ({ id, event, data }));
+  }
+
+  /**
+   * Replay buffered events to a client
+   */
+  replayEvents(client: SSEClient, events: BufferedEvent[]): void {
+    for (const { id, event, data } of events) {
+      client.send(event, data, id);
+    }
+  }
+
+  getLastEventId(): string {
+    return this.formatEventId(this.lastEventId);
+  }
+
+  private formatEventId(seq: number): string {
+    return `${this.bootId}-${seq}`;
+  }
+
+  closeAll(): void {
+    this.subscribers.forEach((client, id) => {
+      try {
+        client.close();
+      } catch (error) {
+        logger.error(`Error closing client ${id}:`, error);
+      }
+    });
+    this.subscribers.clear();
   }
 
   getSubscriberCount(): number {
@@ -0,0 +1,152 @@
+import type { SDKResultMessage, ModelUsage as SDKModelUsage } from '@anthropic-ai/claude-agent-sdk';
+import type { TokenUsage, ModelUsage, TurnUsage, SessionUsage } from '../types/api.js';
+
+/** Maximum number of per-turn records kept in memory (session totals are unaffected) */
+const MAX_USAGE_TURNS = 1000;
+
+function emptyTokenUsage(): TokenUsage {
+  return {
+    input_tokens: 0,
+    output_tokens: 0,
+    cache_read_input_tokens: 0,
+    cache_creation_input_tokens: 0,
+  };
+}
+
+function emptyModelUsage(): ModelUsage {
+  return { ...emptyTokenUsage(), web_search_requests: 0, cost_usd: 0 };
+}
+
+function addTokenUsage<T extends TokenUsage>(target: T, source: TokenUsage): T {
+  target.input_tokens += source.input_tokens;
+  target.output_tokens += source.output_tokens;
+  target.cache_read_input_tokens += source.cache_read_input_tokens;
+  target.cache_creation_input_tokens += source.cache_creation_input_tokens;
+  return target;
+}
+
+function toModelUsage(usage: SDKModelUsage): ModelUsage {
+  return {
+    input_tokens: usage.inputTokens ?? 0,
+    output_tokens: usage.outputTokens ?? 0,
+    cache_read_input_tokens: usage.cacheReadInputTokens ?? 0,
+    cache_creation_input_tokens: usage.cacheCreationInputTokens ?? 0,
+    web_search_requests: usage.webSearchRequests ?? 0,
+    cost_usd: usage.costUSD ?? 0,
+  };
+}
+
+/**
+ * Difference between two cumulative counters.
+ * A lower current value means the SDK process was restarted and its counters reset.
+ */
+function counterDelta(current: number, previous: number): number {
+  return current >= previous ? current - previous : current;
+}
+
+/**
+ * Collects token usage and cost from SDK result messages, per turn and per session.
+ *
+ * The SDK reports `usage` for the turn that just finished, while `total_cost_usd`
+ * and `modelUsage` are cumulative for the SDK process, so per-turn cost and the
+ * per-model split are derived from the difference with the previous result.
+ */
+export class UsageTracker {
+  private turns: TurnUsage[] = [];
+  private turnCount = 0;
+  private session: SessionUsage = UsageTracker.emptySession();
+  private lastTotalCost = 0;
+  private lastModelUsage: Record<string, ModelUsage> = {};
+
+  private static emptySession(): SessionUsage {
+    return {
+      turns: 0,
+      cost_usd: 0,
+      duration_ms: 0,
+      duration_api_ms: 0,
+      num_turns: 0,
+      tokens: emptyTokenUsage(),
+      models: {},
+    };
+  }
+
+  /**
+   * Reset the cumulative baselines (call when a new SDK query is started)
+   */
+  resetBaseline(): void {
+    this.lastTotalCost = 0;
+    this.lastModelUsage = {};
+  }
+
+  record(result: SDKResultMessage): TurnUsage {
+    const totalCost = result.total_cost_usd ?? 0;
+    const costUsd = counterDelta(totalCost, this.lastTotalCost);
+    this.lastTotalCost = totalCost;
+
+    const models: Record<string, ModelUsage> = {};
+    for (const [model, sdkUsage] of Object.entries(result.modelUsage ?? {})) {
+      const current = toModelUsage(sdkUsage);
+      const previous = this.lastModelUsage[model] ?? emptyModelUsage();
+      const delta: ModelUsage = {
+        input_tokens: counterDelta(current.input_tokens, previous.input_tokens),
+        output_tokens: counterDelta(current.output_tokens, previous.output_tokens),
+        cache_read_input_tokens: counterDelta(current.cache_read_input_tokens, previous.cache_read_input_tokens),
+        cache_creation_input_tokens: counterDelta(current.cache_creation_input_tokens, previous.cache_creation_input_tokens),
+        web_search_requests: counterDelta(current.web_search_requests, previous.web_search_requests),
+        cost_usd: counterDelta(current.cost_usd, previous.cost_usd),
+      };
+      this.lastModelUsage[model] = current;
+
+      if (delta.input_tokens || delta.output_tokens || delta.cache_read_input_tokens ||
+          delta.cache_creation_input_tokens || delta.web_search_requests || delta.cost_usd) {
+        models[model] = delta;
+      }
+    }
+
+    const turn: TurnUsage = {
+      turn: ++this.turnCount,
+      time: new Date().toISOString(),
+      subtype: result.subtype,
+      cost_usd: costUsd,
+      duration_ms: result.duration_ms ?? 0,
+      duration_api_ms: result.duration_api_ms ?? 0,
+      num_turns: result.num_turns ?? 0,
+      tokens: {
+        input_tokens: result.usage?.input_tokens ?? 0,
+        output_tokens: result.usage?.output_tokens ?? 0,
+        cache_read_input_tokens: result.usage?.cache_read_input_tokens ?? 0,
+        cache_creation_input_tokens: result.usage?.cache_creation_input_tokens ?? 0,
+      },
+      models,
+    };
+
+    this.session.turns = this.turnCount;
+    this.session.cost_usd += turn.cost_usd;
+    this.session.duration_ms += turn.duration_ms;
+    this.session.duration_api_ms += turn.duration_api_ms;
+    this.session.num_turns += turn.num_turns;
+    addTokenUsage(this.session.tokens, turn.tokens);
+    for (const [model, usage] of Object.entries(models)) {
+      const sessionModel = this.session.models[model] ?? emptyModelUsage();
+      addTokenUsage(sessionModel, usage);
+      sessionModel.web_search_requests += usage.web_search_requests;
+      sessionModel.cost_usd += usage.cost_usd;
+      this.session.models[model] = sessionModel;
+    }
+
+    this.turns.push(turn);
+    if (this.turns.length > MAX_USAGE_TURNS) {
+      this.turns.splice(0, this.turns.length - MAX_USAGE_TURNS);
+    }
+
+    return turn;
+  }
+
+  getSessionUsage(): SessionUsage {
+    return structuredClone(this.session);
+  }
+
+  getTurns(): TurnUsage[] {
+    return [...this.turns];
+  }
+}
@@ -9,6 +9,6 @@ export interface AgentState {
 
 export interface SSEClient {
   id: string;
-  send: (event: string, data: unknown) => void;
+  send: (event: string, data: unknown, id?: string) => void;
   close: () => void;
 }
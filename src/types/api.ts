@@ -2,21 +2,64 @@ import { z } from 'zod';
 
 // API Types based on coder/agentapi specification
 
+// Metadata of an image/document attached to a user message.
+// The content is not stored on the message: GET /messages/:id/attachments/:index serves the file at `file_path`
+export const MessageAttachmentSchema = z.object({
+  type: z.enum(['image', 'document']),
+  media_type: z.string(),
+  name: z.string().optional(),
+  size: z.number(), // Size in bytes
+  file_path: z.string().optional(), // Uploaded file, or the copy of an inline attachment in the uploads folder
+});
+
+export type MessageAttachment = z.infer<typeof MessageAttachmentSchema>;
+
 export const MessageSchema = z.object({
   id: z.number(),
-  role: z.enum(['user', 'assistant', 'agent', 'tool_result']),
+  // 'system' messages report the output of built-in commands (/cost, /model, ...) and compactions
+  role: z.enum(['user', 'assistant', 'agent', 'tool_result', 'system']),
   content: z.string(),
   time: z.string(), // ISO 8601 timestamp
   type: z.enum(['normal', 'question', 'plan']).optional(),
   // Tool execution tracking fields
   toolUseId: z.string().optional(), // ID of tool_use (for 'agent' role messages)
+  // SDK message ID (msg_...) of 'assistant' and 'agent' messages: matches `message_id` of the message_delta events it replaces
+  sdkMessageId: z.string().optional(),
   parentToolUseId: z.string().optional(), // ID of parent tool_use (for 'tool_result' role messages)
   status: z.enum(['success', 'error']).optional(), // Execution status (for 'tool_result' role messages)
   error: z.string().optional(), // Error message (for 'tool_result' role messages with status='error')
+  // Structured tool call fields (the JSON in `content` is kept for agentapi compatibility)
+  toolName: z.string().optional(), // Tool name (for 'agent' and 'tool_result' role messages)
+  toolInput: z.unknown().optional(), // Tool input (for 'agent' role messages)
+  isError: z.boolean().optional(), // Whether the tool reported an error (for 'tool_result' role messages)
+  // Shape of the tool output before it was flattened into `content` (for 'tool_result' role messages):
+  // 'text' for a string, 'blocks' for content blocks (text blocks joined), 'json' for other objects
+  contentType: z.enum(['text', 'blocks', 'json']).optional(),
+  // Subagent messages: tool_use ID of the Task call that spawned the subagent (SDK parent_tool_use_id)
+  threadId: z.string().optional(),
+  subagent: z.string().optional(), // Subagent name (subagent_type of the Task call)
+  // Slash command run by a 'user' message; `content` is the command as typed, the agent received the expanded prompt.
+  // On 'system' messages: the built-in command that produced them
+  command: z.object({
+    name: z.string(),
+    arguments: z.string(),
+  }).optional(),
+  attachments: z.array(MessageAttachmentSchema).optional(), // Images/documents sent with a 'user' message
 });
 
 export type Message = z.infer<typeof MessageSchema>;
 
+// Comma-separated (or repeated) query parameter, e.g. ?role=user,assistant
+function csvParam<T extends z.ZodTypeAny>(item: T) {
+  return z.preprocess(
+    value => (Array.isArray(value) ? value : [value])
+      .flatMap(v => String(v).split(','))
+      .map(v => v.trim())
+      .filter(v => v.length > 0),
+    z.array(item).min(1)
+  );
+}
+
 export const MessagesQueryParamsSchema = z.object({
   // Get first/last n messages
   limit: z.coerce.number().int().positive().optional(),
@@ -30,10 +73,42 @@ export const MessagesQueryParamsSchema = z.object({
   after: z.coerce.number().int().nonnegative().optional(),
   // Cursor-based pagination: Get messages with ID < before (excluding before itself)
   before: z.coerce.number().int().nonnegative().optional(),
+  // Filters (combined with AND; comma-separated values within one filter are combined with OR)
+  role: csvParam(MessageSchema.shape.role).optional(),
+  type: csvParam(z.enum(['normal', 'question', 'plan'])).optional(),
+  status: csvParam(z.enum(['success', 'error'])).optional(),
+  // Tool name of 'agent' (tool_use) and 'tool_result' messages
+  tool: csvParam(z.string()).optional(),
+  // Time range (ISO 8601, inclusive)
+  since: z.coerce.date().optional(),
+  until: z.coerce.date().optional(),
+  // Case-insensitive full-text search in message content
+  q: z.string().min(1).optional(),
+  // Messages of the subagent spawned by this Task tool_use ID, or 'main' for the top-level conversation
+  thread: z.string().min(1).optional(),
 });
 
 export type MessagesQueryParams = z.infer<typeof MessagesQueryParamsSchema>;
 
+export type MessageFilter = Pick<MessagesQueryParams, 'role' | 'type' | 'status' | 'tool' | 'since' | 'until' | 'q' | 'thread'>;
+
+export const ExportFormatSchema = z.enum(['markdown', 'jsonl', 'html']);
+
+export type ExportFormat = z.infer<typeof ExportFormatSchema>;
+
+// GET /messages/export accepts the same range filters as GET /messages
+export const MessagesExportQueryParamsSchema = MessagesQueryParamsSchema.extend({
+  format: ExportFormatSchema.default('markdown'),
+});
+
+export type MessagesExportQueryParams = z.infer<typeof MessagesExportQueryParamsSchema>;
+
+// GET /messages/:id/attachments/:index
+export const MessageAttachmentParamsSchema = z.object({
+  id: z.coerce.number().int().nonnegative(),
+  index: z.coerce.number().int().nonnegative(), // Position in the message's `attachments`
+});
+
 export const MessagesResponseBodySchema = z.object({
   $schema: z.string().optional(),
   messages: z.array(MessageSchema),
@@ -43,33 +118,220 @@ export const MessagesResponseBodySchema = z.object({
 
 export type MessagesResponseBody = z.infer<typeof MessagesResponseBodySchema>;
 
+// Active tool call with the active tool calls of the subagent it spawned (Task)
+export type ToolExecution = Message & { children?: ToolExecution[] };
+
+export const ToolExecutionSchema: z.ZodType<ToolExecution> = MessageSchema.extend({
+  children: z.lazy(() => z.array(ToolExecutionSchema)).optional(),
+});
+
 export const ToolStatusResponseBodySchema = z.object({
   $schema: z.string().optional(),
-  messages: z.array(MessageSchema),
+  messages: z.array(ToolExecutionSchema),
 });
 
 export type ToolStatusResponseBody = z.infer<typeof ToolStatusResponseBodySchema>;
 
-export const PostMessageRequestSchema = z.object({
+// Anthropic-style content blocks accepted by raw messages (forwarded to the SDK as-is)
+const Base64SourceSchema = z.object({
+  type: z.literal('base64'),
+  media_type: z.string(),
+  data: z.string(),
+}).passthrough();
+
+const UrlSourceSchema = z.object({
+  type: z.literal('url'),
+  url: z.string().url(),
+}).passthrough();
+
+const PlainTextSourceSchema = z.object({
+  type: z.literal('text'),
+  media_type: z.literal('text/plain'),
+  data: z.string(),
+}).passthrough();
+
+export const TextContentBlockSchema = z.object({
+  type: z.literal('text'),
+  text: z.string(),
+}).passthrough();
+
+export const ImageContentBlockSchema = z.object({
+  type: z.literal('image'),
+  source: z.discriminatedUnion('type', [Base64SourceSchema, UrlSourceSchema]),
+}).passthrough();
+
+export const DocumentContentBlockSchema = z.object({
+  type: z.literal('document'),
+  source: z.discriminatedUnion('type', [Base64SourceSchema, UrlSourceSchema, PlainTextSourceSchema]),
+  title: z.string().optional(),
+  context: z.string().optional(),
+}).passthrough();
+
+export const RawContentBlockSchema = z.discriminatedUnion('type', [
+  TextContentBlockSchema,
+  ImageContentBlockSchema,
+  DocumentContentBlockSchema,
+]);
+
+export type RawContentBlock = z.infer<typeof RawContentBlockSchema>;
+
+// Attachments of user messages: inline base64 data or a file uploaded with POST /upload
+export const Base64AttachmentSchema = z.object({
+  type: z.literal('base64'),
+  media_type: z.string(),
+  data: z.string().min(1),
+  name: z.string().optional(),
+});
+
+export const FileAttachmentSchema = z.object({
+  type: z.literal('file'),
+  file_path: z.string().min(1), // As returned by POST /upload
+  media_type: z.string().optional(), // Inferred from the file extension when omitted
+});
+
+export const AttachmentSchema = z.discriminatedUnion('type', [
+  Base64AttachmentSchema,
+  FileAttachmentSchema,
+]);
+
+export type Attachment = z.infer<typeof AttachmentSchema>;
+
+export const UserMessageRequestSchema = z.object({
+  type: z.literal('user'),
   content: z.string(),
-  type: z.enum(['user', 'raw']),
+  attachments: z.array(AttachmentSchema).max(20).optional(),
+});
+
+export const RawMessageRequestSchema = z.object({
+  type: z.literal('raw'),
+  content: z.union([z.string(), z.array(RawContentBlockSchema).min(1)]),
+  parent_tool_use_id: z.string().optional(),
 });
 
+export type RawMessageRequest = z.infer<typeof RawMessageRequestSchema>;
+
+export const PostMessageRequestSchema = z.discriminatedUnion('type', [
+  UserMessageRequestSchema,
+  RawMessageRequestSchema,
+]);
+
 export type PostMessageRequest = z.infer<typeof PostMessageRequestSchema>;
 
 export const PostMessageResponseSchema = z.object({
   ok: z.boolean(),
+  // Set when the message was queued because the agent is busy (queue mode)
+  queued: z.boolean().optional(),
+  queue_id: z.string().optional(),
+  position: z.number().optional(), // 1-based position in the queue
 });
 
 export type PostMessageResponse = z.infer<typeof PostMessageResponseSchema>;
 
+// POST /commands/:name
+export const RunCommandRequestSchema = z.object({
+  arguments: z.string().default(''),
+});
+
+export type RunCommandRequest = z.infer<typeof RunCommandRequestSchema>;
+
+// PUT /skills/:name
+export const UpdateSkillRequestSchema = z.object({
+  enabled: z.boolean(),
+});
+
+export type UpdateSkillRequest = z.infer<typeof UpdateSkillRequestSchema>;
+
+// Token usage and cost accounting (from SDK result messages)
+export const TokenUsageSchema = z.object({
+  input_tokens: z.number(),
+  output_tokens: z.number(),
+  cache_read_input_tokens: z.number(),
+  cache_creation_input_tokens: z.number(),
+});
+
+export type TokenUsage = z.infer<typeof TokenUsageSchema>;
+
+export const ModelUsageSchema = TokenUsageSchema.extend({
+  web_search_requests: z.number(),
+  cost_usd: z.number(),
+});
+
+export type ModelUsage = z.infer<typeof ModelUsageSchema>;
+
+export const TurnUsageSchema = z.object({
+  turn: z.number(), // 1-based index of the turn within the session
+  time: z.string(),
+  subtype: z.string(), // SDK result subtype (success, error_max_turns, ...)
+  cost_usd: z.number(),
+  duration_ms: z.number(),
+  duration_api_ms: z.number(),
+  num_turns: z.number(), // Agentic turns taken by the SDK for this user turn
+  tokens: TokenUsageSchema,
+  models: z.record(z.string(), ModelUsageSchema),
+});
+
+export type TurnUsage = z.infer<typeof TurnUsageSchema>;
+
+export const SessionUsageSchema = z.object({
+  turns: z.number(),
+  cost_usd: z.number(),
+  duration_ms: z.number(),
+  duration_api_ms: z.number(),
+  num_turns: z.number(),
+  tokens: TokenUsageSchema,
+  models: z.record(z.string(), ModelUsageSchema),
+});
+
+export type SessionUsage = z.infer<typeof SessionUsageSchema>;
+
+export const GetUsageResponseSchema = z.object({
+  session: SessionUsageSchema,
+  turns: z.array(TurnUsageSchema),
+});
+
+export type GetUsageResponse = z.infer<typeof GetUsageResponseSchema>;
+
+export const PermissionModeSchema = z.enum(['default', 'acceptEdits', 'plan', 'bypassPermissions']);
+
 export const StatusResponseSchema = z.object({
   agent_type: z.string(),
   status: z.enum(['running', 'stable']),
+  // Whether the underlying SDK session was resumed on startup
+  resumed: z.boolean().optional(),
+  // SDK session ID (available after the SDK init message)
+  session_id: z.string().optional(),
+  // Token usage and cost accumulated in this session
+  usage: SessionUsageSchema.optional(),
+  // Model used for the next turns ('default' = SDK default)
+  model: z.string().optional(),
+  permission_mode: PermissionModeSchema.optional(),
 });
 
 export type StatusResponse = z.infer<typeof StatusResponseSchema>;
 
+// Text fields of the multipart POST /upload form (the file itself is the `file` field)
+export const UploadFormSchema = z.object({
+  // Subdirectory of the uploads folder to store the file in
+  uploadPath: z.string().optional(),
+});
+
+export type UploadForm = z.infer<typeof UploadFormSchema>;
+
+export const ModelInfoSchema = z.object({
+  value: z.string(), // Model alias or ID accepted by set_model
+  display_name: z.string().optional(),
+  description: z.string().optional(),
+});
+
+export type ModelInfo = z.infer<typeof ModelInfoSchema>;
+
+export const GetModelsResponseSchema = z.object({
+  current: z.string(),
+  models: z.array(ModelInfoSchema),
+});
+
+export type GetModelsResponse = z.infer<typeof GetModelsResponseSchema>;
+
 export const UploadResponseSchema = z.object({
   filePath: z.string(),
   ok: z.boolean(),
@@ -88,8 +350,25 @@ export const ProblemJsonSchema = z.object({
 
 export type ProblemJson = z.infer<typeof ProblemJsonSchema>;
 
+// Message queue types for /queue endpoints
+export const QueuedMessageSchema = z.object({
+  id: z.string(),
+  content: z.string(),
+  position: z.number(), // 1-based position in the queue
+  queued_at: z.string(), // ISO 8601 timestamp
+  attachments: z.array(MessageAttachmentSchema).optional(),
+});
+
+export type QueuedMessage = z.infer<typeof QueuedMessageSchema>;
+
+export const GetQueueResponseSchema = z.object({
+  queue: z.array(QueuedMessageSchema),
+});
+
+export type GetQueueResponse = z.infer<typeof GetQueueResponseSchema>;
+
 // SSE Event types
-export type SSEEventType = 'init' | 'message_update' | 'status_change';
+export type SSEEventType = 'init' | 'message_update' | 'status_change' | 'queue_update' | 'action_update' | 'usage_update' | 'message_delta' | 'model_change' | 'permission_mode_change';
 
 export interface SSEEvent {
   event: SSEEventType;
@@ -101,6 +380,36 @@ export interface InitEvent {
   status: 'running' | 'stable';
 }
 
+export interface ModelChangeEvent {
+  model: string;
+  previous_model: string;
+}
+
+export interface PermissionModeChangeEvent {
+  mode: z.infer<typeof PermissionModeSchema>;
+  previous_mode: z.infer<typeof PermissionModeSchema>;
+}
+
+export interface QueueUpdateEvent {
+  queue: QueuedMessage[];
+}
+
+// Partial assistant output streamed before the complete message_update
+export interface MessageDeltaEvent {
+  message_id: string; // SDK message ID shared by all deltas of one assistant message
+  index: number; // Content block index within the message
+  type: 'text' | 'tool_input';
+  delta: string; // Text fragment, or partial JSON of the tool input
+  tool_use_id?: string; // For tool_input deltas (matches toolUseId of the final agent message)
+  tool_name?: string;
+  parent_tool_use_id?: string; // Set when the output comes from a subagent
+}
+
+export interface UsageUpdateEvent {
+  turn: TurnUsage;
+  session: SessionUsage;
+}
+
 // Action request schemas for various agent actions
 export const AnswerQuestionActionSchema = z.object({
   type: z.literal('answer_question'),
@@ -116,10 +425,42 @@ export const StopAgentActionSchema = z.object({
   type: z.literal('stop_agent'),
 });
 
+export const ApproveToolActionSchema = z.object({
+  type: z.literal('approve_tool'),
+  // Optional when exactly one tool approval is pending
+  tool_use_id: z.string().optional(),
+  decision: z.enum(['allow', 'deny']),
+  // Reason sent back to the agent when denying
+  message: z.string().optional(),
+  // Replacement tool input when allowing with edits
+  updated_input: z.record(z.string(), z.unknown()).optional(),
+  // Allow this tool (or pattern) without asking for the rest of the session
+  always_allow: z.boolean().optional(),
+  // Tool name glob for always_allow, e.g. "mcp__github__*" (defaults to the tool name)
+  pattern: z.string().min(1).optional(),
+});
+
+export type ApproveToolAction = z.infer<typeof ApproveToolActionSchema>;
+
+export const SetModelActionSchema = z.object({
+  type: z.literal('set_model'),
+  // Model alias or ID (see GET /models); 'default' restores the SDK default
+  model: z.string().min(1),
+});
+
+export const SetPermissionModeActionSchema = z.object({
+  type: z.literal('set_permission_mode'),
+  // bypassPermissions requires the admin scope and ALLOW_PERMISSION_BYPASS=true
+  mode: PermissionModeSchema,
+});
+
 export const PostActionRequestSchema = z.discriminatedUnion('type', [
   AnswerQuestionActionSchema,
   ApprovePlanActionSchema,
   StopAgentActionSchema,
+  ApproveToolActionSchema,
+  SetModelActionSchema,
+  SetPermissionModeActionSchema,
 ]);
 
 export type PostActionRequest = z.infer<typeof PostActionRequestSchema>;
@@ -144,6 +485,49 @@ export const GetActionResponseSchema = z.object({
 
 export type GetActionResponse = z.infer<typeof GetActionResponseSchema>;
 
+export interface ActionUpdateEvent {
+  pending_actions: PendingAction[];
+}
+
+// WebSocket transport (/ws) frames
+const WsRequestIdSchema = z.union([z.string(), z.number()]);
+
+// Client -> server: send a message (same fields as POST /message; message_type defaults to 'user')
+export const WsMessageFrameSchema = z.object({
+  id: WsRequestIdSchema.optional(),
+  type: z.literal('message'),
+  message_type: z.enum(['user', 'raw']).optional(),
+  content: z.unknown(),
+  parent_tool_use_id: z.string().optional(),
+  attachments: z.unknown().optional(),
+});
+
+export type WsMessageFrame = z.infer<typeof WsMessageFrameSchema>;
+
+// Client -> server envelope; action frames carry the POST /action body fields
+export const WsRequestFrameSchema = z.object({
+  id: WsRequestIdSchema.optional(),
+  type: z.string(),
+}).passthrough();
+
+export type WsRequestFrame = z.infer<typeof WsRequestFrameSchema>;
+
+// Server -> client: an event, as emitted on GET /events
+export interface WsEventFrame {
+  type: 'event';
+  event: string;
+  event_id?: string;
+  data: unknown;
+}
+
+// Server -> client: the result of a request frame (same status and body as the HTTP endpoint)
+export interface WsResponseFrame {
+  type: 'response';
+  id?: string | number;
+  status: number;
+  body: unknown;
+}
+
 // Resource types for /resources endpoint
 export const ResourceSchema = z.object({
   type: z.enum(['skill', 'slash_command', 'subagent']),
@@ -159,3 +543,25 @@ export const ResourcesResponseSchema = z.object({
 });
 
 export type ResourcesResponse = z.infer<typeof ResourcesResponseSchema>;
+
+// Session types for /sessions endpoints
+export const CreateSessionRequestSchema = z.object({
+  working_directory: z.string().min(1).optional(),
+});
+
+export type CreateSessionRequest = z.infer<typeof CreateSessionRequestSchema>;
+
+export const SessionInfoSchema = z.object({
+  id: z.string(),
+  working_directory: z.string(),
+  status: z.enum(['running', 'stable']),
+  created_at: z.string(), // ISO 8601 timestamp
+});
+
+export type SessionInfo = z.infer<typeof SessionInfoSchema>;
+
+export const ListSessionsResponseSchema = z.object({
+  sessions: z.array(SessionInfoSchema),
+});
+
+export type ListSessionsResponse = z.infer<typeof ListSessionsResponseSchema>;
@@ -80,6 +80,25 @@ export interface HookConfig {
  */
 export type HooksConfig = Record<string, HookConfig>;
 
+/**
+ * Subagent definition (same fields as the frontmatter of .claude/agents/*.md)
+ */
+export interface AgentConfig {
+  /** When the agent should be used */
+  description: string;
+  /** System prompt of the agent */
+  prompt: string;
+  /** Allowed tools (inherits all tools when omitted) */
+  tools?: string[];
+  /** Model alias (sonnet, opus, haiku or inherit) */
+  model?: string;
+}
+
+/**
+ * Subagents configuration map (agent name -> definition)
+ */
+export type AgentsConfig = Record<string, AgentConfig>;
+
 /**
  * Main Claude configuration structure
  * Compatible with Claude Code's .claude/config.json
@@ -93,6 +112,10 @@ export interface ClaudeConfig {
   skills?: PluginsConfig;
   /** Hook configurations */
   hooks?: HooksConfig;
+  /** Inline subagent definitions */
+  agents?: AgentsConfig;
+  /** Agent Skills (SKILL.md) enabled when a session starts; all discovered skills when omitted */
+  enabledSkills?: string[];
   /** Allowed tools (for MCP tool permissions) - supports wildcards like "mcp__servername__*" */
   allowedTools?: string[];
   /** Environment variables */
@@ -131,6 +154,16 @@ export interface SdkPluginConfig {
  */
 export type SettingSource = 'user' | 'project' | 'local';
 
+/**
+ * Permission mode of the agent (SDK permission modes supported by this server)
+ */
+export type PermissionMode = 'default' | 'acceptEdits' | 'plan' | 'bypassPermissions';
+
+/**
+ * Message history persistence backend
+ */
+export type MessageStoreType = 'memory' | 'jsonl' | 'sqlite';
+
 /**
  * Merged configuration with environment variable overrides
  */
@@ -138,7 +171,9 @@ export interface ResolvedConfig {
   /** Working directory for the agent */
   workingDirectory: string;
   /** Permission mode */
-  permissionMode: 'default' | 'acceptEdits' | 'bypassPermissions';
+  permissionMode: PermissionMode;
+  /** Allow switching to bypassPermissions at runtime (set_permission_mode) */
+  allowPermissionBypass?: boolean;
   /** MCP servers to be passed to the Agent SDK */
   mcpServers?: MCPServersConfig;
   /** Plugins/skills configuration (from config.json) */
@@ -147,10 +182,26 @@ export interface ResolvedConfig {
   sdkPlugins?: SdkPluginConfig[];
   /** Hooks configuration */
   hooks?: HooksConfig;
+  /** Inline subagent definitions (from config.json) */
+  agents?: AgentsConfig;
+  /** Agent Skills enabled when a session starts (all skills when omitted) */
+  enabledSkills?: string[];
   /** Allowed tools (for MCP tool permissions) */
   allowedTools?: string[];
   /** Environment variables */
   env?: Record<string, string>;
   /** Setting sources for loading CLAUDE.md and settings files */
   settingSources?: SettingSource[];
+  /** Message history persistence backend (default: memory) */
+  messageStore?: MessageStoreType;
+  /** Resume the previous SDK session on startup */
+  resumeSession?: boolean;
+  /** Queue messages posted while the agent is busy instead of rejecting them */
+  messageQueue?: boolean;
+  /** Folder for POST /upload, relative to the working directory (default: uploads) */
+  uploadsDir?: string;
+  /** Maximum size of an uploaded file in bytes */
+  uploadMaxFileSize?: number;
+  /** Models that set_model may switch to (empty: any model) */
+  allowedModels?: string[];
 }
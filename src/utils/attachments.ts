@@ -0,0 +1,119 @@
+import { readFile, stat } from 'fs/promises';
+import { basename, extname, join, resolve } from 'path';
+import type { Attachment, MessageAttachment, RawContentBlock } from '../types/api.js';
+import { isPathInside, sanitizeFilename, saveUpload } from './upload.js';
+
+/** Subfolder of the uploads folder keeping a copy of inline (base64) attachments */
+export const INLINE_ATTACHMENTS_DIR = 'attachments';
+
+const IMAGE_MEDIA_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+const DOCUMENT_MEDIA_TYPES = ['application/pdf', 'text/plain'];
+
+const MEDIA_TYPES_BY_EXTENSION: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.pdf': 'application/pdf',
+  '.txt': 'text/plain',
+  '.md': 'text/plain',
+};
+
+/**
+ * Error for attachments that cannot be sent (unsupported type, missing file, ...)
+ */
+export class AttachmentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AttachmentError';
+  }
+}
+
+/**
+ * An attachment ready to be sent: the SDK content block and the metadata stored on the message
+ */
+export interface PreparedAttachment {
+  block: RawContentBlock;
+  metadata: MessageAttachment;
+}
+
+function toContentBlock(mediaType: string, data: Buffer, name?: string): PreparedAttachment {
+  if (IMAGE_MEDIA_TYPES.includes(mediaType)) {
+    return {
+      block: { type: 'image', source: { type: 'base64', media_type: mediaType, data: data.toString('base64') } },
+      metadata: { type: 'image', media_type: mediaType, name, size: data.length },
+    };
+  }
+
+  if (DOCUMENT_MEDIA_TYPES.includes(mediaType)) {
+    const source = mediaType === 'text/plain'
+      ? { type: 'text' as const, media_type: 'text/plain' as const, data: data.toString('utf-8') }
+      : { type: 'base64' as const, media_type: mediaType, data: data.toString('base64') };
+    return {
+      block: { type: 'document', source, ...(name ? { title: name } : {}) },
+      metadata: { type: 'document', media_type: mediaType, name, size: data.length },
+    };
+  }
+
+  throw new AttachmentError(
+    `Unsupported attachment media type: ${mediaType} (supported: ${[...IMAGE_MEDIA_TYPES, ...DOCUMENT_MEDIA_TYPES].join(', ')})`
+  );
+}
+
+async function readUploadedFile(filePath: string, uploadsRoot: string): Promise<Buffer> {
+  // Only files uploaded with POST /upload can be attached
+  if (!isPathInside(uploadsRoot, filePath)) {
+    throw new AttachmentError(`Attachment ${filePath} is outside of the uploads folder`);
+  }
+
+  try {
+    if (!(await stat(filePath)).isFile()) {
+      throw new AttachmentError(`Attachment ${filePath} is not a file`);
+    }
+    return await readFile(filePath);
+  } catch (error) {
+    if (error instanceof AttachmentError) {
+      throw error;
+    }
+    throw new AttachmentError(`Attachment ${filePath} not found`);
+  }
+}
+
+function inlineAttachmentFilename(mediaType: string, name?: string): string {
+  if (name) {
+    return sanitizeFilename(name);
+  }
+  const ext = Object.keys(MEDIA_TYPES_BY_EXTENSION).find(e => MEDIA_TYPES_BY_EXTENSION[e] === mediaType) ?? '';
+  return `attachment${ext}`;
+}
+
+/**
+ * Convert message attachments into image/document content blocks.
+ * Inline attachments are also saved to the uploads folder, so every attachment has a `file_path` clients can fetch.
+ * @param uploadsRoot Absolute path of the uploads folder; file references are resolved against it
+ */
+export async function prepareAttachments(attachments: Attachment[], uploadsRoot: string): Promise<PreparedAttachment[]> {
+  return Promise.all(attachments.map(async (attachment) => {
+    if (attachment.type === 'base64') {
+      const data = Buffer.from(attachment.data, 'base64');
+      const prepared = toContentBlock(attachment.media_type, data, attachment.name);
+      prepared.metadata.file_path = await saveUpload(
+        join(uploadsRoot, INLINE_ATTACHMENTS_DIR),
+        inlineAttachmentFilename(attachment.media_type, attachment.name),
+        data
+      );
+      return prepared;
+    }
+
+    const filePath = resolve(uploadsRoot, attachment.file_path);
+    const mediaType = attachment.media_type ?? MEDIA_TYPES_BY_EXTENSION[extname(filePath).toLowerCase()];
+    if (!mediaType) {
+      throw new AttachmentError(`Cannot infer the media type of ${attachment.file_path}; set media_type`);
+    }
+
+    const prepared = toContentBlock(mediaType, await readUploadedFile(filePath, uploadsRoot), basename(filePath));
+    prepared.metadata.file_path = filePath;
+    return prepared;
+  }));
+}
@@ -0,0 +1,234 @@
+import { readFileSync } from 'fs';
+import { createHash, timingSafeEqual } from 'crypto';
+import type { IncomingHttpHeaders } from 'http';
+import type { Request, Response, NextFunction, RequestHandler } from 'express';
+import { z } from 'zod';
+import type { ProblemJson } from '../types/api.js';
+import { logger } from './logger.js';
+
+/**
+ * read: status, messages, events; write: message, action (implies read); admin: everything
+ */
+export const AUTH_SCOPES = ['read', 'write', 'admin'] as const;
+
+export type AuthScope = typeof AUTH_SCOPES[number];
+
+export interface AuthToken {
+  /** Label used in logs (never the token itself) */
+  name: string;
+  token: string;
+  scopes: AuthScope[];
+}
+
+export interface AuthConfig {
+  /** Authentication is enforced when at least one token is configured */
+  tokens: AuthToken[];
+  /** Allow GET /health without credentials (for liveness/readiness probes) */
+  publicHealth: boolean;
+}
+
+/** The authenticated caller, available as res.locals.auth */
+export interface AuthPrincipal {
+  name: string;
+  scopes: AuthScope[];
+}
+
+export type AuthResult =
+  | { ok: true; principal: AuthPrincipal | null }
+  | { ok: false; problem: ProblemJson };
+
+const TokensFileSchema = z.object({
+  tokens: z.array(z.object({
+    name: z.string().optional(),
+    token: z.string().min(1),
+    scopes: z.array(z.enum(AUTH_SCOPES)).min(1),
+  })),
+});
+
+const IMPLIED_SCOPES: Record<AuthScope, AuthScope[]> = {
+  read: ['read'],
+  write: ['read', 'write'],
+  admin: ['read', 'write', 'admin'],
+};
+
+/**
+ * Parse AUTH_TOKENS: comma-separated `token:scope|scope` entries (scopes default to read|write)
+ */
+function parseTokensEnv(value: string): AuthToken[] {
+  return value.split(',').map(entry => entry.trim()).filter(Boolean).map((entry, i) => {
+    const separator = entry.lastIndexOf(':');
+    const token = separator === -1 ? entry : entry.slice(0, separator);
+    const scopeList = separator === -1 ? 'read|write' : entry.slice(separator + 1);
+    const scopes = scopeList.split('|').map(s => s.trim());
+
+    const invalid = scopes.filter(s => !(AUTH_SCOPES as readonly string[]).includes(s));
+    if (!token || invalid.length > 0) {
+      throw new Error(`Invalid AUTH_TOKENS entry #${i + 1}${invalid.length > 0 ? `: unknown scope(s) ${invalid.join(', ')}` : ''}`);
+    }
+
+    return { name: `env#${i + 1}`, token, scopes: scopes as AuthScope[] };
+  });
+}
+
+/**
+ * Load authentication settings from environment variables:
+ * - AUTH_TOKENS: inline tokens (`token:read|write,other:admin`)
+ * - AUTH_TOKENS_FILE: JSON file `{ "tokens": [{ "name", "token", "scopes" }] }`
+ * - AUTH_HEALTH_PUBLIC: set to `false` to require a token for /health
+ *
+ * Throws on malformed configuration so that a typo never silently disables auth.
+ */
+export function loadAuthConfig(): AuthConfig {
+  const tokens: AuthToken[] = [];
+
+  if (process.env.AUTH_TOKENS) {
+    tokens.push(...parseTokensEnv(process.env.AUTH_TOKENS));
+  }
+
+  const tokensFile = process.env.AUTH_TOKENS_FILE;
+  if (tokensFile) {
+    const parsed = TokensFileSchema.safeParse(JSON.parse(readFileSync(tokensFile, 'utf-8')));
+    if (!parsed.success) {
+      throw new Error(`Invalid AUTH_TOKENS_FILE ${tokensFile}: ${parsed.error.message}`);
+    }
+    parsed.data.tokens.forEach((t, i) => {
+      tokens.push({ name: t.name ?? `file#${i + 1}`, token: t.token, scopes: t.scopes });
+    });
+    logger.info(`Loaded ${parsed.data.tokens.length} API token(s) from: ${tokensFile}`);
+  }
+
+  return {
+    tokens,
+    publicHealth: process.env.AUTH_HEALTH_PUBLIC !== 'false',
+  };
+}
+
+export function isAuthEnabled(config: AuthConfig): boolean {
+  return config.tokens.length > 0;
+}
+
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+function findToken(config: AuthConfig, presented: string): AuthToken | undefined {
+  // Compare fixed-length digests in constant time
+  const presentedDigest = digest(presented);
+  return config.tokens.find(t => timingSafeEqual(digest(t.token), presentedDigest));
+}
+
+/**
+ * Extract credentials: `Authorization: Bearer <token>`, `X-API-Key: <token>`, or
+ * an `access_token` query parameter (for EventSource/WebSocket clients that cannot set headers)
+ */
+export function extractCredential(headers: IncomingHttpHeaders, query: URLSearchParams): string | undefined {
+  const authorization = headers.authorization;
+  if (authorization) {
+    const match = /^Bearer\s+(.+)$/i.exec(authorization);
+    if (match) {
+      return match[1].trim();
+    }
+  }
+
+  const apiKey = headers['x-api-key'];
+  if (typeof apiKey === 'string' && apiKey) {
+    return apiKey;
+  }
+
+  return query.get('access_token') ?? undefined;
+}
+
+export function hasScope(principal: AuthPrincipal | null, scope: AuthScope): boolean {
+  // null principal means authentication is disabled
+  return principal === null || principal.scopes.some(s => IMPLIED_SCOPES[s].includes(scope));
+}
+
+export function insufficientScope(scope: AuthScope): ProblemJson {
+  return {
+    type: 'about:blank',
+    title: 'Forbidden',
+    status: 403,
+    detail: `This request requires the '${scope}' scope.`,
+  };
+}
+
+/**
+ * Authenticate a request and check that the caller has the required scope
+ */
+export function authenticate(
+  config: AuthConfig,
+  headers: IncomingHttpHeaders,
+  query: URLSearchParams,
+  scope: AuthScope
+): AuthResult {
+  if (!isAuthEnabled(config)) {
+    return { ok: true, principal: null };
+  }
+
+  const credential = extractCredential(headers, query);
+  const token = credential ? findToken(config, credential) : undefined;
+
+  if (!token) {
+    return {
+      ok: false,
+      problem: {
+        type: 'about:blank',
+        title: 'Unauthorized',
+        status: 401,
+        detail: credential
+          ? 'Invalid API token.'
+          : 'Missing API token. Use the Authorization: Bearer header or the X-API-Key header.',
+      },
+    };
+  }
+
+  const principal: AuthPrincipal = { name: token.name, scopes: token.scopes };
+  if (!hasScope(principal, scope)) {
+    return { ok: false, problem: insufficientScope(scope) };
+  }
+
+  return { ok: true, principal };
+}
+
+/**
+ * Scope required for an HTTP request: reads need `read`, mutations need `write`,
+ * and creating or deleting sessions needs `admin`
+ */
+export function requiredScope(req: Request): AuthScope {
+  if (req.method === 'GET' || req.method === 'HEAD' || req.method === 'OPTIONS') {
+    return 'read';
+  }
+  if (/^\/sessions(\/[^/]+)?\/?$/.test(req.path)) {
+    return 'admin';
+  }
+  return 'write';
+}
+
+export function sendProblem(res: Response, problem: ProblemJson): void {
+  if (problem.status === 401) {
+    res.setHeader('WWW-Authenticate', 'Bearer');
+  }
+  res.status(problem.status).json(problem);
+}
+
+/**
+ * Express middleware enforcing token authentication
+ */
+export function createAuthMiddleware(config: AuthConfig): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (config.publicHealth && req.method === 'GET' && req.path === '/health') {
+      return next();
+    }
+
+    const query = new URLSearchParams(req.originalUrl.split('?')[1] ?? '');
+    const result = authenticate(config, req.headers, query, requiredScope(req));
+
+    if (!result.ok) {
+      logger.warn(`Rejected ${req.method} ${req.path}: ${result.problem.title}`);
+      return sendProblem(res, result.problem);
+    }
+
+    res.locals.auth = result.principal;
+    next();
+  };
+}
@@ -1,8 +1,10 @@
 import { readFile, access, stat } from 'fs/promises';
-import { join } from 'path';
+import { join, resolve } from 'path';
 import { homedir } from 'os';
-import type { ClaudeConfig, ResolvedConfig, MCPServersConfig, PluginsConfig, ClaudeSettings, SdkPluginConfig, SettingSource } from '../types/config.js';
+import type { PermissionMode, ClaudeConfig, ResolvedConfig, MCPServersConfig, PluginsConfig, ClaudeSettings, SdkPluginConfig, SettingSource, MessageStoreType } from '../types/config.js';
+import { PermissionModeSchema } from '../types/api.js';
 import { logger } from './logger.js';
+import { DEFAULT_UPLOADS_DIR, DEFAULT_UPLOAD_MAX_FILE_SIZE, isPathInside } from './upload.js';
 
 /**
  * Load MCP config from --mcp-config option
@@ -147,6 +149,22 @@ function mergeConfigs(configs: ClaudeConfig[]): ClaudeConfig {
       };
     }
 
+    // Merge agents
+    if (config.agents) {
+      merged.agents = {
+        ...merged.agents,
+        ...config.agents,
+      };
+    }
+
+    // Merge enabledSkills (concatenate arrays)
+    if (config.enabledSkills) {
+      merged.enabledSkills = [...new Set([
+        ...(merged.enabledSkills || []),
+        ...config.enabledSkills,
+      ])];
+    }
+
     // Merge allowedTools (concatenate arrays)
     if (config.allowedTools) {
       merged.allowedTools = [
@@ -268,10 +286,11 @@ async function resolvePluginsFromSettings(settings: ClaudeSettings | null): Prom
 
 /**
  * Resolve final configuration with environment variable overrides
+ * @param overrides Per-session overrides (e.g. a session-specific working directory)
  */
-export async function resolveConfig(): Promise<ResolvedConfig> {
-  // Get working directory from env or default to current directory
-  const workingDirectory = process.env.CLAUDE_WORKING_DIRECTORY || process.cwd();
+export async function resolveConfig(overrides: { workingDirectory?: string } = {}): Promise<ResolvedConfig> {
+  // Get working directory from override, env or default to current directory
+  const workingDirectory = overrides.workingDirectory || process.env.CLAUDE_WORKING_DIRECTORY || process.cwd();
 
   // Load Claude config files
   const claudeConfig = await loadClaudeConfig(workingDirectory);
@@ -280,15 +299,16 @@ export async function resolveConfig(): Promise<ResolvedConfig> {
   const settings = await loadClaudeSettings();
 
   // Determine permission mode
-  let permissionMode: 'default' | 'acceptEdits' | 'bypassPermissions' = 'default';
+  let permissionMode: PermissionMode = 'default';
 
   if (process.env.DANGEROUSLY_SKIP_PERMISSIONS === 'true') {
     permissionMode = 'bypassPermissions';
     logger.warn('⚠️  WARNING: All permission checks are disabled (bypassPermissions mode)');
   } else if (process.env.CLAUDE_PERMISSION_MODE) {
     const mode = process.env.CLAUDE_PERMISSION_MODE;
-    if (mode === 'default' || mode === 'acceptEdits' || mode === 'bypassPermissions') {
-      permissionMode = mode;
+    const parsed = PermissionModeSchema.safeParse(mode);
+    if (parsed.success) {
+      permissionMode = parsed.data;
     } else {
       logger.warn(`Invalid permission mode: ${mode}. Using default.`);
     }
@@ -322,22 +342,73 @@ export async function resolveConfig(): Promise<ResolvedConfig> {
     }
   }
 
+  // Determine message history persistence backend
+  let messageStore: MessageStoreType = 'memory';
+
+  if (process.env.MESSAGE_STORE) {
+    const store = process.env.MESSAGE_STORE;
+    if (store === 'memory' || store === 'jsonl' || store === 'sqlite') {
+      messageStore = store;
+    } else {
+      logger.warn(`Invalid MESSAGE_STORE: ${store}. Using default: memory`);
+    }
+  }
+
+  // Determine uploads folder and size limit for POST /upload
+  let uploadsDir = DEFAULT_UPLOADS_DIR;
+
+  if (process.env.UPLOADS_DIR) {
+    const dir = process.env.UPLOADS_DIR;
+    if (isPathInside(resolve(workingDirectory), resolve(workingDirectory, dir))) {
+      uploadsDir = dir;
+    } else {
+      logger.warn(`UPLOADS_DIR must be inside the working directory: ${dir}. Using default: ${DEFAULT_UPLOADS_DIR}`);
+    }
+  }
+
+  let uploadMaxFileSize = DEFAULT_UPLOAD_MAX_FILE_SIZE;
+
+  if (process.env.UPLOAD_MAX_FILE_SIZE) {
+    const size = Number(process.env.UPLOAD_MAX_FILE_SIZE);
+    if (Number.isInteger(size) && size > 0) {
+      uploadMaxFileSize = size;
+    } else {
+      logger.warn(`Invalid UPLOAD_MAX_FILE_SIZE: ${process.env.UPLOAD_MAX_FILE_SIZE}. Using default: ${DEFAULT_UPLOAD_MAX_FILE_SIZE}`);
+    }
+  }
+
   const resolved: ResolvedConfig = {
     workingDirectory,
     permissionMode,
+    allowPermissionBypass: process.env.ALLOW_PERMISSION_BYPASS === 'true',
     mcpServers,
     plugins,
     sdkPlugins: sdkPlugins.length > 0 ? sdkPlugins : undefined,
     hooks: claudeConfig.hooks,
+    agents: claudeConfig.agents,
+    enabledSkills: claudeConfig.enabledSkills,
     allowedTools: claudeConfig.allowedTools,
     env: claudeConfig.env,
     settingSources,
+    messageStore,
+    resumeSession: process.env.CLAUDE_RESUME_SESSION === 'true',
+    messageQueue: process.env.CLAUDE_MESSAGE_QUEUE === 'true',
+    uploadsDir,
+    uploadMaxFileSize,
+    allowedModels: process.env.ALLOWED_MODELS
+      ? process.env.ALLOWED_MODELS.split(',').map(m => m.trim()).filter(Boolean)
+      : undefined,
   };
 
   // Log configuration summary
   logger.info('Configuration resolved:');
   logger.info(`  Working directory: ${resolved.workingDirectory}`);
-  logger.info(`  Permission mode: ${resolved.permissionMode}`);
+  logger.info(`  Permission mode: ${resolved.permissionMode}${resolved.allowPermissionBypass ? ' (runtime bypass allowed)' : ''}`);
+  logger.info(`  Message store: ${resolved.messageStore}`);
+  logger.info(`  Resume session: ${resolved.resumeSession ? 'yes' : 'no'}`);
+  logger.info(`  Message queue: ${resolved.messageQueue ? 'enabled' : 'disabled'}`);
+  logger.info(`  Allowed models: ${resolved.allowedModels?.join(', ') || 'any'}`);
+  logger.info(`  Uploads folder: ${resolved.uploadsDir} (max file size: ${resolved.uploadMaxFileSize} bytes)`);
   logger.info(`  Setting sources: ${resolved.settingSources?.join(', ') || 'none'} (CLAUDE.md enabled: ${resolved.settingSources?.includes('project') ? 'yes' : 'no'})`);
 
   if (mcpServers && Object.keys(mcpServers).length > 0) {
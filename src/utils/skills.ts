@@ -0,0 +1,154 @@
+import { readdir, readFile } from 'fs/promises';
+import type { Dirent } from 'fs';
+import { join, basename, relative } from 'path';
+import { homedir } from 'os';
+import type { ResolvedConfig } from '../types/config.js';
+import { frontmatterList, frontmatterString, parseFrontmatter } from './slash-commands.js';
+import { logger } from './logger.js';
+
+const SKILL_FILE = 'SKILL.md';
+
+/**
+ * Information about a discovered Agent Skill (skills/<name>/SKILL.md folder)
+ */
+export interface SkillInfo {
+  /** Skill name (frontmatter `name`, defaults to the folder name; "pluginName:name" for plugin skills) */
+  name: string;
+  /** What the skill does and when to use it */
+  description: string;
+  /** Tools the skill may use (`allowed-tools` frontmatter) */
+  allowedTools?: string[];
+  /** Source of the skill */
+  source: 'plugin' | 'user' | 'project';
+  /** Plugin name (only when source is 'plugin') */
+  pluginName?: string;
+  /** Absolute path to the skill folder */
+  path: string;
+  /** Files bundled with the skill (scripts, references, ...), relative to the skill folder */
+  files: string[];
+}
+
+async function readDirEntries(dir: string): Promise<Dirent[]> {
+  try {
+    return await readdir(dir, { withFileTypes: true });
+  } catch {
+    logger.debug(`Skills directory not found or unreadable: ${dir}`);
+    return [];
+  }
+}
+
+/**
+ * List the files of a skill folder recursively (SKILL.md and dotfiles excluded)
+ */
+async function listBundledFiles(root: string, dir = root): Promise<string[]> {
+  const files: string[] = [];
+  for (const entry of await readDirEntries(dir)) {
+    if (entry.name.startsWith('.')) {
+      continue;
+    }
+    const path = join(dir, entry.name);
+    // Symbolic links are not followed, so a link cycle cannot recurse forever
+    if (entry.isDirectory()) {
+      files.push(...await listBundledFiles(root, path));
+    } else if (entry.isFile() && path !== join(root, SKILL_FILE)) {
+      files.push(relative(root, path));
+    }
+  }
+  return files.sort();
+}
+
+/**
+ * Parse the SKILL.md of a skill folder, or return null when it is not a valid skill
+ */
+async function parseSkillDir(
+  path: string,
+  source: 'plugin' | 'user' | 'project',
+  pluginName?: string
+): Promise<SkillInfo | null> {
+  let content: string;
+  try {
+    content = await readFile(join(path, SKILL_FILE), 'utf-8');
+  } catch {
+    // Not a skill folder
+    return null;
+  }
+
+  const frontmatter = parseFrontmatter(content);
+  const description = frontmatterString(frontmatter, 'description');
+  if (!description) {
+    logger.warn(`Skipping skill without description: ${join(path, SKILL_FILE)}`);
+    return null;
+  }
+
+  const name = frontmatterString(frontmatter, 'name') ?? basename(path);
+  const allowedTools = frontmatterList(frontmatter, 'allowed-tools');
+
+  return {
+    name: pluginName ? `${pluginName}:${name}` : name,
+    description,
+    ...(allowedTools ? { allowedTools } : {}),
+    source,
+    pluginName,
+    path,
+    files: await listBundledFiles(path),
+  };
+}
+
+async function discoverSkillsInDir(
+  dir: string,
+  source: 'plugin' | 'user' | 'project',
+  pluginName?: string
+): Promise<SkillInfo[]> {
+  const results: SkillInfo[] = [];
+  for (const entry of await readDirEntries(dir)) {
+    if (!entry.isDirectory()) {
+      continue;
+    }
+    const info = await parseSkillDir(join(dir, entry.name), source, pluginName);
+    if (info) results.push(info);
+  }
+  return results;
+}
+
+/**
+ * Discover all Agent Skills from all sources. When names collide, earlier sources win:
+ * 1. Project-level skills → {workingDirectory}/.claude/skills/<name>/SKILL.md
+ * 2. User-level skills → ~/.claude/skills/<name>/SKILL.md
+ * 3. Enabled SDK plugins (from settings.json) → {pluginPath}/skills/<name>/SKILL.md
+ */
+export async function discoverAllSkills(config: ResolvedConfig): Promise<SkillInfo[]> {
+  const byName = new Map<string, SkillInfo>();
+  const add = (skills: SkillInfo[]) => {
+    for (const skill of skills) {
+      const existing = byName.get(skill.name);
+      if (existing) {
+        logger.info(`Skill ${skill.name} from ${skill.path} is shadowed by ${existing.path}`);
+        continue;
+      }
+      byName.set(skill.name, skill);
+    }
+  };
+
+  // 1. Project-level skills
+  add(await discoverSkillsInDir(join(config.workingDirectory, '.claude', 'skills'), 'project'));
+
+  // 2. User-level skills
+  add(await discoverSkillsInDir(join(homedir(), '.claude', 'skills'), 'user'));
+
+  // 3. Plugin skills
+  if (config.sdkPlugins) {
+    for (const plugin of config.sdkPlugins) {
+      add(await discoverSkillsInDir(join(plugin.path, 'skills'), 'plugin', basename(plugin.path)));
+    }
+  }
+
+  logger.debug(`Total skills discovered: ${byName.size}`);
+  return [...byName.values()];
+}
+
+/**
+ * Whether a skill is enabled when a session starts: listed in `enabledSkills`, or any skill when it is not configured
+ */
+export function isSkillEnabledByDefault(config: ResolvedConfig, name: string): boolean {
+  return config.enabledSkills ? config.enabledSkills.includes(name) : true;
+}
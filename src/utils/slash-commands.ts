@@ -1,17 +1,31 @@
-import { readdir, readFile, access } from 'fs/promises';
-import { join, basename, extname } from 'path';
+import { readdir, readFile, stat } from 'fs/promises';
+import type { Dirent } from 'fs';
+import { join, basename, extname, relative, resolve, sep } from 'path';
 import { homedir } from 'os';
+import { parse as parseYaml } from 'yaml';
 import type { ResolvedConfig } from '../types/config.js';
+import { isPathInside } from './upload.js';
 import { logger } from './logger.js';
 
+// Files larger than this are not inlined by @path references
+const MAX_INCLUDED_FILE_SIZE = 256 * 1024;
+
 /**
  * Information about a discovered slash command (.md file based)
  */
 export interface SlashCommandInfo {
-  /** Command name (filename without .md extension) */
+  /** Command name: path below the commands directory without .md, with ':' between directories */
   name: string;
+  /** Subdirectory of the command as "a:b" (only for commands in subdirectories) */
+  namespace?: string;
   /** Description from frontmatter */
   description?: string;
+  /** Usage hint for the arguments (`argument-hint` frontmatter) */
+  argumentHint?: string;
+  /** Tools the command may use without asking (`allowed-tools` frontmatter) */
+  allowedTools?: string[];
+  /** Model to run the command with (`model` frontmatter) */
+  model?: string;
   /** Source of the command */
   source: 'plugin' | 'project' | 'user';
   /** Plugin name (only when source is 'plugin') */
@@ -21,24 +35,37 @@ export interface SlashCommandInfo {
 }
 
 /**
- * Parse simple YAML-like frontmatter from a markdown file.
- * Handles the format used by Claude Code plugin commands:
+ * Parse the YAML frontmatter of a markdown file:
  *   ---
- *   description: "Some description"
- *   argument-hint: "<arg>"
- *   hide-from-slash-command-tool: "true"
+ *   description: Fix a GitHub issue
+ *   argument-hint: [number] [priority]
+ *   allowed-tools:
+ *     - Bash(gh issue view:*)
+ *     - Read
  *   ---
+ * Frontmatter that is not valid YAML (e.g. `argument-hint: [a] [b]`, common in Claude Code commands)
+ * falls back to one `key: value` string per line.
  */
-export function parseFrontmatter(content: string): Record<string, string> {
-  const result: Record<string, string> = {};
-
+export function parseFrontmatter(content: string): Record<string, unknown> {
   // Find frontmatter block between --- delimiters
   const match = content.match(/^---\r?\n([\s\S]*?)\r?\n---/);
   if (!match) {
-    return result;
+    return {};
   }
 
-  const frontmatter = match[1];
+  try {
+    const parsed: unknown = parseYaml(match[1]);
+    return parsed !== null && typeof parsed === 'object' && !Array.isArray(parsed)
+      ? parsed as Record<string, unknown>
+      : {};
+  } catch (error) {
+    logger.debug(`Invalid YAML frontmatter, parsing it line by line: ${error instanceof Error ? error.message : error}`);
+    return parseFrontmatterLines(match[1]);
+  }
+}
+
+function parseFrontmatterLines(frontmatter: string): Record<string, string> {
+  const result: Record<string, string> = {};
 
   for (const line of frontmatter.split('\n')) {
     const trimmed = line.trim();
@@ -51,55 +78,179 @@ export function parseFrontmatter(content: string): Record<string, string> {
     const rawValue = trimmed.slice(colonIndex + 1).trim();
 
     // Strip surrounding quotes if present
-    const value = rawValue.replace(/^["']|["']$/g, '');
-    result[key] = value;
+    result[key] = rawValue.replace(/^["']|["']$/g, '');
   }
 
   return result;
 }
 
 /**
- * List all .md files in a directory.
+ * Frontmatter value as a string. A YAML flow sequence such as `argument-hint: [message]`
+ * is turned back into its bracketed form.
+ */
+export function frontmatterString(frontmatter: Record<string, unknown>, key: string): string | undefined {
+  const value = frontmatter[key];
+  if (typeof value === 'string') {
+    return value.trim() || undefined;
+  }
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return String(value);
+  }
+  if (Array.isArray(value) && value.length > 0) {
+    return `[${value.map(String).join(', ')}]`;
+  }
+  return undefined;
+}
+
+/**
+ * Frontmatter value as a list: a YAML sequence or a comma-separated string (see parseToolList)
+ */
+export function frontmatterList(frontmatter: Record<string, unknown>, key: string): string[] | undefined {
+  const value = frontmatter[key];
+  const items = Array.isArray(value)
+    ? value.map(String).map(item => item.trim()).filter(Boolean)
+    : typeof value === 'string' ? parseToolList(value) : [];
+  return items.length > 0 ? items : undefined;
+}
+
+/**
+ * Body of a markdown file without its frontmatter block
+ */
+export function stripFrontmatter(content: string): string {
+  return content.replace(/^---\r?\n[\s\S]*?\r?\n---\r?\n?/, '').trim();
+}
+
+/**
+ * Split a comma-separated tool list, keeping commas inside parentheses
+ * (e.g. "Bash(git add:*), Read")
+ */
+export function parseToolList(value: string): string[] {
+  const tools: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of value) {
+    if (char === '(') depth++;
+    if (char === ')') depth = Math.max(0, depth - 1);
+    if (char === ',' && depth === 0) {
+      tools.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  tools.push(current);
+  return tools.map(tool => tool.trim()).filter(Boolean);
+}
+
+function globToRegExp(glob: string): RegExp {
+  const pattern = glob.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+  return new RegExp(`^${pattern}$`);
+}
+
+// Shell operators that chain, substitute or redirect commands: a prefix rule must not approve what follows them
+const SHELL_CONTROL_PATTERN = /[;&|`<>\n\r]|\$\(/;
+
+/**
+ * Check a tool call against a permission rule: a tool name or glob ("mcp__github__*"),
+ * optionally with a specifier matched against the command or path ("Bash(git add:*)", "Read(src/*)").
+ * Commands containing shell control or redirection operators never match a specifier, a prefix
+ * only matches whole words ("git add" does not match "git addfoo"), and paths are resolved
+ * against `cwd` before matching so "src/../.." cannot escape the pattern.
+ */
+export function matchesToolRule(rule: string, toolName: string, input?: unknown, cwd = process.cwd()): boolean {
+  const match = rule.match(/^([^(]+)(?:\((.*)\))?$/);
+  if (!match || !globToRegExp(match[1].trim()).test(toolName)) {
+    return false;
+  }
+
+  const specifier = match[2];
+  if (specifier === undefined) {
+    return true;
+  }
+
+  const fields = (input ?? {}) as { command?: unknown; file_path?: unknown; path?: unknown };
+  if (typeof fields.command === 'string') {
+    const command = fields.command.trim();
+    if (SHELL_CONTROL_PATTERN.test(command)) {
+      return false;
+    }
+    // "prefix:*" matches the prefix alone or followed by whitespace
+    if (specifier.endsWith(':*')) {
+      const prefix = specifier.slice(0, -2);
+      return command === prefix || (command.startsWith(prefix) && /\s/.test(command.charAt(prefix.length)));
+    }
+    return globToRegExp(specifier).test(command);
+  }
+
+  const path = [fields.file_path, fields.path].find(v => typeof v === 'string') as string | undefined;
+  if (path === undefined) {
+    return false;
+  }
+  return globToRegExp(resolve(cwd, specifier)).test(resolve(cwd, path));
+}
+
+/**
+ * List all .md files in a directory and its subdirectories.
  * Returns empty array if directory does not exist.
  */
 async function listMdFiles(dir: string): Promise<string[]> {
+  let entries: Dirent[];
   try {
-    await access(dir);
-    const entries = await readdir(dir, { withFileTypes: true });
-    return entries
-      .filter(e => e.isFile() && extname(e.name).toLowerCase() === '.md')
-      .map(e => join(dir, e.name));
+    entries = await readdir(dir, { withFileTypes: true });
   } catch {
     logger.debug(`Slash command directory not found or unreadable: ${dir}`);
     return [];
   }
+
+  const files: string[] = [];
+  for (const entry of entries) {
+    const path = join(dir, entry.name);
+    // Symbolic links are not followed, so a link cycle cannot recurse forever
+    if (entry.isDirectory()) {
+      files.push(...await listMdFiles(path));
+    } else if (entry.isFile() && extname(entry.name).toLowerCase() === '.md') {
+      files.push(path);
+    }
+  }
+  return files.sort();
 }
 
 /**
  * Parse a single .md command file and return SlashCommandInfo,
  * or null if the command should be hidden.
+ * Files in subdirectories are namespaced: commands/frontend/component.md is "frontend:component".
  */
 async function parseCommandFile(
   filePath: string,
+  commandsDir: string,
   source: 'plugin' | 'project' | 'user',
-  pluginName?: string
+  pluginName?: string,
+  includeHidden = false
 ): Promise<SlashCommandInfo | null> {
   try {
     const content = await readFile(filePath, 'utf-8');
     const frontmatter = parseFrontmatter(content);
 
     // Skip commands that are hidden from the slash command tool
-    if (frontmatter['hide-from-slash-command-tool'] === 'true') {
+    const hidden = frontmatter['hide-from-slash-command-tool'];
+    if ((hidden === true || hidden === 'true') && !includeHidden) {
       logger.debug(`Skipping hidden command: ${filePath}`);
       return null;
     }
 
-    const name = basename(filePath, '.md');
-    const description = frontmatter['description'];
+    const segments = relative(commandsDir, filePath).slice(0, -extname(filePath).length).split(sep);
+    const namespace = segments.slice(0, -1).join(':');
+    const allowedTools = frontmatterList(frontmatter, 'allowed-tools');
+    const argumentHint = frontmatterString(frontmatter, 'argument-hint');
+    const model = frontmatterString(frontmatter, 'model');
 
     return {
-      name,
-      description,
+      name: segments.join(':'),
+      description: frontmatterString(frontmatter, 'description'),
+      ...(namespace ? { namespace } : {}),
+      ...(argumentHint ? { argumentHint } : {}),
+      ...(allowedTools ? { allowedTools } : {}),
+      ...(model ? { model } : {}),
       source,
       pluginName,
       filePath,
@@ -110,62 +261,208 @@ async function parseCommandFile(
   }
 }
 
-/**
- * Discover slash commands from a plugin directory.
- * Looks for *.md files in {pluginPath}/commands/
- */
-async function discoverPluginSlashCommands(
-  pluginPath: string
+async function discoverCommandsInDir(
+  commandsDir: string,
+  source: 'plugin' | 'project' | 'user',
+  includeHidden: boolean,
+  pluginName?: string
 ): Promise<SlashCommandInfo[]> {
-  const pluginName = basename(pluginPath);
-  const commandsDir = join(pluginPath, 'commands');
-  const files = await listMdFiles(commandsDir);
-
   const results: SlashCommandInfo[] = [];
-  for (const filePath of files) {
-    const info = await parseCommandFile(filePath, 'plugin', pluginName);
+  for (const filePath of await listMdFiles(commandsDir)) {
+    const info = await parseCommandFile(filePath, commandsDir, source, pluginName, includeHidden);
     if (info) results.push(info);
   }
-
-  logger.debug(`Found ${results.length} slash commands in plugin: ${pluginName}`);
   return results;
 }
 
+const SOURCE_PRECEDENCE: Record<SlashCommandInfo['source'], number> = { project: 0, user: 1, plugin: 2 };
+
 /**
- * Discover all slash commands from all sources:
- * 1. Enabled SDK plugins (from settings.json) → {pluginPath}/commands/*.md
- * 2. Project-level commands → {workingDirectory}/.claude/commands/*.md
- * 3. User-level commands → ~/.claude/commands/*.md
+ * Commands from every source, before conflicts are resolved
  */
-export async function discoverAllSlashCommands(
-  config: ResolvedConfig
-): Promise<SlashCommandInfo[]> {
+async function discoverCommandCandidates(config: ResolvedConfig, includeHidden: boolean): Promise<SlashCommandInfo[]> {
   const all: SlashCommandInfo[] = [];
 
   // 1. Plugin commands
   if (config.sdkPlugins) {
     for (const plugin of config.sdkPlugins) {
-      const commands = await discoverPluginSlashCommands(plugin.path);
+      const pluginName = basename(plugin.path);
+      const commands = await discoverCommandsInDir(join(plugin.path, 'commands'), 'plugin', includeHidden, pluginName);
+      logger.debug(`Found ${commands.length} slash commands in plugin: ${pluginName}`);
       all.push(...commands);
     }
   }
 
   // 2. Project-level commands
-  const projectCommandsDir = join(config.workingDirectory, '.claude', 'commands');
-  const projectFiles = await listMdFiles(projectCommandsDir);
-  for (const filePath of projectFiles) {
-    const info = await parseCommandFile(filePath, 'project');
-    if (info) all.push(info);
-  }
+  all.push(...await discoverCommandsInDir(join(config.workingDirectory, '.claude', 'commands'), 'project', includeHidden));
 
   // 3. User-level commands
-  const userCommandsDir = join(homedir(), '.claude', 'commands');
-  const userFiles = await listMdFiles(userCommandsDir);
-  for (const filePath of userFiles) {
-    const info = await parseCommandFile(filePath, 'user');
-    if (info) all.push(info);
-  }
+  all.push(...await discoverCommandsInDir(join(homedir(), '.claude', 'commands'), 'user', includeHidden));
 
-  logger.debug(`Total slash commands discovered: ${all.length}`);
   return all;
 }
+
+/**
+ * Keep one command per name: project commands win over user commands, which win over
+ * plugin commands; between plugins, the first one in settings.json wins
+ */
+function resolveConflicts(candidates: SlashCommandInfo[]): SlashCommandInfo[] {
+  const byName = new Map<string, SlashCommandInfo>();
+
+  for (const command of candidates) {
+    const current = byName.get(command.name);
+    if (!current) {
+      byName.set(command.name, command);
+      continue;
+    }
+
+    const [winner, loser] = SOURCE_PRECEDENCE[command.source] < SOURCE_PRECEDENCE[current.source]
+      ? [command, current]
+      : [current, command];
+    byName.set(command.name, winner);
+    logger.info(
+      `Slash command /${command.name} from ${loser.filePath} is shadowed by ${winner.filePath}`
+      + (loser.pluginName ? ` (still available as /${loser.pluginName}:${loser.name})` : '')
+    );
+  }
+
+  return [...byName.values()];
+}
+
+/**
+ * Discover all slash commands from all sources (subdirectories included):
+ * 1. Enabled SDK plugins (from settings.json) → {pluginPath}/commands/
+ * 2. Project-level commands → {workingDirectory}/.claude/commands/
+ * 3. User-level commands → ~/.claude/commands/
+ * Commands sharing a name are resolved by precedence (see resolveConflicts).
+ * @param options.includeHidden Also return commands hidden from the slash command tool (they can still be run)
+ */
+export async function discoverAllSlashCommands(
+  config: ResolvedConfig,
+  options: { includeHidden?: boolean } = {}
+): Promise<SlashCommandInfo[]> {
+  const commands = resolveConflicts(await discoverCommandCandidates(config, options.includeHidden ?? false));
+  logger.debug(`Total slash commands discovered: ${commands.length}`);
+  return commands;
+}
+
+/**
+ * Find a command by name ("name", "namespace:name" or "pluginName:name").
+ * Plain names are resolved by precedence (see resolveConflicts); a plugin-qualified name
+ * also reaches plugin commands shadowed by a project or user command.
+ */
+export async function findSlashCommand(config: ResolvedConfig, name: string): Promise<SlashCommandInfo | null> {
+  const candidates = await discoverCommandCandidates(config, true);
+
+  return resolveConflicts(candidates).find(cmd => cmd.name === name)
+    ?? candidates.find(cmd => cmd.pluginName !== undefined && `${cmd.pluginName}:${cmd.name}` === name)
+    ?? null;
+}
+
+/**
+ * Split `/name args` typed as a message into the command name and its arguments
+ * @returns null when the content is not a slash command
+ */
+export function parseSlashCommandInput(content: string): { name: string; arguments: string } | null {
+  const match = content.trim().match(/^\/([A-Za-z0-9_.:-]+)(?:\s+([\s\S]*))?$/);
+  if (!match) {
+    return null;
+  }
+  return { name: match[1], arguments: (match[2] ?? '').trim() };
+}
+
+/**
+ * Split arguments like a shell: whitespace separated, quotes group words
+ */
+function splitArguments(args: string): string[] {
+  return [...args.matchAll(/"([^"]*)"|'([^']*)'|(\S+)/g)].map(m => m[1] ?? m[2] ?? m[3]);
+}
+
+function fence(content: string): string {
+  const longestRun = Math.max(0, ...(content.match(/`+/g) ?? []).map(run => run.length));
+  return '`'.repeat(Math.max(3, longestRun + 1));
+}
+
+/**
+ * Contents of the files referenced as `@path` (relative to the working directory)
+ */
+async function includeReferencedFiles(prompt: string, workingDirectory: string): Promise<string[]> {
+  const root = resolve(workingDirectory);
+  const seen = new Set<string>();
+  const included: string[] = [];
+
+  for (const match of prompt.matchAll(/(?:^|\s)@([^\s`]+)/g)) {
+    const reference = match[1];
+    const filePath = resolve(root, reference);
+    if (seen.has(filePath) || !isPathInside(root, filePath)) {
+      continue;
+    }
+    seen.add(filePath);
+
+    try {
+      const stats = await stat(filePath);
+      if (!stats.isFile()) {
+        continue;
+      }
+      if (stats.size > MAX_INCLUDED_FILE_SIZE) {
+        logger.warn(`Not including ${reference} in slash command: file exceeds ${MAX_INCLUDED_FILE_SIZE} bytes`);
+        continue;
+      }
+      const content = (await readFile(filePath, 'utf-8')).replace(/\n$/, '');
+      const marker = fence(content);
+      included.push(`Contents of ${reference}:\n${marker}\n${content}\n${marker}`);
+    } catch {
+      // Not a file reference (e.g. an @mention)
+    }
+  }
+
+  return included;
+}
+
+/**
+ * A slash command ready to be sent: the expanded prompt and the frontmatter settings for its turn
+ */
+export interface ExpandedSlashCommand {
+  name: string;
+  arguments: string;
+  prompt: string;
+  allowedTools?: string[];
+  model?: string;
+}
+
+/**
+ * Expand a command file: substitute $ARGUMENTS and $1..$n, and inline files referenced as @path
+ */
+export async function expandSlashCommand(
+  command: SlashCommandInfo,
+  args: string,
+  workingDirectory: string
+): Promise<ExpandedSlashCommand> {
+  const body = stripFrontmatter(await readFile(command.filePath, 'utf-8'));
+  const positional = splitArguments(args);
+
+  let usesArguments = false;
+  // Single pass, so that placeholders inside the arguments are left as-is
+  let prompt = body.replace(/\$(?:ARGUMENTS\b|(\d+))/g, (_, index: string | undefined) => {
+    usesArguments = true;
+    return index === undefined ? args : positional[Number(index) - 1] ?? '';
+  });
+
+  // Commands without placeholders still receive their arguments
+  if (!usesArguments && args) {
+    prompt += `\n\nARGUMENTS: ${args}`;
+  }
+
+  const included = await includeReferencedFiles(prompt, workingDirectory);
+  if (included.length > 0) {
+    prompt += `\n\n${included.join('\n\n')}`;
+  }
+
+  return {
+    name: command.pluginName && command.source === 'plugin' ? `${command.pluginName}:${command.name}` : command.name,
+    arguments: args,
+    prompt,
+    ...(command.allowedTools ? { allowedTools: command.allowedTools } : {}),
+    ...(command.model ? { model: command.model } : {}),
+  };
+}
@@ -24,7 +24,7 @@ export class SSEClientImpl implements SSEClient {
     });
   }
 
-  send(event: string, data: unknown): void {
+  send(event: string, data: unknown, id?: string): void {
     if (this.closed) {
       logger.warn(`Attempted to send to closed SSE client ${this.id}`);
       return;
@@ -32,7 +32,9 @@ export class SSEClientImpl implements SSEClient {
 
     try {
       const dataString = JSON.stringify(data);
-      this.res.write(`event: ${event}\ndata: ${dataString}\n\n`);
+      // The id field lets clients resume with Last-Event-ID after reconnecting
+      const idLine = id !== undefined ? `id: ${id}\n` : '';
+      this.res.write(`${idLine}event: ${event}\ndata: ${dataString}\n\n`);
     } catch (error) {
       logger.error(`Error sending SSE event to client ${this.id}:`, error);
     }
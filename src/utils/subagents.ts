@@ -0,0 +1,170 @@
+import { readdir, readFile, access } from 'fs/promises';
+import { join, basename, extname } from 'path';
+import { homedir } from 'os';
+import type { AgentDefinition } from '@anthropic-ai/claude-agent-sdk';
+import type { ResolvedConfig } from '../types/config.js';
+import { frontmatterList, frontmatterString, parseFrontmatter, stripFrontmatter } from './slash-commands.js';
+import { logger } from './logger.js';
+
+const AGENT_MODELS = ['sonnet', 'opus', 'haiku', 'inherit'];
+
+/**
+ * Information about a discovered subagent (.md file or inline config.json definition)
+ */
+export interface SubagentInfo {
+  /** Agent name (frontmatter `name`, defaults to the filename without .md) */
+  name: string;
+  /** When the agent should be used */
+  description: string;
+  /** System prompt (body of the .md file) */
+  prompt: string;
+  /** Allowed tools (inherits all tools when omitted) */
+  tools?: string[];
+  /** Model alias */
+  model?: string;
+  /** Source of the agent */
+  source: 'plugin' | 'user' | 'project' | 'config';
+  /** Plugin name (only when source is 'plugin') */
+  pluginName?: string;
+  /** Absolute path to the .md file (not set for inline definitions) */
+  filePath?: string;
+}
+
+/**
+ * List all .md files in a directory.
+ * Returns empty array if directory does not exist.
+ */
+async function listMdFiles(dir: string): Promise<string[]> {
+  try {
+    await access(dir);
+    const entries = await readdir(dir, { withFileTypes: true });
+    return entries
+      .filter(e => e.isFile() && extname(e.name).toLowerCase() === '.md')
+      .map(e => join(dir, e.name));
+  } catch {
+    logger.debug(`Agents directory not found or unreadable: ${dir}`);
+    return [];
+  }
+}
+
+/**
+ * Parse a single agent .md file, or return null when it is not a valid definition
+ */
+async function parseAgentFile(
+  filePath: string,
+  source: 'plugin' | 'user' | 'project',
+  pluginName?: string
+): Promise<SubagentInfo | null> {
+  try {
+    const content = await readFile(filePath, 'utf-8');
+    const frontmatter = parseFrontmatter(content);
+
+    const name = frontmatterString(frontmatter, 'name') ?? basename(filePath, '.md');
+    const description = frontmatterString(frontmatter, 'description');
+    if (!description) {
+      logger.warn(`Skipping agent without description: ${filePath}`);
+      return null;
+    }
+
+    const tools = frontmatterList(frontmatter, 'tools');
+    const model = frontmatterString(frontmatter, 'model');
+
+    return {
+      name,
+      description,
+      prompt: stripFrontmatter(content),
+      ...(tools ? { tools } : {}),
+      ...(model ? { model } : {}),
+      source,
+      pluginName,
+      filePath,
+    };
+  } catch (error) {
+    logger.warn(`Failed to parse agent file ${filePath}:`, error);
+    return null;
+  }
+}
+
+async function discoverAgentsInDir(
+  dir: string,
+  source: 'plugin' | 'user' | 'project',
+  pluginName?: string
+): Promise<SubagentInfo[]> {
+  const results: SubagentInfo[] = [];
+  for (const filePath of await listMdFiles(dir)) {
+    const info = await parseAgentFile(filePath, source, pluginName);
+    if (info) results.push(info);
+  }
+  return results;
+}
+
+/**
+ * Discover all subagents from all sources. When names collide, later sources win:
+ * 1. Enabled SDK plugins (from settings.json) → {pluginPath}/agents/*.md
+ * 2. User-level agents → ~/.claude/agents/*.md
+ * 3. Project-level agents → {workingDirectory}/.claude/agents/*.md
+ * 4. Inline definitions → `agents` in .claude/config.json
+ */
+export async function discoverAllSubagents(config: ResolvedConfig): Promise<SubagentInfo[]> {
+  const byName = new Map<string, SubagentInfo>();
+  const add = (agents: SubagentInfo[]) => {
+    for (const agent of agents) {
+      byName.set(agent.name, agent);
+    }
+  };
+
+  // 1. Plugin agents
+  if (config.sdkPlugins) {
+    for (const plugin of config.sdkPlugins) {
+      add(await discoverAgentsInDir(join(plugin.path, 'agents'), 'plugin', basename(plugin.path)));
+    }
+  }
+
+  // 2. User-level agents
+  add(await discoverAgentsInDir(join(homedir(), '.claude', 'agents'), 'user'));
+
+  // 3. Project-level agents
+  add(await discoverAgentsInDir(join(config.workingDirectory, '.claude', 'agents'), 'project'));
+
+  // 4. Inline agents from config.json
+  if (config.agents) {
+    add(Object.entries(config.agents).map(([name, agent]) => ({
+      name,
+      description: agent.description,
+      prompt: agent.prompt,
+      ...(agent.tools ? { tools: agent.tools } : {}),
+      ...(agent.model ? { model: agent.model } : {}),
+      source: 'config' as const,
+    })));
+  }
+
+  logger.debug(`Total subagents discovered: ${byName.size}`);
+  return [...byName.values()];
+}
+
+/**
+ * Convert discovered subagents to the `agents` option of the Agent SDK
+ */
+export function toAgentDefinitions(subagents: SubagentInfo[]): Record<string, AgentDefinition> {
+  const definitions: Record<string, AgentDefinition> = {};
+
+  for (const agent of subagents) {
+    const definition: AgentDefinition = {
+      description: agent.description,
+      prompt: agent.prompt,
+    };
+    if (agent.tools) {
+      definition.tools = agent.tools;
+    }
+    if (agent.model) {
+      if (AGENT_MODELS.includes(agent.model)) {
+        definition.model = agent.model as AgentDefinition['model'];
+      } else {
+        logger.warn(`Ignoring unsupported model "${agent.model}" of agent ${agent.name} (supported: ${AGENT_MODELS.join(', ')})`);
+      }
+    }
+    definitions[agent.name] = definition;
+  }
+
+  return definitions;
+}
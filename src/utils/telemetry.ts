@@ -0,0 +1,91 @@
+import { createServer, type Server } from 'http';
+import { readFileSync } from 'fs';
+import { metricsService } from '../services/metrics.js';
+import { logger } from './logger.js';
+
+const DEFAULT_PROMETHEUS_PORT = 9464;
+
+let metricsServer: Server | null = null;
+
+export function isTelemetryEnabled(): boolean {
+  const value = process.env.CLAUDE_CODE_ENABLE_TELEMETRY;
+  return value === '1' || value === 'true';
+}
+
+export function getPrometheusPort(): number {
+  const port = parseInt(process.env.PROMETHEUS_PORT || '', 10);
+  return Number.isInteger(port) && port > 0 ? port : DEFAULT_PROMETHEUS_PORT;
+}
+
+function getAppVersion(): string {
+  try {
+    // Resolves to the package root from both src/utils and dist/utils
+    const pkg = JSON.parse(readFileSync(new URL('../../package.json', import.meta.url), 'utf-8'));
+    return typeof pkg.version === 'string' ? pkg.version : 'unknown';
+  } catch {
+    return 'unknown';
+  }
+}
+
+/**
+ * Create the HTTP server exposing GET /metrics in Prometheus text format
+ */
+export function createMetricsServer(): Server {
+  return createServer((req, res) => {
+    const path = (req.url ?? '/').split('?')[0];
+
+    if (req.method === 'GET' && path === '/metrics') {
+      res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+      res.end(metricsService.render());
+      return;
+    }
+
+    res.writeHead(404, { 'Content-Type': 'application/problem+json' });
+    res.end(JSON.stringify({
+      type: 'about:blank',
+      title: 'Not Found',
+      status: 404,
+      detail: `Cannot ${req.method} ${path}`,
+    }));
+  });
+}
+
+/**
+ * Enable metrics collection and start the Prometheus endpoint when
+ * CLAUDE_CODE_ENABLE_TELEMETRY is set
+ * @param host Interface to bind the metrics server to (the API server's HOST)
+ * @returns The metrics server, or null when telemetry is disabled or the server could not start
+ */
+export async function startTelemetry(host: string): Promise<Server | null> {
+  if (!isTelemetryEnabled()) {
+    return null;
+  }
+
+  metricsService.enable({ appVersion: getAppVersion() });
+
+  const port = getPrometheusPort();
+  const server = createMetricsServer();
+
+  return new Promise<Server | null>((resolve) => {
+    server.once('error', (error) => {
+      // Metrics are optional: keep the API server running without them
+      logger.error(`Failed to start Prometheus metrics server on ${host}:${port}:`, error);
+      resolve(null);
+    });
+    server.listen(port, host, () => {
+      metricsServer = server;
+      logger.info(`Prometheus metrics available at http://${host}:${port}/metrics`);
+      resolve(server);
+    });
+  });
+}
+
+export async function stopTelemetry(): Promise<void> {
+  if (!metricsServer) {
+    return;
+  }
+
+  const server = metricsServer;
+  metricsServer = null;
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+}
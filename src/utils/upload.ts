@@ -0,0 +1,104 @@
+import { mkdir, writeFile } from 'fs/promises';
+import { basename, extname, isAbsolute, join, relative, resolve } from 'path';
+
+/** Default uploads folder, relative to the working directory */
+export const DEFAULT_UPLOADS_DIR = 'uploads';
+
+/** Default maximum size of an uploaded file (10 MiB) */
+export const DEFAULT_UPLOAD_MAX_FILE_SIZE = 10 * 1024 * 1024;
+
+const MAX_FILENAME_LENGTH = 200;
+
+/**
+ * Error for upload paths that resolve outside of the uploads folder
+ */
+export class UploadPathError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UploadPathError';
+  }
+}
+
+export function isPathInside(parent: string, child: string): boolean {
+  const rel = relative(parent, child);
+  return rel === '' || (!rel.startsWith('..') && !isAbsolute(rel));
+}
+
+/**
+ * Reduce a client-supplied filename to a safe basename:
+ * directory components are dropped, anything outside [A-Za-z0-9._-] becomes `_`,
+ * and leading dots are removed so uploads never create hidden files
+ */
+export function sanitizeFilename(filename: string): string {
+  const name = basename(filename.replace(/\\/g, '/'))
+    .normalize('NFKC')
+    .replace(/[^A-Za-z0-9._-]+/g, '_')
+    .replace(/^[._]+/, '');
+
+  if (!name) {
+    return 'upload';
+  }
+
+  if (name.length <= MAX_FILENAME_LENGTH) {
+    return name;
+  }
+
+  // Keep the extension when truncating long names
+  const ext = extname(name).slice(0, 20);
+  return name.slice(0, MAX_FILENAME_LENGTH - ext.length) + ext;
+}
+
+/**
+ * Resolve the target directory of an upload: the uploads folder inside the working
+ * directory, optionally narrowed by a client-supplied relative subdirectory
+ */
+export function resolveUploadDir(workingDirectory: string, uploadsDir: string, subdir?: string): string {
+  const root = resolve(workingDirectory, uploadsDir);
+  if (!isPathInside(resolve(workingDirectory), root)) {
+    throw new UploadPathError(`Uploads folder ${uploadsDir} is outside of the working directory`);
+  }
+
+  return subdir ? resolveUploadSubdir(root, subdir) : root;
+}
+
+/**
+ * Resolve a client-supplied relative subdirectory of an uploads folder
+ * @param root Absolute path of the uploads folder
+ */
+export function resolveUploadSubdir(root: string, subdir: string): string {
+
+  if (isAbsolute(subdir) || subdir.includes('\0')) {
+    throw new UploadPathError(`Invalid upload path: ${subdir}`);
+  }
+
+  const target = resolve(root, subdir);
+  if (!isPathInside(root, target)) {
+    throw new UploadPathError(`Upload path ${subdir} is outside of the uploads folder`);
+  }
+
+  return target;
+}
+
+/**
+ * Write an uploaded file without overwriting existing files
+ * (`report.pdf` becomes `report-1.pdf`, `report-2.pdf`, ...)
+ * @returns Absolute path of the written file
+ */
+export async function saveUpload(dir: string, filename: string, data: Buffer): Promise<string> {
+  await mkdir(dir, { recursive: true });
+
+  const ext = extname(filename);
+  const stem = filename.slice(0, filename.length - ext.length);
+
+  for (let attempt = 0; ; attempt++) {
+    const filePath = join(dir, attempt === 0 ? filename : `${stem}-${attempt}${ext}`);
+    try {
+      await writeFile(filePath, data, { flag: 'wx' });
+      return filePath;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST' || attempt >= 1000) {
+        throw error;
+      }
+    }
+  }
+}
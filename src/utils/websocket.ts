@@ -0,0 +1,49 @@
+import { WebSocket } from 'ws';
+import type { SSEClient } from '../types/agent.js';
+import type { WsEventFrame, WsResponseFrame } from '../types/api.js';
+import { logger } from './logger.js';
+
+/**
+ * SessionService subscriber that delivers events over a WebSocket as JSON frames
+ */
+export class WebSocketClientImpl implements SSEClient {
+  public readonly id: string;
+  private ws: WebSocket;
+
+  constructor(id: string, ws: WebSocket) {
+    this.id = id;
+    this.ws = ws;
+  }
+
+  send(event: string, data: unknown, id?: string): void {
+    const frame: WsEventFrame = { type: 'event', event, event_id: id, data };
+    this.sendFrame(frame);
+  }
+
+  respond(frame: WsResponseFrame): void {
+    this.sendFrame(frame);
+  }
+
+  close(): void {
+    if (this.ws.readyState === WebSocket.OPEN || this.ws.readyState === WebSocket.CONNECTING) {
+      this.ws.close(1001, 'Server shutting down');
+    }
+  }
+
+  isClosed(): boolean {
+    return this.ws.readyState === WebSocket.CLOSING || this.ws.readyState === WebSocket.CLOSED;
+  }
+
+  private sendFrame(frame: WsEventFrame | WsResponseFrame): void {
+    if (this.ws.readyState !== WebSocket.OPEN) {
+      logger.warn(`Attempted to send to closed WebSocket client ${this.id}`);
+      return;
+    }
+
+    try {
+      this.ws.send(JSON.stringify(frame));
+    } catch (error) {
+      logger.error(`Error sending WebSocket frame to client ${this.id}:`, error);
+    }
+  }
+}